@@ -1,22 +1,68 @@
 
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { ThoughtNode, Edge } from './types';
-import { getRelatedTopics, getTopicInfo } from './services/geminiService';
+import { ThoughtNode, Edge, SavedMap, SavedMapSummary, BranchingResponse, Citation, GroundingSource, LayoutMode, NodeAnnotations, Synthesis, BranchMode, GenerationSettings, UsageRecord } from './types';
+import { canEmbed, configureGeneration, configureProvider, embedTexts, ensureProviderReady, findConnections, getGenerationSettings, getProviderSettings, getRequestStats, getTopicInfo, judgeRelevance, MAX_SYNTHESIS_ITEMS, streamDeepDive, streamRelatedTopics, subscribeToRequests, synthesizeNodes } from './services/thoughtService';
+import { clearCachedResponses, countCachedResponses, createMapId, deleteMap, duplicateMap, EditStamp, listMaps, loadMap, renameMap, saveMap, stampEdit } from './services/storageService';
+import { downloadFile, exportMapFile, MapImportIssue, parseMapFile, toFileName } from './services/mapFileService';
+import { parseMarkdownOutline, parseOpml, toDeepDiveMarkdown, toFreeMind, toMarkdownOutline, toOpml } from './services/outlineService';
+import { ImageExportScope, renderMapSvg, svgToPng } from './services/imageExportService';
+import { applyToEdges, applyToNodes, createCommand, EMPTY_HISTORY, GraphCommand, HistoryState, invertCommand, pushCommand } from './services/historyService';
+import { areConnected, canReparent, collectSubtree, createAddNodeCommand, createAnnotateCommand, createEditNodeCommand, createLinkCommand, createMergeCommand, createNodeId, createPruneCommand, createReparentCommand, createSynthesisCommand, createUpdateLinkCommand, edgeIdFor } from './services/graphEditService';
+import { DuplicatePair, findEmbeddingDuplicates, findLabelDuplicates, isSamePair } from './services/duplicateService';
+import { computeLayout, LAYOUT_MODES } from './services/layoutService';
+import { collectTags, NODE_STATUSES } from './services/annotationService';
+import { BRANCH_MODES } from './services/branchModeService';
+import { isWithinDepthLimit, loadGenerationDefaults, saveGenerationDefaults } from './services/generationSettingsService';
+import { AutoExploreJob, AutoExploreOptions, AutoExploreProgress, AutoExploreSetup, createAutoExploreJob } from './services/autoExploreService';
+import { SchedulerStats } from './services/requestScheduler';
+import { addUsage, estimateCost, loadUsageSettings, saveUsageSettings, spendingCapReason, UsageSettings } from './services/usageService';
+import { createPhysicsEngine } from './services/physicsEngine';
+import { buildSearchIndex, DEFAULT_SEARCH_FILTERS, hasActiveFilters, SearchFilters, SearchHit, searchNodes } from './services/searchService';
 import { NodeItem } from './components/NodeItem';
-import { ConnectionLine } from './components/ConnectionLine';
+import { GraphCanvas } from './components/GraphCanvas';
 import { Minimap } from './components/Minimap';
+import { MapLibrary } from './components/MapLibrary';
+import { ImportReport } from './components/ImportReport';
+import { ImageExportDialog } from './components/ImageExportDialog';
+import { ProviderSettingsDialog } from './components/ProviderSettingsDialog';
+import { GenerationSettingsDialog } from './components/GenerationSettingsDialog';
+import { NodeEditorDialog } from './components/NodeEditorDialog';
+import { CrossLinkDialog } from './components/CrossLinkDialog';
+import { MergeDialog } from './components/MergeDialog';
+import { AccessibleTree } from './components/AccessibleTree';
+import { CommandPalette, PaletteCommand } from './components/CommandPalette';
+import { SearchPanel } from './components/SearchPanel';
+import { DeepDivePanel } from './components/DeepDivePanel';
+import { AutoExplorePanel } from './components/AutoExplorePanel';
+import { UsageDialog } from './components/UsageDialog';
 
 const CANVAS_SIZE = 10000; 
 const VIEWPORT_BUFFER = 1000; 
+const AUTOSAVE_INTERVAL = 1500;
+const DROP_RADIUS = 60;
+// Below this zoom, nodes away from the viewport centre are drawn as dots on the edge canvas
+const LOD_ZOOM = 0.5;
+// Screen distance from the viewport centre within which nodes keep their full card
+const DETAIL_RADIUS = 320;
 
-// Physics Constants
-const REPULSION_STRENGTH = 18000;
-const ATTRACTION_STRENGTH = 0.04;
-const HIERARCHY_STRENGTH = 0.15;
-const DAMPING = 0.75; 
-const MAX_VELOCITY = 8; 
-const MIN_DIST_SQ = 1200; 
-const GLOBAL_CENTERING_STRENGTH = 0.005; 
+// Fraction of the remaining distance covered per frame when easing into a computed layout
+const LAYOUT_EASING = 0.12;
+
+type TreeRelation = 'child' | 'parent' | 'previous' | 'next';
+// Arrow keys follow the direction each layout grows in; the cross axis walks between siblings
+const ARROW_RELATIONS: Record<LayoutMode, Record<string, TreeRelation>> = {
+  force: { ArrowUp: 'child', ArrowDown: 'parent', ArrowLeft: 'previous', ArrowRight: 'next' },
+  radial: { ArrowUp: 'child', ArrowDown: 'parent', ArrowLeft: 'previous', ArrowRight: 'next' },
+  tree: { ArrowDown: 'child', ArrowUp: 'parent', ArrowLeft: 'previous', ArrowRight: 'next' },
+  orgchart: { ArrowRight: 'child', ArrowLeft: 'parent', ArrowUp: 'previous', ArrowDown: 'next' }
+};
+
+const EXPORT_FORMATS: [string, (map: SavedMap) => void][] = [
+  ['JSON', (map) => exportMapFile(map)],
+  ['Markdown', (map) => downloadFile(toFileName(map.title, 'md'), toMarkdownOutline(map), 'text/markdown')],
+  ['OPML', (map) => downloadFile(toFileName(map.title, 'opml'), toOpml(map), 'text/x-opml')],
+  ['FreeMind', (map) => downloadFile(toFileName(map.title, 'mm'), toFreeMind(map), 'application/x-freemind')]
+];
 
 const SURPRISE_TOPICS = [
   "Quantum Entanglement",
@@ -43,6 +89,7 @@ const App: React.FC = () => {
   const [selectedNodeDirection, setSelectedNodeDirection] = useState<'above' | 'below'>('below');
   const [theme, setTheme] = useState<'dark' | 'light'>('dark');
   const [isEditMode, setIsEditMode] = useState(false);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('force');
   const [isOptionsMenuOpen, setIsOptionsMenuOpen] = useState(false);
   const [isMinimapOpen, setIsMinimapOpen] = useState(false);
   const [activeLevel, setActiveLevel] = useState(0);
@@ -52,19 +99,69 @@ const App: React.FC = () => {
   const [viewport, setViewport] = useState({ x: 0, y: 0, width: window.innerWidth, height: window.innerHeight });
   const [searchQuery, setSearchQuery] = useState("");
   const [isSearchExpanded, setIsSearchExpanded] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const [isSearchDimming, setIsSearchDimming] = useState(false);
+  const [activeMatchIndex, setActiveMatchIndex] = useState(-1);
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0, scrollLeft: 0, scrollTop: 0 });
+  const [mapMeta, setMapMeta] = useState<{ id: string; title: string; createdAt: number } | null>(null);
+  const [savedMaps, setSavedMaps] = useState<SavedMapSummary[]>([]);
+  const [importReport, setImportReport] = useState<{ title: string; importedCount: number; rejected: MapImportIssue[]; warnings: MapImportIssue[] } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+  const [isProviderSettingsOpen, setIsProviderSettingsOpen] = useState(false);
+  const [cachedResponses, setCachedResponses] = useState<number | null>(null);
+  const [requestStats, setRequestStats] = useState<SchedulerStats>(getRequestStats);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [mapUsage, setMapUsage] = useState<UsageRecord[]>([]);
+  const [sessionUsage, setSessionUsage] = useState<UsageRecord[]>([]);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(getGenerationSettings);
+  const [isGenerationSettingsOpen, setIsGenerationSettingsOpen] = useState(false);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [nodeEditor, setNodeEditor] = useState<{ mode: 'edit' | 'child' | 'sibling'; nodeId: string } | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [linkSourceId, setLinkSourceId] = useState<string | null>(null);
+  const [linkEditor, setLinkEditor] = useState<{ from: string; to: string; edgeId?: string } | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<{ nodeId: string; text: string } | null>(null);
+  const [synthesisStatus, setSynthesisStatus] = useState<{ nodeId: string; text: string } | null>(null);
+  const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false);
+  const [meaningPairs, setMeaningPairs] = useState<DuplicatePair[]>([]);
+  const [isCheckingMeaning, setIsCheckingMeaning] = useState(false);
+  const [meaningError, setMeaningError] = useState<string | null>(null);
+  const [dismissedPairs, setDismissedPairs] = useState<DuplicatePair[]>([]);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [isKeyboardNav, setIsKeyboardNav] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+  const [deepDiveView, setDeepDiveView] = useState<{ nodeId: string; draft: string | null; error: string | null } | null>(null);
+  const [autoExplore, setAutoExplore] = useState<{ nodeId: string; options: AutoExploreOptions | null; progress: AutoExploreProgress | null } | null>(null);
 
   const containerRef = useRef<HTMLDivElement>(null);
   const zoomRef = useRef(zoom); 
-  const nodeVelocities = useRef<{ [key: string]: { vx: number; vy: number } }>({});
+  const physicsRef = useRef(createPhysicsEngine({ spacingY: isMobile ? -100 : -140, center: { x: CANVAS_SIZE / 2, y: CANVAS_SIZE / 2 } }));
   const requestRef = useRef<number>(null);
+  const pendingSaveRef = useRef<SavedMap | null>(null);
+  const saveTimeoutRef = useRef<number | null>(null);
+  // The open map's last edit; saves that change nothing but the view keep its time
+  const editStampRef = useRef<EditStamp | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const branchControllers = useRef<{ [key: string]: AbortController }>({});
+  const deepDiveController = useRef<AbortController | null>(null);
+  const autoExploreJob = useRef<AutoExploreJob | null>(null);
+  const dragMoveRef = useRef<{ id: string; from: { x: number; y: number }; to: { x: number; y: number }; targetId: string | null } | null>(null);
+  // Latest graph for handlers that outlive the render they were created in (node drags)
+  const graphRef = useRef({ nodes, edges });
+  graphRef.current = { nodes, edges };
+  // Where arrow keys resume after the selection is cleared, e.g. while a branch streams in
+  const lastSelectedRef = useRef<string | null>(null);
+  if (selectedNodeId) lastSelectedRef.current = selectedNodeId;
 
   useEffect(() => {
     zoomRef.current = zoom;
   }, [zoom]);
 
-  const branchCount = 3;
+  const branchCount = generationSettings.branchCount;
   const spacingY = isMobile ? -100 : -140; 
   const spreadX = isMobile ? 120 : 180;
 
@@ -78,108 +175,168 @@ const App: React.FC = () => {
     document.body.className = theme;
   }, [theme]);
 
-  // Ensure API Key is selected for Pro models
-  const checkApiKey = async () => {
-    if (typeof window !== 'undefined' && (window as any).aistudio) {
-      const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-      if (!hasKey) {
-        await (window as any).aistudio.openSelectKey();
-      }
+  useEffect(() => subscribeToRequests(setRequestStats), []);
+
+  useEffect(() => {
+    if (!isProviderSettingsOpen) return;
+    setCachedResponses(null);
+    countCachedResponses().then(setCachedResponses).catch(() => setCachedResponses(null));
+  }, [isProviderSettingsOpen]);
+
+  const clearResponseCache = useCallback(() => {
+    clearCachedResponses()
+      .then(() => {
+        setCachedResponses(0);
+        setAnnouncement('Cleared cached answers');
+      })
+      .catch(err => console.error("Failed to clear the response cache:", err));
+  }, []);
+
+  const refreshLibrary = useCallback(() => {
+    listMaps().then(setSavedMaps).catch(err => console.error("Failed to list saved maps:", err));
+  }, []);
+
+  useEffect(() => {
+    if (!isStarted) refreshLibrary();
+  }, [isStarted, refreshLibrary]);
+
+  const flushSave = useCallback(async () => {
+    if (saveTimeoutRef.current !== null) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
     }
+    const snapshot = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (!snapshot) return;
+    const { map, stamp } = stampEdit(snapshot, editStampRef.current);
+    editStampRef.current = stamp;
+    try {
+      await saveMap(map);
+    } catch (err) {
+      console.error("Failed to save map:", err);
+    }
+  }, []);
+
+  const getCurrentMap = useCallback((): SavedMap | null => {
+    if (!mapMeta || nodes.length === 0) return null;
+    return { ...mapMeta, nodes, edges, view: { zoom, scrollX: viewport.x, scrollY: viewport.y, activeLevel, layout: layoutMode }, settings: generationSettings, usage: mapUsage, updatedAt: editStampRef.current?.mapId === mapMeta.id ? editStampRef.current.updatedAt : Date.now() };
+  }, [mapMeta, nodes, edges, zoom, viewport, activeLevel, layoutMode, generationSettings, mapUsage]);
+
+  /**
+   * Books a model response to the session, the open map and the node it was made for. Usage stays
+   * out of the undo history: undoing a branch does not refund it.
+   */
+  const recordUsage = useCallback((nodeId: string, usage: UsageRecord) => {
+    setSessionUsage(prev => addUsage(prev, usage));
+    setMapUsage(prev => addUsage(prev, usage));
+    setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, usage: addUsage(n.usage || [], usage) } : n));
+  }, []);
+
+  const mapCost = useMemo(() => estimateCost(mapUsage, usageSettings.prices), [mapUsage, usageSettings]);
+  const sessionCost = useMemo(() => estimateCost(sessionUsage, usageSettings.prices), [sessionUsage, usageSettings]);
+  const spendingCapBlock = spendingCapReason(usageSettings, mapCost, sessionCost);
+  // A new map starts with nothing spent, but the session's spending still counts
+  const newMapCapBlock = spendingCapReason(usageSettings, 0, sessionCost);
+  // Read by branches started from callbacks created before the latest response came in
+  const spendingCapRef = useRef(spendingCapBlock);
+  spendingCapRef.current = spendingCapBlock;
+
+  const applyUsageSettings = (settings: UsageSettings) => {
+    saveUsageSettings(settings);
+    setUsageSettings(settings);
   };
 
-  const animate = useCallback(() => {
-    setNodes(prevNodes => {
-      if (prevNodes.length === 0) return prevNodes;
-      const newNodes = prevNodes.map(n => ({ ...n }));
-      const vels = nodeVelocities.current;
-      newNodes.forEach(node => { if (!vels[node.id]) vels[node.id] = { vx: 0, vy: 0 }; });
-
-      for (let i = 0; i < newNodes.length; i++) {
-        for (let j = i + 1; j < newNodes.length; j++) {
-          const n1 = newNodes[i];
-          const n2 = newNodes[j];
-          if (n1.isHidden || n2.isHidden) continue;
-          const dx = n1.position.x - n2.position.x;
-          const dy = n1.position.y - n2.position.y;
-          const d2 = dx * dx + dy * dy;
-          const distSq = Math.max(d2, MIN_DIST_SQ);
-          const dist = Math.sqrt(distSq);
-          const levelMultiplier = n1.level === n2.level ? 1.4 : 1.0;
-          const force = (REPULSION_STRENGTH * levelMultiplier) / distSq;
-          const fx = (dx / dist) * force;
-          const fy = (dy / dist) * force;
-          vels[n1.id].vx += fx; vels[n1.id].vy += fy;
-          vels[n2.id].vx -= fx; vels[n2.id].vy -= fy;
-        }
-      }
+  // The service reads its copy synchronously, so requests started in the same tick already see the change
+  const applyGenerationSettings = useCallback((settings: GenerationSettings) => {
+    configureGeneration(settings);
+    setGenerationSettings(settings);
+  }, []);
 
-      edges.forEach(edge => {
-        const from = newNodes.find(n => n.id === edge.from);
-        const to = newNodes.find(n => n.id === edge.to);
-        if (!from || !to || from.isHidden || to.isHidden) return;
-        const dx = to.position.x - from.position.x;
-        const dy = to.position.y - from.position.y;
-        const dist = Math.sqrt(dx * dx + dy * dy) || 1;
-        const idealDist = Math.abs(spacingY);
-        const force = (dist - idealDist) * ATTRACTION_STRENGTH;
-        const fx = (dx / dist) * force;
-        const fy = (dy / dist) * force;
-        vels[to.id].vx -= fx; vels[to.id].vy -= fy;
-        vels[from.id].vx += fx; vels[from.id].vy += fy;
-      });
+  // Autosave: coalesce the per-frame physics updates into one write per interval
+  useEffect(() => {
+    if (!isStarted) return;
+    const snapshot = getCurrentMap();
+    if (!snapshot) return;
+    pendingSaveRef.current = snapshot;
+    if (saveTimeoutRef.current === null) {
+      saveTimeoutRef.current = window.setTimeout(flushSave, AUTOSAVE_INTERVAL);
+    }
+  }, [isStarted, getCurrentMap, flushSave]);
 
-      newNodes.forEach(node => {
-        if (node.parentId) {
-          const parent = newNodes.find(p => p.id === node.parentId);
-          if (parent) {
-            const idealY = parent.position.y + spacingY;
-            const dy = idealY - node.position.y;
-            vels[node.id].vy += dy * HIERARCHY_STRENGTH;
-          }
-        }
-        const dxCenter = (CANVAS_SIZE / 2) - node.position.x;
-        const dyCenter = (CANVAS_SIZE / 2) - node.position.y;
-        vels[node.id].vx += dxCenter * GLOBAL_CENTERING_STRENGTH;
-        vels[node.id].vy += dyCenter * GLOBAL_CENTERING_STRENGTH;
-      });
+  useEffect(() => {
+    const handlePageHide = () => { flushSave(); };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [flushSave]);
 
-      return newNodes.map(node => {
-        const isAnchored = node.level === 0 || node.id === selectedNodeId;
-        if (isAnchored) {
-          vels[node.id].vx = 0; vels[node.id].vy = 0;
-          return node;
-        }
-        let { vx, vy } = vels[node.id];
-        const speed = Math.sqrt(vx * vx + vy * vy);
-        if (speed > MAX_VELOCITY) { vx = (vx / speed) * MAX_VELOCITY; vy = (vy / speed) * MAX_VELOCITY; }
-        node.position.x += vx; node.position.y += vy;
-        vels[node.id].vx = vx * DAMPING; vels[node.id].vy = vy * DAMPING;
-        return node;
+  // Positions only move inside the animation loop, so recompute targets when the shape of the tree changes
+  const layoutKey = layoutMode === 'force' ? '' : nodes.map(n =>
+    `${n.id}>${n.parentId}${n.isCollapsed ? 'c' : ''}${n.isPinned ? 'p' : ''}${n.parentId === null ? `@${Math.round(n.position.x)},${Math.round(n.position.y)}` : ''}`
+  ).join('|');
+  const layoutTargets = useMemo(
+    () => computeLayout(layoutMode, graphRef.current.nodes, { levelGap: Math.abs(spacingY), siblingGap: spreadX }),
+    [layoutMode, layoutKey, spacingY, spreadX]
+  );
+
+  // Nodes the simulation leaves where they are, besides the root
+  const pinnedKey = nodes.filter(n => n.isPinned).map(n => n.id).join('|');
+  const physicsAnchors = useMemo(
+    () => new Set([...(selectedNodeId ? [selectedNodeId] : []), ...(pinnedKey ? pinnedKey.split('|') : [])]),
+    [selectedNodeId, pinnedKey]
+  );
+
+  useEffect(() => {
+    physicsRef.current.configure({ spacingY });
+  }, [spacingY]);
+
+  const animate = useCallback(() => {
+    if (layoutMode === 'force') {
+      // The engine keeps velocities and its spatial index to itself and sleeps once the map settles,
+      // so a still map costs nothing and a moving one only copies the nodes that moved
+      const physics = physicsRef.current;
+      physics.sync(graphRef.current.nodes, graphRef.current.edges, physicsAnchors);
+      if (physics.step()) setNodes(prev => physics.writePositions(prev));
+    } else {
+      setNodes(prevNodes => {
+        // Ease towards the computed layout, which animates both mode switches and relayouts
+        const draggedId = dragMoveRef.current?.id;
+        let moved = false;
+        const next = prevNodes.map(node => {
+          const target = layoutTargets[node.id];
+          if (!target || node.isPinned || node.id === draggedId) return node;
+          const dx = target.x - node.position.x;
+          const dy = target.y - node.position.y;
+          if (dx === 0 && dy === 0) return node;
+          moved = true;
+          const settled = Math.abs(dx) < 0.5 && Math.abs(dy) < 0.5;
+          return { ...node, position: settled ? { ...target } : { x: node.position.x + dx * LAYOUT_EASING, y: node.position.y + dy * LAYOUT_EASING } };
+        });
+        return moved ? next : prevNodes;
       });
-    });
+    }
     requestRef.current = requestAnimationFrame(animate);
-  }, [edges, selectedNodeId, spacingY]);
+  }, [layoutMode, layoutTargets, physicsAnchors]);
 
   useEffect(() => {
     if (isStarted) requestRef.current = requestAnimationFrame(animate);
     return () => { if (requestRef.current) cancelAnimationFrame(requestRef.current); };
   }, [isStarted, animate]);
 
-  const isNodeEffectivelyVisible = useCallback((node: ThoughtNode, currentNodes: ThoughtNode[]) => {
-    const isNodeCollapsedByAncestor = (n: ThoughtNode) => {
-      let currentParentId = n.parentId;
-      while (currentParentId) {
-        const parent = currentNodes.find(p => p.id === currentParentId);
-        if (parent?.isCollapsed) return true;
-        currentParentId = parent?.parentId || null;
+  const nodesById = useMemo(() => new Map(nodes.map(n => [n.id, n])), [nodes]);
+
+  // Nodes not folded away under a collapsed ancestor, and not hidden outside edit mode
+  const visibleIds = useMemo(() => {
+    const folded = new Map<string, boolean>();
+    const isFolded = (id: string | null): boolean => {
+      if (!id) return false;
+      if (!folded.has(id)) {
+        const node = nodesById.get(id);
+        folded.set(id, !!node && (!!node.isCollapsed || isFolded(node.parentId)));
       }
-      return false;
+      return folded.get(id)!;
     };
-    if (isNodeCollapsedByAncestor(node)) return false;
-    if (!isEditMode && node.isHidden) return false;
-    return true;
-  }, [isEditMode]);
+    return new Set(nodes.filter(n => !isFolded(n.parentId) && (isEditMode || !n.isHidden)).map(n => n.id));
+  }, [nodes, nodesById, isEditMode]);
 
   const updateZoom = useCallback((newZoom: number, mouseX?: number, mouseY?: number) => {
     if (!containerRef.current) return;
@@ -256,7 +413,7 @@ const App: React.FC = () => {
   }, [isMobile]);
 
   const jumpToLevel = useCallback((level: number) => {
-    const levelNodes = nodes.filter(n => n.level === level && isNodeEffectivelyVisible(n, nodes));
+    const levelNodes = nodes.filter(n => n.level === level && visibleIds.has(n.id));
     if (levelNodes.length > 0) {
       const avgX = levelNodes.reduce((acc, n) => acc + n.position.x, 0) / levelNodes.length;
       const avgY = levelNodes.reduce((acc, n) => acc + n.position.y, 0) / levelNodes.length;
@@ -264,14 +421,70 @@ const App: React.FC = () => {
       centerOn(avgX, avgY);
     }
     setIsLevelSelectorExpanded(false);
-  }, [nodes, isNodeEffectivelyVisible, centerOn]);
+  }, [nodes, visibleIds, centerOn]);
+
+  /**
+   * Streams children for a node, materialising each one (with its edge and physics entry)
+   * as soon as its TOPIC/DESC pair is complete. Never throws: failures are reported back.
+   * In the background (auto-explore) the view stays where it is. `skipCache` asks the model afresh.
+   */
+  const streamBranch = useCallback(async (parentId: string, label: string, position: { x: number; y: number }, level: number, currentPath: string[], excludeTopics: string[], useDeepReasoning: boolean, mode: BranchMode = 'related', isBackground: boolean = false, skipCache: boolean = false) => {
+    const controller = new AbortController();
+    branchControllers.current[parentId] = controller;
+    const nextLevel = level + 1;
+    const childIds: string[] = [];
+    const children: { [key: string]: ThoughtNode } = {};
+    const childEdges: Edge[] = [];
+
+    const addChild = (item: BranchingResponse, index: number) => {
+      const id = createNodeId();
+      const offset = (index - (branchCount - 1) / 2) * spreadX;
+      childIds.push(id);
+      const child: ThoughtNode = {
+        id, label: item.topic, description: item.description, parentId, level: nextLevel, position: { x: position.x + offset, y: position.y + spacingY }, isExpanded: false, isLoading: false, isNew: true, path: [...currentPath, item.topic],
+        branchMode: mode === 'related' ? undefined : mode, branchFacet: item.facet
+      };
+      const edge: Edge = { id: edgeIdFor(parentId, id), from: parentId, to: id, branchMode: mode === 'related' ? undefined : mode };
+      children[id] = child;
+      childEdges.push(edge);
+      setNodes(prev => [...prev.map(n => n.id === parentId ? { ...n, isExpanded: true } : n), child]);
+      setEdges(prevEdges => [...prevEdges, edge]);
+      if (index === 0 && !isBackground) {
+        setActiveLevel(nextLevel);
+        setTimeout(() => centerOn(position.x, position.y + spacingY), 150);
+      }
+    };
+
+    const attachGrounding = (index: number, grounding: { sources?: GroundingSource[]; citations?: Citation[] }) => {
+      const id = childIds[index];
+      if (!id) return;
+      children[id] = { ...children[id], ...grounding };
+      setNodes(prev => prev.map(n => n.id === id ? { ...n, ...grounding } : n));
+    };
+
+    let error: Error | null = null;
+    try {
+      await streamRelatedTopics(label, branchCount, currentPath, excludeTopics, useDeepReasoning, { signal: controller.signal, onTopic: addChild, onGrounding: attachGrounding, onUsage: usage => recordUsage(parentId, usage), skipCache }, mode);
+    } catch (err) {
+      error = err instanceof Error ? err : new Error(String(err));
+    } finally {
+      delete branchControllers.current[parentId];
+      setTimeout(() => setNodes(pNodes => pNodes.map(n => childIds.includes(n.id) ? { ...n, isNew: false } : n)), 4000);
+    }
+    return { added: childIds.length, children: childIds.map(id => children[id]), childEdges, error, cancelled: controller.signal.aborted };
+  }, [branchCount, spacingY, spreadX, centerOn, recordUsage]);
 
   const startJourney = async (input: string) => {
-    await checkApiKey();
+    if (newMapCapBlock) return;
+    await ensureProviderReady();
     const startX = CANVAS_SIZE / 2;
     const startY = CANVAS_SIZE / 2;
     const rootId = 'root-' + Date.now();
-    nodeVelocities.current = {};
+    physicsRef.current.reset();
+    setHistory(EMPTY_HISTORY);
+    setLayoutMode('force');
+    setMapMeta({ id: createMapId(), title: input, createdAt: Date.now() });
+    setMapUsage([]);
 
     const rootNode: ThoughtNode = {
       id: rootId, label: input, description: "Searching...", parentId: null, level: 0, position: { x: startX, y: startY }, isExpanded: false, isLoading: true, path: [input]
@@ -283,70 +496,569 @@ const App: React.FC = () => {
     setInitialInput("");
     setTimeout(() => centerOn(startX, startY, 'auto'), 0);
     
+    setEdges([]);
+    const infoTask = getTopicInfo(input, usage => recordUsage(rootId, usage)).then(info => {
+      setNodes(prev => prev.map(n => n.id === rootId ? { ...n, description: info.description, sources: info.sources, citations: info.citations } : n));
+    });
+    const [infoError, branch] = await Promise.all([
+      infoTask.then(() => null, (err: Error) => err),
+      streamBranch(rootId, input, { x: startX, y: startY }, 0, [input], [input], false)
+    ]);
+    const error = branch.cancelled ? null : infoError || (branch.added === 0 ? branch.error : null);
+    setNodes(prev => prev.map(n => n.id === rootId ? {
+      ...n, isLoading: false, isExpanded: branch.added > 0, ...(error ? { description: error.message || "Connection failed. Please select an API Key." } : {})
+    } : n));
+  };
+
+  const openMap = async (id: string) => {
+    const map = await loadMap(id);
+    if (!map) {
+      refreshLibrary();
+      return;
+    }
+    const settings = map.settings || loadGenerationDefaults();
+    editStampRef.current = stampEdit({ ...map, settings }, null, map.updatedAt).stamp;
+    physicsRef.current.reset();
+    setHistory(EMPTY_HISTORY);
+    setMapMeta({ id: map.id, title: map.title, createdAt: map.createdAt });
+    setNodes(map.nodes);
+    setEdges(map.edges);
+    setMapUsage(map.usage || []);
+    setZoom(map.view.zoom);
+    setActiveLevel(map.view.activeLevel);
+    setLayoutMode(map.view.layout || 'force');
+    applyGenerationSettings(settings);
+    setSelectedNodeId(null);
+    setIsStarted(true);
+    const root = map.nodes.find(n => n.parentId === null);
+    // Maps built from outlines or legacy files carry no scroll position, so start them on the root
+    if (map.view.scrollX === 0 && map.view.scrollY === 0 && root) {
+      setTimeout(() => centerOn(root.position.x, root.position.y, 'auto'), 0);
+    } else {
+      setTimeout(() => containerRef.current?.scrollTo({ left: map.view.scrollX, top: map.view.scrollY, behavior: 'auto' }), 0);
+    }
+  };
+
+  const importMapFile = async (file: File) => {
+    setImportError(null);
     try {
-      const exclude = [input];
-      const [topicInfo, relatedTopics] = await Promise.all([
-        getTopicInfo(input), 
-        getRelatedTopics(input, branchCount, [input], exclude)
-      ]);
-      
-      const nextLevel = 1;
-      const children: ThoughtNode[] = relatedTopics.topics.map((item, index) => {
-        const offset = (index - (branchCount-1)/2) * spreadX;
-        return {
-          id: `node-initial-${Date.now()}-${index}`, label: item.topic, description: item.description, parentId: rootId, level: nextLevel, position: { x: startX + offset, y: startY + spacingY }, isExpanded: false, isLoading: false, isNew: true, sources: relatedTopics.sources, path: [input, item.topic]
-        };
-      });
-      
-      const newEdges: Edge[] = children.map(node => ({ id: `edge-${rootId}-${node.id}`, from: rootId, to: node.id }));
-      setNodes([{ ...rootNode, description: topicInfo.description, sources: topicInfo.sources, isLoading: false, isExpanded: true }, ...children]);
-      setEdges(newEdges);
-      setActiveLevel(nextLevel);
-      setTimeout(() => centerOn(startX, startY + spacingY), 100);
-      setTimeout(() => setNodes(prev => prev.map(n => n.parentId === rootId ? { ...n, isNew: false } : n)), 4000);
-    } catch (err: any) {
-      setNodes(prev => prev.map(n => n.id === rootId ? { ...n, isLoading: false, description: err.message || "Connection failed. Please select an API Key." } : n));
-    }
-  };
-
-  const expandNode = useCallback(async (parentId: string, label: string, position: { x: number; y: number }, level: number, currentPath: string[], useDeepReasoning: boolean = false) => {
-    await checkApiKey();
-    const nodeToExpand = nodes.find(n => n.id === parentId);
-    if (!nodeToExpand || nodeToExpand.isLoading) return;
+      const text = await file.text();
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      if (/\.(opml|xml|md|markdown|txt)$/i.test(file.name)) {
+        const map = /\.(opml|xml)$/i.test(file.name) ? parseOpml(text, baseName) : parseMarkdownOutline(text, baseName);
+        await saveMap(map);
+        await openMap(map.id);
+        return;
+      }
+      const result = parseMapFile(text);
+      await saveMap(result.map);
+      await openMap(result.map.id);
+      if (result.rejected.length > 0 || result.warnings.length > 0) {
+        setImportReport({ title: result.map.title, importedCount: result.map.nodes.length, rejected: result.rejected, warnings: result.warnings });
+      }
+    } catch (err) {
+      setImportError((err instanceof Error ? err.message : String(err)) || "Import failed.");
+    }
+  };
+
+  const exportImage = async (format: 'svg' | 'png', scope: ImageExportScope, scale: number) => {
+    const title = mapMeta?.title || 'thought-map';
+    const currentZoom = zoomRef.current;
+    const { svg, width, height } = renderMapSvg(nodes, edges, {
+      scope,
+      theme,
+      viewport: { x: viewport.x / currentZoom, y: viewport.y / currentZoom, width: viewport.width / currentZoom, height: viewport.height / currentZoom },
+      subtreeRootId: selectedNodeId
+    });
+    if (format === 'svg') {
+      downloadFile(toFileName(title, 'svg'), svg, 'image/svg+xml');
+    } else {
+      downloadFile(toFileName(title, 'png'), await svgToPng(svg, width, height, scale), 'image/png');
+    }
+  };
+
+  const closeMap = async () => {
+    autoExploreJob.current?.cancel();
+    autoExploreJob.current = null;
+    setAutoExplore(null);
+    Object.keys(branchControllers.current).forEach(cancelBranch);
+    closeDeepDive();
+    await flushSave();
+    setIsStarted(false);
+    setIsOptionsMenuOpen(false);
+    setSelectedNodeId(null);
+    setMapMeta(null);
+    setNodes([]);
+    setEdges([]);
+    setMapUsage([]);
+    setHistory(EMPTY_HISTORY);
+    setLinkSourceId(null);
+    setMeaningPairs([]);
+    setDismissedPairs([]);
+    applyGenerationSettings(loadGenerationDefaults());
+    physicsRef.current.reset();
+  };
+
+  /**
+   * Branches a node. Interactive branches fold the node's expanded siblings, clear the selection
+   * and record their own undo step; background ones (auto-explore) leave all three to the caller.
+   * Resolves with the outcome, or null when the node cannot be branched.
+   */
+  const expandNode = useCallback(async (parentId: string, label: string, position: { x: number; y: number }, level: number, currentPath: string[], useDeepReasoning: boolean = false, mode: BranchMode = 'related', isBackground: boolean = false) => {
+    await ensureProviderReady();
+    // Read the latest graph: auto-explore calls this long after the render it was created in
+    const currentNodes = graphRef.current.nodes;
+    const nodeToExpand = currentNodes.find(n => n.id === parentId);
+    if (!nodeToExpand || nodeToExpand.isLoading || nodeToExpand.synthesis) return null;
+    if (!isWithinDepthLimit(generationSettings, nodeToExpand.level)) {
+      setAnnouncement(`${label} is at this map's depth limit of ${generationSettings.maxDepth}`);
+      return null;
+    }
+    if (spendingCapRef.current) {
+      setAnnouncement(`Could not branch ${label}: ${spendingCapRef.current}`);
+      return null;
+    }
+    const collapsedSiblings = isBackground ? [] : currentNodes.filter(n => n.parentId === nodeToExpand.parentId && n.id !== nodeToExpand.id && n.level === nodeToExpand.level && n.isExpanded && !n.isCollapsed);
     
     setNodes(prev => prev.map(n => {
-      if (n.parentId === nodeToExpand.parentId && n.id !== nodeToExpand.id && n.level === nodeToExpand.level) {
-        return n.isExpanded ? { ...n, isCollapsed: true } : n;
-      }
+      if (collapsedSiblings.some(c => c.id === n.id)) return { ...n, isCollapsed: true };
       if (n.id === nodeToExpand.id) return { ...n, isLoading: true, isCollapsed: false, isHidden: false };
       return n;
     }));
-    setSelectedNodeId(null);
+    if (!isBackground) setSelectedNodeId(null);
     
+    const allExistingTopics = currentNodes.map(n => n.label);
+    // A cached answer would only repeat the children the node already has
+    const isRebranch = currentNodes.some(n => n.parentId === parentId);
+    const result = await streamBranch(parentId, label, position, level, currentPath, allExistingTopics, useDeepReasoning, mode, isBackground, isRebranch);
+    const { added, children, childEdges, error, cancelled } = result;
+    setNodes(prev => prev.map(n => {
+      if (n.id !== parentId) return n;
+      if (error && !cancelled && added === 0) return { ...n, isLoading: false, description: `Error: ${error.message || 'Check API Key'}` };
+      return { ...n, isLoading: false, isExpanded: n.isExpanded || added > 0 };
+    }));
+    if (isBackground) return result;
+    if (added > 0) {
+      setAnnouncement(`${added} new ${added === 1 ? 'idea' : 'ideas'} under ${label}: ${children.map(c => c.label).join(', ')}`);
+    } else if (cancelled) {
+      setAnnouncement(`Stopped branching ${label}`);
+    } else if (error) {
+      setAnnouncement(`Could not branch ${label}: ${error.message || 'Check API Key'}`);
+    }
+    // The children arrived one by one; record the whole branch as a single step
+    if (added > 0 || collapsedSiblings.length > 0) {
+      setHistory(h => pushCommand(h, createCommand('Branch', {
+        addNodes: children,
+        addEdges: childEdges,
+        patchNodes: [
+          ...collapsedSiblings.map(n => ({ id: n.id, before: { isCollapsed: n.isCollapsed }, after: { isCollapsed: true } })),
+          { id: parentId, before: { isExpanded: nodeToExpand.isExpanded, isCollapsed: nodeToExpand.isCollapsed, isHidden: nodeToExpand.isHidden }, after: { isExpanded: nodeToExpand.isExpanded || added > 0, isCollapsed: false, isHidden: false } }
+        ]
+      })));
+    }
+    return result;
+  }, [streamBranch, generationSettings]);
+
+  const cancelBranch = useCallback((id: string) => {
+    branchControllers.current[id]?.abort();
+  }, []);
+
+  /**
+   * Applies a command's effects without touching the history stacks
+   */
+  const runCommand = useCallback((command: GraphCommand) => {
+    command.removeNodes.forEach(n => cancelBranch(n.id));
+    setNodes(prev => applyToNodes(prev, command));
+    setEdges(prev => applyToEdges(prev, command));
+    setSelectedNodeId(prev => prev && command.removeNodes.some(n => n.id === prev) ? null : prev);
+  }, [cancelBranch]);
+
+  const executeCommand = useCallback((command: GraphCommand) => {
+    runCommand(command);
+    setHistory(h => pushCommand(h, command));
+  }, [runCommand]);
+
+  const undo = useCallback(() => {
+    const command = history.undo[history.undo.length - 1];
+    if (!command) return;
+    runCommand(invertCommand(command));
+    setHistory({ undo: history.undo.slice(0, -1), redo: [...history.redo, command] });
+  }, [history, runCommand]);
+
+  const redo = useCallback(() => {
+    const command = history.redo[history.redo.length - 1];
+    if (!command) return;
+    runCommand(command);
+    setHistory({ undo: [...history.undo, command], redo: history.redo.slice(0, -1) });
+  }, [history, runCommand]);
+
+  useEffect(() => {
+    if (!isStarted) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if ((e.target as HTMLElement).closest?.('input, textarea, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isStarted, undo, redo]);
+
+  const pruneNode = (id: string) => executeCommand(createPruneCommand(nodes, edges, id));
+
+  const toggleCollapse = (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    if (node) executeCommand(createCommand(node.isCollapsed ? 'Unfold' : 'Fold', { patchNodes: [{ id, before: { isCollapsed: node.isCollapsed }, after: { isCollapsed: !node.isCollapsed } }] }));
+  };
+
+  const toggleHide = (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    if (node) executeCommand(createCommand(node.isHidden ? 'Show' : 'Hide', { patchNodes: [{ id, before: { isHidden: node.isHidden }, after: { isHidden: !node.isHidden } }] }));
+  };
+
+  const togglePin = (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    if (node) executeCommand(createCommand(node.isPinned ? 'Unpin' : 'Pin', { patchNodes: [{ id, before: { isPinned: node.isPinned }, after: { isPinned: !node.isPinned } }] }));
+  };
+
+  const annotateNode = (id: string, changes: NodeAnnotations) => {
+    const command = createAnnotateCommand(nodes, id, changes);
+    if (command) executeCommand(command);
+  };
+
+  const dragNode = (id: string, x: number, y: number) => {
+    const current = graphRef.current.nodes;
+    if (dragMoveRef.current?.id !== id) {
+      const node = current.find(n => n.id === id);
+      if (!node) return;
+      dragMoveRef.current = { id, from: { ...node.position }, to: { x, y }, targetId: null };
+    }
+    // Dropping a node onto another one re-parents it
+    let targetId: string | null = null;
+    let bestDistSq = DROP_RADIUS * DROP_RADIUS;
+    current.forEach(n => {
+      if (n.id === id || n.isHidden) return;
+      const distSq = (n.position.x - x) ** 2 + (n.position.y - y) ** 2;
+      if (distSq < bestDistSq && canReparent(current, id, n.id)) {
+        bestDistSq = distSq;
+        targetId = n.id;
+      }
+    });
+    dragMoveRef.current.to = { x, y };
+    dragMoveRef.current.targetId = targetId;
+    setDropTargetId(targetId);
+    const position = { x, y };
+    physicsRef.current.moveBody(id, position);
+    setNodes(prev => prev.map(n => n.id === id ? { ...n, position } : n));
+  };
+
+  // The drag itself is already on screen; only record it so it can be undone as one move
+  const endDrag = () => {
+    const move = dragMoveRef.current;
+    dragMoveRef.current = null;
+    setDropTargetId(null);
+    if (!move) return;
+    if (move.targetId) {
+      const command = createReparentCommand(graphRef.current.nodes, graphRef.current.edges, move.id, move.targetId, move);
+      if (command) {
+        executeCommand(command);
+        return;
+      }
+    }
+    if (move.from.x === move.to.x && move.from.y === move.to.y) return;
+    const node = graphRef.current.nodes.find(n => n.id === move.id);
+    // A computed layout would pull the node straight back, so moving it by hand pins it
+    if (layoutMode !== 'force' && node && !node.isPinned) {
+      executeCommand(createCommand('Move', { patchNodes: [{ id: move.id, before: { position: move.from, isPinned: node.isPinned }, after: { position: move.to, isPinned: true } }] }));
+      return;
+    }
+    setHistory(h => pushCommand(h, createCommand('Move', { patchNodes: [{ id: move.id, before: { position: move.from }, after: { position: move.to } }] })));
+  };
+
+  const addNode = (parentId: string, label: string, description: string) => {
+    const parent = nodes.find(n => n.id === parentId);
+    if (!parent) return;
+    const siblings = nodes.filter(n => n.parentId === parentId);
+    const x = siblings.length > 0 ? Math.max(...siblings.map(n => n.position.x)) + spreadX : parent.position.x;
+    const { command, node } = createAddNodeCommand(parent, { label, description }, { x, y: parent.position.y + spacingY });
+    executeCommand(command);
+    setActiveLevel(node.level);
+  };
+
+  const completeLink = (targetId: string) => {
+    const sourceId = linkSourceId;
+    setLinkSourceId(null);
+    if (!sourceId || sourceId === targetId || areConnected(edges, sourceId, targetId)) return;
+    setLinkEditor({ from: sourceId, to: targetId });
+  };
+
+  const saveLink = (label: string) => {
+    if (!linkEditor) return;
+    const existing = linkEditor.edgeId ? edges.find(e => e.id === linkEditor.edgeId) : undefined;
+    if (existing) {
+      executeCommand(createUpdateLinkCommand(existing, { label: label || undefined, isSuggested: undefined }, existing.isSuggested ? 'Accept Link' : 'Edit Link'));
+    } else {
+      executeCommand(createLinkCommand(edges, [{ from: linkEditor.from, to: linkEditor.to, label }]));
+    }
+  };
+
+  const deleteLink = () => {
+    const existing = linkEditor?.edgeId ? edges.find(e => e.id === linkEditor.edgeId) : undefined;
+    if (existing) executeCommand(createCommand(existing.isSuggested ? 'Dismiss Link' : 'Remove Link', { removeEdges: [existing] }));
+  };
+
+  const showConnectionStatus = (nodeId: string, text: string) => {
+    setConnectionStatus({ nodeId, text });
+    setTimeout(() => setConnectionStatus(prev => prev?.nodeId === nodeId && prev.text === text ? null : prev), 3000);
+  };
+
+  const suggestConnections = async (nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    await ensureProviderReady();
+    const candidates = nodes.filter(n => n.id !== nodeId && !areConnected(edges, nodeId, n.id));
+    setConnectionStatus({ nodeId, text: 'Searching...' });
     try {
-      const allExistingTopics = nodes.map(n => n.label);
-      const { topics, sources } = await getRelatedTopics(label, branchCount, currentPath, allExistingTopics, useDeepReasoning);
-      const nextLevel = level + 1;
-      
-      setNodes(prev => {
-        const newNodes: ThoughtNode[] = topics.map((item, index) => {
-          const offset = (index - (topics.length-1)/2) * spreadX;
-          return {
-            id: `node-${Date.now()}-${index}`, label: item.topic, description: item.description, parentId, level: nextLevel, position: { x: position.x + offset, y: position.y + spacingY }, isExpanded: false, isLoading: false, isNew: true, sources: sources, path: [...currentPath, item.topic]
-          };
-        });
-        const newEdges: Edge[] = newNodes.map(node => ({ id: `edge-${parentId}-${node.id}`, from: parentId, to: node.id }));
-        setEdges(prevEdges => [...prevEdges, ...newEdges]);
-        const updatedPrev = prev.map(n => n.id === parentId ? { ...n, isExpanded: true, isLoading: false } : n);
-        setActiveLevel(nextLevel);
-        setTimeout(() => centerOn(position.x, position.y + spacingY), 150);
-        setTimeout(() => setNodes(pNodes => pNodes.map(n => n.parentId === parentId ? { ...n, isNew: false } : n)), 4000);
-        return [...updatedPrev, ...newNodes];
+      const links = await findConnections(node.label, node.path, candidates.map(c => c.label), undefined, usage => recordUsage(nodeId, usage));
+      const command = createLinkCommand(graphRef.current.edges, links.map(l => ({ from: nodeId, to: candidates[l.index].id, label: l.label, isSuggested: true })), 'Find Connections');
+      executeCommand(command);
+      showConnectionStatus(nodeId, command.addEdges.length > 0 ? `${command.addEdges.length} suggested` : 'None found');
+    } catch (err) {
+      console.error("Failed to find connections:", err);
+      showConnectionStatus(nodeId, 'Failed');
+    }
+  };
+
+  /**
+   * Asks for the themes, contradictions and open questions of a node's branch (or of the path
+   * down to it) and attaches them as a summary node linked to the nodes they drew on
+   */
+  const synthesizeNode = async (nodeId: string, scope: 'branch' | 'path') => {
+    const anchor = nodes.find(n => n.id === nodeId);
+    if (!anchor || anchor.synthesis) return;
+    await ensureProviderReady();
+    let drawn: ThoughtNode[];
+    if (scope === 'branch') {
+      const subtree = collectSubtree(nodes, nodeId);
+      drawn = nodes.filter(n => subtree.has(n.id) && !n.synthesis && !n.isLoading);
+    } else {
+      drawn = [];
+      for (let n: ThoughtNode | undefined = anchor; n; n = n.parentId ? nodesById.get(n.parentId) : undefined) drawn.unshift(n);
+    }
+    drawn = drawn.slice(0, MAX_SYNTHESIS_ITEMS);
+
+    const showStatus = (text: string) => {
+      setSynthesisStatus({ nodeId, text });
+      setTimeout(() => setSynthesisStatus(prev => prev?.nodeId === nodeId && prev.text === text ? null : prev), 3000);
+    };
+    setSynthesisStatus({ nodeId, text: 'Synthesising...' });
+    try {
+      const answer = await synthesizeNodes(anchor.label, scope, drawn.map(n => n.description ? `${n.label}: ${n.description}` : n.label), undefined, usage => recordUsage(nodeId, usage));
+      const toPoints = (points: typeof answer.themes) => points.map(p => ({ text: p.text, nodeIds: p.refs.map(ref => drawn[ref].id) }));
+      const synthesis: Synthesis = {
+        scope,
+        themes: toPoints(answer.themes),
+        contradictions: toPoints(answer.contradictions),
+        openQuestions: toPoints(answer.openQuestions),
+        nextBranch: answer.nextBranch,
+        sourceNodeIds: drawn.map(n => n.id),
+        generatedAt: Date.now()
+      };
+      const { nodes: current, edges: currentEdges } = graphRef.current;
+      const parent = current.find(n => n.id === nodeId);
+      if (!parent) return;
+      const siblings = current.filter(n => n.parentId === nodeId);
+      const x = siblings.length > 0 ? Math.max(...siblings.map(n => n.position.x)) + spreadX : parent.position.x;
+      const { command, node } = createSynthesisCommand(parent, currentEdges, synthesis, answer.summary || synthesis.themes[0].text, { x, y: parent.position.y + spacingY });
+      executeCommand(command);
+      setSynthesisStatus(null);
+      setAnnouncement(`Added ${node.label}`);
+      jumpToNode(node);
+    } catch (err) {
+      console.error("Failed to synthesise:", err);
+      showStatus('Failed');
+    }
+  };
+
+  // The node itself, or its nearest ancestor on the canvas when it sits in a folded or hidden branch
+  const nearestVisible = (id: string) => {
+    let target = nodesById.get(id);
+    while (target && !visibleIds.has(target.id)) target = target.parentId ? nodesById.get(target.parentId) : undefined;
+    return target;
+  };
+
+  const openDeepDive = (nodeId: string) => {
+    if (deepDiveView?.nodeId !== nodeId) closeDeepDive();
+    setDeepDiveView(prev => prev?.nodeId === nodeId ? prev : { nodeId, draft: null, error: null });
+  };
+
+  const closeDeepDive = () => {
+    deepDiveController.current?.abort();
+    deepDiveController.current = null;
+    setDeepDiveView(null);
+  };
+
+  /**
+   * Streams a deep dive into the reader and caches the result on the node as an undoable step
+   */
+  const generateDeepDive = async (nodeId: string, includeSubtree: boolean) => {
+    const node = graphRef.current.nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    deepDiveController.current?.abort();
+    const controller = new AbortController();
+    deepDiveController.current = controller;
+    // Indented "- Label: insight" lines in tree order, for a write-up that covers the whole branch
+    const outline: string[] = [];
+    const walk = (parentId: string, depth: number) => graphRef.current.nodes.filter(n => n.parentId === parentId && !n.isLoading).forEach(child => {
+      outline.push(`${'  '.repeat(depth)}- ${child.label}${child.description ? `: ${child.description}` : ''}`);
+      walk(child.id, depth + 1);
+    });
+    if (includeSubtree) walk(nodeId, 0);
+
+    setDeepDiveView({ nodeId, draft: '', error: null });
+    try {
+      await ensureProviderReady();
+      const deepDive = await streamDeepDive(node.label, node.path, outline, {
+        signal: controller.signal,
+        onText: text => setDeepDiveView(prev => prev?.nodeId === nodeId ? { ...prev, draft: text } : prev),
+        onUsage: usage => recordUsage(nodeId, usage)
       });
-    } catch (err: any) {
-      setNodes(prev => prev.map(n => n.id === parentId ? { ...n, isLoading: false, description: `Error: ${err.message || 'Check API Key'}` } : n));
+      const current = graphRef.current.nodes.find(n => n.id === nodeId);
+      if (current) executeCommand(createCommand('Deep Dive', { patchNodes: [{ id: nodeId, before: { deepDive: current.deepDive }, after: { deepDive } }] }));
+      setDeepDiveView(prev => prev?.nodeId === nodeId ? { ...prev, draft: null } : prev);
+      setAnnouncement(`Deep dive on ${node.label} ready`);
+    } catch (err) {
+      const error = controller.signal.aborted ? null : (err instanceof Error ? err.message : String(err)) || 'Deep dive failed.';
+      setDeepDiveView(prev => prev?.nodeId === nodeId ? { ...prev, draft: null, error } : prev);
+    } finally {
+      if (deepDiveController.current === controller) deepDiveController.current = null;
+    }
+  };
+
+  const exportDeepDive = (nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (node?.deepDive) downloadFile(toFileName(`${node.label} deep dive`, 'md'), toDeepDiveMarkdown(node), 'text/markdown');
+  };
+
+  const openAutoExplore = (nodeId: string) => {
+    // A running job keeps its panel until it finishes
+    if (autoExploreJob.current) return;
+    setAutoExplore({ nodeId, options: null, progress: null });
+  };
+
+  /**
+   * Branches breadth-first from a node in the background and records everything it added as
+   * one undoable step once the job ends
+   */
+  const startAutoExplore = async (nodeId: string, setup: AutoExploreSetup) => {
+    const start = graphRef.current.nodes.find(n => n.id === nodeId);
+    if (!start || autoExploreJob.current) return;
+    await ensureProviderReady();
+    const { branchCount, maxDepth } = generationSettings;
+    const options: AutoExploreOptions = { ...setup, childrenPerBranch: branchCount, maxDepth: maxDepth > 0 ? Math.min(setup.maxDepth, maxDepth - start.level) : setup.maxDepth };
+    if (options.maxDepth <= 0) {
+      setAnnouncement(`${start.label} is at this map's depth limit of ${maxDepth}`);
+      setAutoExplore(null);
+      return;
+    }
+
+    const added: { nodes: ThoughtNode[]; edges: Edge[]; parents: ThoughtNode[] } = { nodes: [], edges: [], parents: [] };
+    const pending = new Set<Promise<unknown>>();
+    const job = createAutoExploreJob(nodeId, options, {
+      expand: async (id) => {
+        const node = graphRef.current.nodes.find(n => n.id === id);
+        if (!node) return [];
+        const task = expandNode(id, node.label, node.position, node.level, node.path, false, 'related', true);
+        pending.add(task);
+        const result = await task.finally(() => pending.delete(task));
+        if (!result) return [];
+        if (result.added > 0) {
+          added.parents.push(node);
+          added.nodes.push(...result.children);
+          added.edges.push(...result.childEdges);
+        }
+        if (result.error && !result.cancelled && result.added === 0) throw result.error;
+        return result.children;
+      },
+      existingChildren: (id) => graphRef.current.nodes.filter(n => n.parentId === id && !n.synthesis),
+      cancel: cancelBranch,
+      judge: setup.relevanceFilter ? (parentId, children) => {
+        const parent = graphRef.current.nodes.find(n => n.id === parentId);
+        return judgeRelevance(start.label, parent?.path || start.path, children.map(c => c.description ? `${c.label}: ${c.description}` : c.label), undefined, usage => recordUsage(parentId, usage));
+      } : undefined,
+      outsideLimit: () => spendingCapRef.current,
+      onProgress: (progress) => setAutoExplore(prev => prev?.nodeId === nodeId ? { ...prev, progress } : prev)
+    });
+    autoExploreJob.current = job;
+    setAutoExplore({ nodeId, options, progress: job.getProgress() });
+
+    const final = await job.done;
+    // Cancelled branches resolve after the job does; wait so their partial children are recorded too
+    await Promise.allSettled([...pending]);
+    // Closing the map drops the job and the history it would have written to
+    if (autoExploreJob.current !== job) return;
+    autoExploreJob.current = null;
+    if (added.nodes.length > 0) {
+      setHistory(h => pushCommand(h, createCommand('Auto-Explore', {
+        addNodes: added.nodes,
+        addEdges: added.edges,
+        patchNodes: added.parents.map(n => ({ id: n.id, before: { isExpanded: n.isExpanded, isCollapsed: n.isCollapsed }, after: { isExpanded: true, isCollapsed: false } }))
+      })));
+    }
+    setAnnouncement(`Auto-explore ${final.state === 'cancelled' ? 'cancelled' : 'finished'}: ${added.nodes.length} new ${added.nodes.length === 1 ? 'idea' : 'ideas'} under ${start.label}`);
+  };
+
+  const closeAutoExplore = () => {
+    if (autoExploreJob.current) return;
+    setAutoExplore(null);
+  };
+
+  // Physics rewrites `nodes` every frame, so only re-run the O(n²) comparison when labels change
+  const labelKey = nodes.map(n => `${n.id}\u0000${n.label}`).join('\u0001');
+  const duplicatePairs = useMemo(() => {
+    const labelPairs = findLabelDuplicates(nodes);
+    return [...labelPairs, ...meaningPairs.filter(p => !labelPairs.some(l => isSamePair(l, p.keepId, p.dropId)))]
+      .filter(p => !dismissedPairs.some(d => isSamePair(d, p.keepId, p.dropId)));
+  }, [labelKey, meaningPairs, dismissedPairs]);
+
+  const checkMeaning = async () => {
+    setIsCheckingMeaning(true);
+    setMeaningError(null);
+    try {
+      await ensureProviderReady();
+      const current = nodes.filter(n => !n.isLoading);
+      const vectors = await embedTexts(current.map(n => `${n.label}: ${n.description}`));
+      setMeaningPairs(findEmbeddingDuplicates(current, vectors, findLabelDuplicates(current)));
+    } catch (err) {
+      setMeaningError((err instanceof Error ? err.message : String(err)) || "Embedding failed.");
+    } finally {
+      setIsCheckingMeaning(false);
+    }
+  };
+
+  const mergeNodes = (keepId: string, dropId: string) => {
+    const command = createMergeCommand(nodes, edges, keepId, dropId);
+    if (command) executeCommand(command);
+  };
+
+  const saveNodeEditor = (label: string, description: string) => {
+    if (!nodeEditor) return;
+    const node = nodes.find(n => n.id === nodeEditor.nodeId);
+    if (!node) return;
+    if (nodeEditor.mode === 'edit') {
+      const command = createEditNodeCommand(nodes, node.id, { label, description });
+      if (command) executeCommand(command);
+    } else {
+      const parentId = nodeEditor.mode === 'child' ? node.id : node.parentId;
+      if (parentId) addNode(parentId, label, description);
     }
-  }, [branchCount, spacingY, spreadX, centerOn, nodes]);
+  };
 
   const closeAllOverlays = useCallback(() => {
     setSelectedNodeId(null);
@@ -355,6 +1067,185 @@ const App: React.FC = () => {
     setIsLevelSelectorExpanded(false);
   }, []);
 
+  // Children and siblings in on-screen order along the axis siblings are spread over
+  const visibleChildren = (parentId: string) => {
+    const axis = layoutMode === 'orgchart' ? 'y' : 'x';
+    return nodes.filter(n => n.parentId === parentId && visibleIds.has(n.id)).sort((a, b) => a.position[axis] - b.position[axis]);
+  };
+
+  const relatedNode = (node: ThoughtNode, relation: TreeRelation): ThoughtNode | undefined => {
+    if (relation === 'parent') return node.parentId ? nodesById.get(node.parentId) : undefined;
+    if (relation === 'child') return node.isCollapsed ? undefined : visibleChildren(node.id)[0];
+    if (!node.parentId) return undefined;
+    const siblings = visibleChildren(node.parentId);
+    return siblings[siblings.findIndex(n => n.id === node.id) + (relation === 'next' ? 1 : -1)];
+  };
+
+  const focusNode = (node: ThoughtNode) => {
+    setIsKeyboardNav(true);
+    jumpToNode(node);
+  };
+
+  const foldNode = (node: ThoughtNode) => {
+    toggleCollapse(node.id);
+    setAnnouncement(`${node.isCollapsed ? 'Unfolded' : 'Folded'} ${node.label}`);
+  };
+
+  const pruneWithFocus = (node: ThoughtNode) => {
+    const parent = node.parentId ? nodesById.get(node.parentId) : undefined;
+    pruneNode(node.id);
+    setAnnouncement(`Pruned ${node.label}`);
+    if (parent) focusNode(parent);
+  };
+
+  const isDialogOpen = importReport !== null || nodeEditor !== null || linkEditor !== null || isMergeDialogOpen || isImageExportOpen || isProviderSettingsOpen || isUsageOpen;
+
+  const handleNavigationKey = (e: KeyboardEvent) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k' && !isDialogOpen) {
+      e.preventDefault();
+      setIsCommandPaletteOpen(open => !open);
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey || isDialogOpen || isCommandPaletteOpen) return;
+    // Buttons and fields keep their own Enter and arrow behaviour
+    if ((e.target as HTMLElement).closest?.('input, textarea, select, button, a, [contenteditable="true"]')) return;
+    const root = nodes.find(n => n.parentId === null);
+    const selected = selectedNodeId ? nodesById.get(selectedNodeId) : undefined;
+    const relation = ARROW_RELATIONS[layoutMode][e.key];
+    if (relation) {
+      e.preventDefault();
+      if (!selected) {
+        const start = (lastSelectedRef.current && nodesById.get(lastSelectedRef.current)) || root;
+        if (start && visibleIds.has(start.id)) focusNode(start);
+        return;
+      }
+      const target = relatedNode(selected, relation);
+      if (target) focusNode(target);
+      else if (relation === 'child' && selected.isCollapsed) foldNode(selected);
+      return;
+    }
+    if (e.key === 'F3') {
+      e.preventDefault();
+      stepMatch(e.shiftKey ? -1 : 1);
+      return;
+    }
+    if (e.key === 'Home') {
+      e.preventDefault();
+      if (root) focusNode(root);
+      return;
+    }
+    if (e.key === 'Escape' && deepDiveView) {
+      closeDeepDive();
+      return;
+    }
+    if (!selected) return;
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      expandNode(selected.id, selected.label, selected.position, selected.level, selected.path, false);
+    } else if (e.key === 'f' || e.key === 'F') {
+      if (selected.isExpanded) foldNode(selected);
+    } else if ((e.key === 'd' || e.key === 'D') && !selected.synthesis) {
+      openDeepDive(selected.id);
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && isEditMode && selected.parentId) {
+      e.preventDefault();
+      pruneWithFocus(selected);
+    } else if (e.key === 'Escape') {
+      setSelectedNodeId(null);
+    }
+  };
+
+  // The handler closes over most of the component; route through a ref instead of re-subscribing every frame
+  const navigationKeyRef = useRef(handleNavigationKey);
+  navigationKeyRef.current = handleNavigationKey;
+
+  useEffect(() => {
+    if (!isStarted) return;
+    const handleKeyDown = (e: KeyboardEvent) => navigationKeyRef.current(e);
+    const handleMouseDown = () => setIsKeyboardNav(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('mousedown', handleMouseDown);
+    };
+  }, [isStarted]);
+
+  /**
+   * Everything the toolbar, options menu and node panels can do, for the command palette
+   */
+  const getPaletteCommands = (): PaletteCommand[] => {
+    const commands: PaletteCommand[] = [];
+    const add = (group: string, id: string, label: string, run: () => void, shortcut?: string) => commands.push({ id, group, label, run, shortcut });
+    const selected = selectedNodeId ? nodesById.get(selectedNodeId) : undefined;
+    const root = nodes.find(n => n.parentId === null);
+
+    if (selected) {
+      const node = selected;
+      if (node.isLoading) {
+        add('Node', 'cancel-branch', `Cancel branching "${node.label}"`, () => cancelBranch(node.id));
+      } else if (!node.synthesis && isWithinDepthLimit(generationSettings, node.level)) {
+        add('Node', 'branch', `Branch "${node.label}"`, () => expandNode(node.id, node.label, node.position, node.level, node.path, false), 'Enter');
+        add('Node', 'explore', `Explore "${node.label}" further`, () => expandNode(node.id, node.label, node.position, node.level, node.path, true));
+        BRANCH_MODES.filter(m => m.id !== 'related').forEach(m => add('Node', `branch-${m.id}`, `Branch "${node.label}": ${m.label.toLowerCase()}`, () => expandNode(node.id, node.label, node.position, node.level, node.path, false, m.id)));
+        if (!autoExploreJob.current) add('Node', 'auto-explore', `Auto-explore from "${node.label}"`, () => openAutoExplore(node.id));
+      }
+      if (node.isExpanded) add('Node', 'fold', `${node.isCollapsed ? 'Unfold' : 'Fold'} "${node.label}"`, () => foldNode(node), 'F');
+      if (!node.synthesis) add('Node', 'find-connections', `Find connections for "${node.label}"`, () => suggestConnections(node.id));
+      if (!node.synthesis && node.isExpanded) add('Node', 'synthesize-branch', `Synthesise the branch under "${node.label}"`, () => synthesizeNode(node.id, 'branch'));
+      if (!node.synthesis && node.parentId) add('Node', 'synthesize-path', `Synthesise the path to "${node.label}"`, () => synthesizeNode(node.id, 'path'));
+      if (!node.synthesis) add('Node', 'deep-dive', `${node.deepDive ? 'Read deep dive on' : 'Deep dive into'} "${node.label}"`, () => openDeepDive(node.id), 'D');
+      const parent = relatedNode(node, 'parent');
+      if (parent) add('Node', 'go-parent', `Go to parent "${parent.label}"`, () => focusNode(parent));
+      const child = relatedNode(node, 'child');
+      if (child) add('Node', 'go-child', `Go to first child "${child.label}"`, () => focusNode(child));
+      NODE_STATUSES.forEach(status => add('Node', `status-${status.id}`, node.status === status.id ? `Clear status "${status.label}"` : `Mark "${node.label}" as ${status.label.toLowerCase()}`, () => annotateNode(node.id, { status: node.status === status.id ? undefined : status.id })));
+      add('Node', 'deselect', 'Deselect', () => setSelectedNodeId(null), 'Esc');
+      if (isEditMode) {
+        add('Edit', 'add-child', `Add child to "${node.label}"`, () => setNodeEditor({ mode: 'child', nodeId: node.id }));
+        if (node.parentId) add('Edit', 'add-sibling', `Add sibling to "${node.label}"`, () => setNodeEditor({ mode: 'sibling', nodeId: node.id }));
+        add('Edit', 'edit-node', `Edit "${node.label}"`, () => setNodeEditor({ mode: 'edit', nodeId: node.id }));
+        add('Edit', 'link', `Link "${node.label}" to another node`, () => setLinkSourceId(node.id));
+        add('Edit', 'pin', `${node.isPinned ? 'Unpin' : 'Pin'} "${node.label}"`, () => togglePin(node.id));
+        add('Edit', 'hide', `${node.isHidden ? 'Show' : 'Hide'} "${node.label}"`, () => toggleHide(node.id));
+        if (node.parentId) add('Edit', 'prune', `Prune "${node.label}"`, () => pruneWithFocus(node), 'Del');
+      }
+    }
+
+    if (history.undo.length > 0) add('Edit', 'undo', `Undo ${history.undo[history.undo.length - 1].label}`, undo, 'Ctrl+Z');
+    if (history.redo.length > 0) add('Edit', 'redo', `Redo ${history.redo[history.redo.length - 1].label}`, redo, 'Ctrl+Y');
+    add('Edit', 'edit-mode', isEditMode ? 'Done editing' : 'Enter edit mode', () => setIsEditMode(!isEditMode));
+    if (linkSourceId) add('Edit', 'cancel-link', 'Cancel linking', () => setLinkSourceId(null));
+    add('Edit', 'duplicates', 'Find duplicates', () => setIsMergeDialogOpen(true));
+
+    if (root) add('View', 'go-root', 'Go to root', () => focusNode(root), 'Home');
+    if (root) add('View', 'center', 'Center on root', () => centerOn(root.position.x, root.position.y));
+    add('View', 'search', 'Search thoughts', () => setIsSearchExpanded(true));
+    if (isSearchActive && searchHits.length > 0) {
+      add('View', 'next-match', 'Next search match', () => stepMatch(1), 'F3');
+      add('View', 'previous-match', 'Previous search match', () => stepMatch(-1), 'Shift+F3');
+    }
+    add('View', 'zoom-in', 'Zoom in', () => updateZoom(zoomRef.current * 1.25));
+    add('View', 'zoom-out', 'Zoom out', () => updateZoom(zoomRef.current / 1.25));
+    add('View', 'minimap', isMinimapOpen ? 'Hide minimap' : 'Show minimap', () => setIsMinimapOpen(!isMinimapOpen));
+    add('View', 'theme', 'Change theme', () => setTheme(theme === 'dark' ? 'light' : 'dark'));
+    levels.forEach(level => add('View', `level-${level}`, `Go to generation ${level}`, () => jumpToLevel(level)));
+    LAYOUT_MODES.forEach(mode => add('Layout', `layout-${mode.id}`, `${mode.label} layout`, () => setLayoutMode(mode.id)));
+
+    EXPORT_FORMATS.forEach(([label, run]) => add('Export', `export-${label}`, `Export as ${label}`, () => { const map = getCurrentMap(); if (map) run(map); }));
+    add('Export', 'export-image', 'Export as image', () => setIsImageExportOpen(true));
+
+    const job = autoExploreJob.current;
+    if (job && autoExplore?.progress?.state === 'running') add('Map', 'auto-explore-pause', 'Pause auto-explore', () => job.pause());
+    if (job && autoExplore?.progress?.state === 'paused') add('Map', 'auto-explore-resume', 'Resume auto-explore', () => job.resume());
+    if (job) add('Map', 'auto-explore-cancel', 'Cancel auto-explore', () => job.cancel());
+    add('Map', 'provider', 'AI provider settings', () => setIsProviderSettingsOpen(true));
+    add('Map', 'clear-cache', 'Clear response cache', clearResponseCache);
+    add('Map', 'generation', 'Generation settings', () => setIsGenerationSettingsOpen(true));
+    add('Map', 'usage', 'Usage and cost', () => setIsUsageOpen(true));
+    add('Map', 'close', 'Close map', () => { closeMap(); });
+    return commands;
+  };
+
   const onDragStart = (x: number, y: number) => {
     if (!containerRef.current) return;
     setIsDragging(true);
@@ -378,20 +1269,74 @@ const App: React.FC = () => {
     const vY = viewport.y / currentZoom - VIEWPORT_BUFFER;
     const vW = viewport.width / currentZoom + VIEWPORT_BUFFER * 2;
     const vH = viewport.height / currentZoom + VIEWPORT_BUFFER * 2;
-    const vNodes = nodes.filter(n => isNodeEffectivelyVisible(n, nodes) && n.position.x > vX && n.position.x < vX + vW && n.position.y > vY && n.position.y < vY + vH);
+    const inView = (n: ThoughtNode) => n.position.x > vX && n.position.x < vX + vW && n.position.y > vY && n.position.y < vY + vH;
+    const vNodes = nodes.filter(n => visibleIds.has(n.id) && inView(n));
     const vEdges = edges.filter(e => {
-      const from = nodes.find(n => n.id === e.from);
-      const to = nodes.find(n => n.id === e.to);
-      if (!from || !to || !isNodeEffectivelyVisible(from, nodes) || !isNodeEffectivelyVisible(to, nodes)) return false;
-      return (from.position.x > vX && from.position.x < vX + vW && from.position.y > vY && from.position.y < vY + vH) || (to.position.x > vX && to.position.x < vX + vW && to.position.y > vY && to.position.y < vY + vH);
+      const from = nodesById.get(e.from);
+      const to = nodesById.get(e.to);
+      if (!from || !to || !visibleIds.has(from.id) || !visibleIds.has(to.id)) return false;
+      return inView(from) || inView(to);
     });
-    return { visibleNodes: vNodes, visibleEdges: vEdges };
-  }, [nodes, edges, viewport, isNodeEffectivelyVisible]);
+    if (currentZoom >= LOD_ZOOM) return { visibleNodes: vNodes, dotNodes: [], visibleEdges: vEdges };
+    // Zoomed far out: full cards only near the centre of the screen, dots everywhere else
+    const cX = (viewport.x + viewport.width / 2) / currentZoom;
+    const cY = (viewport.y + viewport.height / 2) / currentZoom;
+    const radiusSq = (DETAIL_RADIUS / currentZoom) ** 2;
+    const isDetailed = (n: ThoughtNode) =>
+      n.id === selectedNodeId || n.isLoading || (n.position.x - cX) ** 2 + (n.position.y - cY) ** 2 < radiusSq;
+    return { visibleNodes: vNodes.filter(isDetailed), dotNodes: vNodes.filter(n => !isDetailed(n)), visibleEdges: vEdges };
+  }, [nodes, edges, nodesById, viewport, visibleIds, selectedNodeId]);
 
-  const searchResults = useMemo(() => {
-    if (!searchQuery.trim()) return [];
-    return nodes.filter(n => n.label.toLowerCase().includes(searchQuery.toLowerCase())).slice(0, 6);
-  }, [nodes, searchQuery]);
+  // Labels, hierarchy and folding only; positions change every frame and do not affect the tree
+  const treeStructureKey = nodes.map(n =>
+    `${n.id}>${n.parentId}${n.isCollapsed ? 'c' : ''}${n.isExpanded ? 'e' : ''}${n.isLoading ? 'l' : ''}${visibleIds.has(n.id) ? '' : 'h'}\u0000${n.label}`
+  ).join('\u0001');
+
+  // Text and the state the filters look at; the index is rebuilt when those change, not when physics moves nodes
+  const searchKey = !isSearchExpanded ? '' : nodes.map(n =>
+    `${n.id}>${n.parentId}${n.isCollapsed ? 'c' : ''}${n.isHidden ? 'h' : ''}${n.status ?? ''}\u0000${n.label}\u0000${n.description}\u0000${n.sources?.map(s => `${s.title} ${s.uri}`).join(' ') ?? ''}\u0000${n.tags?.join(',') ?? ''}\u0000${n.notes ?? ''}`
+  ).join('\u0001');
+  const deepDiveNode = deepDiveView ? nodesById.get(deepDiveView.nodeId) : undefined;
+  const deepDiveSubtreeSize = useMemo(
+    () => deepDiveView ? collectSubtree(graphRef.current.nodes, deepDiveView.nodeId).size - 1 : 0,
+    [treeStructureKey, deepDiveView?.nodeId]
+  );
+  const searchIndex = useMemo(() => buildSearchIndex(searchKey ? graphRef.current.nodes : []), [searchKey]);
+  const searchHits = useMemo(() => searchNodes(searchIndex, searchQuery, searchFilters), [searchIndex, searchQuery, searchFilters]);
+  const isSearchActive = isSearchExpanded && (searchQuery.trim() !== '' || hasActiveFilters(searchFilters));
+  const dimmedByMatch = useMemo(
+    () => isSearchActive && isSearchDimming ? new Set(searchHits.map(h => h.node.id)) : null,
+    [isSearchActive, isSearchDimming, searchHits]
+  );
+  const activeMatchId = isSearchActive ? searchHits[activeMatchIndex]?.node.id : undefined;
+
+  // Steps through every match on the canvas without selecting it, so the search stays open
+  const stepMatch = (delta: number) => {
+    if (!isSearchActive || searchHits.length === 0) return;
+    const index = activeMatchIndex < 0 ? (delta > 0 ? 0 : searchHits.length - 1) : (activeMatchIndex + delta + searchHits.length) % searchHits.length;
+    setActiveMatchIndex(index);
+    // Matches inside folded or hidden branches: show the nearest ancestor that is on the canvas
+    const target = nearestVisible(searchHits[index].node.id);
+    if (target) centerOn(target.position.x, target.position.y);
+    setActiveLevel(searchHits[index].node.level);
+  };
+
+  const selectMatch = (hit: SearchHit) => {
+    const node = nodesById.get(hit.node.id);
+    if (node) jumpToNode(node, true);
+    setSearchQuery("");
+    setActiveMatchIndex(-1);
+    setIsSearchExpanded(false);
+  };
+
+  const handleSearchKey = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      stepMatch(e.key === 'ArrowUp' || (e.key === 'Enter' && e.shiftKey) ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      setIsSearchExpanded(false);
+    }
+  };
 
   return (
     <div className="relative w-full h-screen overflow-hidden bg-[#e0f2fe] dark:bg-[#030712] text-slate-900 dark:text-white transition-colors duration-500">
@@ -411,10 +1356,26 @@ const App: React.FC = () => {
               </div>
               <button type="button" onClick={() => startJourney(SURPRISE_TOPICS[Math.floor(Math.random() * SURPRISE_TOPICS.length)])} className="w-full py-4 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-500 transition-colors">Spark Curiosity</button>
             </form>
+            <input ref={importInputRef} type="file" accept=".json,.opml,.xml,.md,.markdown,.txt" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) importMapFile(file); e.target.value = ''; }} />
+            <button type="button" onClick={() => importInputRef.current?.click()} className="mt-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-500 transition-colors">Import Map or Outline</button>
+            <button type="button" onClick={() => setIsProviderSettingsOpen(true)} className="mt-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-500 transition-colors">AI Provider: {getProviderSettings().providerId}</button>
+            <button type="button" onClick={() => setIsGenerationSettingsOpen(true)} className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-500 transition-colors">Generation Defaults</button>
+            <button type="button" onClick={() => setIsUsageOpen(true)} className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-500 transition-colors">Usage &amp; Cost</button>
+            {newMapCapBlock && <div className="mt-2 text-[11px] font-bold text-red-500">{newMapCapBlock}; raise it under Usage &amp; Cost to start another map.</div>}
+            {importError && <div className="mt-2 text-[11px] font-bold text-red-500">{importError}</div>}
+            <MapLibrary
+              maps={savedMaps}
+              onOpen={(id) => { openMap(id).catch(err => console.error("Failed to open map:", err)); }}
+              onRename={(id, title) => { renameMap(id, title).then(refreshLibrary).catch(err => console.error("Failed to rename map:", err)); }}
+              onDuplicate={(id) => { duplicateMap(id).then(refreshLibrary).catch(err => console.error("Failed to duplicate map:", err)); }}
+              onDelete={(id) => { deleteMap(id).then(refreshLibrary).catch(err => console.error("Failed to delete map:", err)); }}
+            />
           </div>
         </div>
       ) : (
         <>
+          <AccessibleTree nodes={nodes} visibleIds={visibleIds} selectedNodeId={selectedNodeId} label={mapMeta?.title || 'Thought map'} structureKey={treeStructureKey} onFocus={() => { if (!selectedNodeId) { const root = graphRef.current.nodes.find(n => n.parentId === null); if (root) focusNode(root); } }} />
+          <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
           <div className="fixed top-4 md:top-6 left-4 right-4 md:left-6 md:right-6 flex flex-row items-start justify-between z-[3000] pointer-events-none gap-3">
             <div className="flex items-center bg-white dark:bg-gray-950/90 backdrop-blur-2xl rounded-2xl border border-slate-200 dark:border-gray-800 shadow-xl pointer-events-auto p-1 max-w-[calc(100%-60px)] transition-all duration-300">
                <button onClick={(e) => { e.stopPropagation(); setIsLevelSelectorExpanded(!isLevelSelectorExpanded); }} className="px-3 md:px-4 py-2 text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest flex items-center space-x-2 rounded-xl hover:bg-slate-50 dark:hover:bg-white/5 transition-colors flex-shrink-0">
@@ -428,6 +1389,11 @@ const App: React.FC = () => {
                    ))}
                  </div>
                )}
+               {requestStats.inFlight + requestStats.queued + requestStats.retrying > 0 && (
+                 <span role="status" className="px-3 text-[9px] font-bold text-slate-400 whitespace-nowrap border-l border-slate-100 dark:border-gray-800 ml-1 flex-shrink-0">
+                   {requestStats.inFlight} running{requestStats.queued > 0 ? ` · ${requestStats.queued} queued` : ''}{requestStats.retrying > 0 ? <span className="text-amber-500"> · retrying</span> : null}
+                 </span>
+               )}
             </div>
 
             <div className={`relative flex flex-col items-end pointer-events-auto transition-all duration-500 ease-out ${isSearchExpanded ? 'flex-grow md:max-w-[400px]' : 'w-12 md:w-14'}`}>
@@ -435,35 +1401,35 @@ const App: React.FC = () => {
                 <button onClick={(e) => { e.stopPropagation(); setIsSearchExpanded(!isSearchExpanded); }} className="px-4 text-slate-500 dark:text-slate-400 hover:text-blue-500 transition-colors flex-shrink-0">
                   <svg className="w-5 h-5 md:w-6 md:h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
                 </button>
-                {isSearchExpanded && <input type="text" autoFocus placeholder="Search thoughts..." className="w-full bg-transparent border-none text-[13px] font-bold focus:ring-0 outline-none text-slate-900 dark:text-white pr-4" value={searchQuery} onChange={e => setSearchQuery(e.target.value)} />}
+                {isSearchExpanded && <input type="text" autoFocus placeholder="Search thoughts..." className="w-full bg-transparent border-none text-[13px] font-bold focus:ring-0 outline-none text-slate-900 dark:text-white pr-4" value={searchQuery} onChange={e => { setSearchQuery(e.target.value); setActiveMatchIndex(-1); }} onKeyDown={handleSearchKey} />}
               </div>
-              {isSearchExpanded && searchQuery.trim() !== "" && (
-                <div className="mt-2 w-full bg-white dark:bg-gray-950 border border-slate-200 dark:border-gray-800 rounded-2xl shadow-2xl overflow-hidden backdrop-blur-2xl animate-menu-pop flex flex-col z-[4000]">
-                  {searchResults.length > 0 ? searchResults.map(result => (
-                    <button key={result.id} onClick={(e) => { e.stopPropagation(); jumpToNode(result, true); setSearchQuery(""); setIsSearchExpanded(false); }} className="w-full px-5 py-3.5 text-left hover:bg-slate-50 dark:hover:bg-white/5 transition-colors flex items-center justify-between border-b border-slate-100 dark:border-gray-900 last:border-none group">
-                      <span className="text-[13px] font-bold text-slate-700 dark:text-slate-200 group-hover:text-blue-500 truncate">{result.label}</span>
-                      <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 bg-slate-100 dark:bg-white/5 px-2 py-1 rounded-md">Gen {result.level}</span>
-                    </button>
-                  )) : <div className="px-5 py-6 text-center text-slate-400 text-[11px] font-bold uppercase tracking-widest">No matching thoughts</div>}
-                </div>
+              {isSearchExpanded && (
+                <SearchPanel
+                  hits={searchHits}
+                  isActive={isSearchActive}
+                  activeIndex={activeMatchIndex}
+                  filters={searchFilters}
+                  levels={levels}
+                  domains={searchIndex.domains}
+                  tags={searchIndex.tags}
+                  scopeOptions={Array.from(new Set([searchFilters.subtreeId, lastSelectedRef.current])).flatMap(id => { const node = id ? nodesById.get(id) : undefined; return node ? [{ id: node.id, label: node.label }] : []; })}
+                  foldedIds={searchIndex.folded}
+                  isDimming={isSearchDimming}
+                  onFiltersChange={(filters) => { setSearchFilters(filters); setActiveMatchIndex(-1); }}
+                  onToggleDimming={() => setIsSearchDimming(!isSearchDimming)}
+                  onStep={stepMatch}
+                  onSelect={selectMatch}
+                />
               )}
             </div>
           </div>
 
           <div ref={containerRef} onMouseDown={(e) => onDragStart(e.pageX, e.pageY)} onMouseMove={(e) => onDragMove(e, e.pageX, e.pageY)} onMouseUp={() => setIsDragging(false)} onClick={() => closeAllOverlays()} onTouchStart={(e) => onDragStart(e.touches[0].pageX, e.touches[0].pageY)} onTouchMove={(e) => onDragMove(e, e.touches[0].pageX, e.touches[0].pageY)} className={`w-full h-full overflow-auto hide-scrollbar relative touch-none cursor-grab active:cursor-grabbing transition-[z-index] ${isFocusMode ? 'z-[500]' : 'z-0'}`}>
             <div className="relative origin-top-left" style={{ width: `${CANVAS_SIZE * zoom}px`, height: `${CANVAS_SIZE * zoom}px`, transform: `scale(${zoom})` }}>
-              {visibleNodesAndEdges.visibleEdges.map(edge => {
-                const from = nodes.find(n => n.id === edge.from); const to = nodes.find(n => n.id === edge.to);
-                if (!from || !to) return null;
-                return <ConnectionLine key={edge.id} id={edge.id} from={from.position} to={to.position} isNew={to.isNew} isActive={selectedNodeId === from.id || selectedNodeId === to.id} theme={theme} />;
-              })}
+              <GraphCanvas nodesById={nodesById} edges={visibleNodesAndEdges.visibleEdges} dots={visibleNodesAndEdges.dotNodes} viewport={viewport} zoom={zoom} theme={theme} selectedNodeId={selectedNodeId} activeLevel={activeLevel} matchIds={dimmedByMatch} onSelectLink={(edge) => setLinkEditor({ from: edge.from, to: edge.to, edgeId: edge.id })} />
               {visibleNodesAndEdges.visibleNodes.map(node => (
-                <div key={node.id} className="transition-opacity duration-500" style={{ opacity: selectedNodeId !== null && selectedNodeId !== node.id ? 0.2 : 1 }}>
-                  <NodeItem node={node} allNodes={nodes} isActiveFocus={node.level === activeLevel} isSelected={selectedNodeId === node.id} panelDirection={selectedNodeDirection} isEditMode={isEditMode} zoom={zoom} isMobile={isMobile} onClick={() => jumpToNode(node)} onBranch={() => expandNode(node.id, node.label, node.position, node.level, node.path, false)} onExploreFurther={() => expandNode(node.id, node.label, node.position, node.level, node.path, true)} onPrune={(id) => setNodes(prev => prev.filter(n => n.id !== id))} onToggleCollapse={(id) => setNodes(prev => prev.map(n => n.id === id ? { ...n, isCollapsed: !n.isCollapsed } : n))} onHover={() => {}} onDrag={(id, x, y) => setNodes(prev => {
-                    const next = prev.map(n => n.id === id ? { ...n, position: { x, y } } : n);
-                    if (nodeVelocities.current[id]) { nodeVelocities.current[id].vx = 0; nodeVelocities.current[id].vy = 0; }
-                    return next;
-                  })} theme={theme} />
+                <div key={node.id} className="transition-opacity duration-500" style={{ opacity: (selectedNodeId !== null && selectedNodeId !== node.id) || (dimmedByMatch && !dimmedByMatch.has(node.id)) ? 0.2 : 1 }}>
+                  <NodeItem node={node} allNodes={nodes} isActiveFocus={node.level === activeLevel} isSelected={selectedNodeId === node.id} panelDirection={selectedNodeDirection} isEditMode={isEditMode} zoom={zoom} isMobile={isMobile} onClick={() => linkSourceId ? completeLink(node.id) : jumpToNode(node)} onBranch={(mode) => expandNode(node.id, node.label, node.position, node.level, node.path, false, mode)} branchBlockedReason={isWithinDepthLimit(generationSettings, node.level) ? spendingCapBlock || undefined : `Depth limit of ${generationSettings.maxDepth} reached`} onExploreFurther={() => expandNode(node.id, node.label, node.position, node.level, node.path, true)} onCancelBranch={() => cancelBranch(node.id)} onPrune={pruneNode} onToggleCollapse={toggleCollapse} onToggleHide={toggleHide} onHover={() => {}} onDrag={dragNode} onDragEnd={endDrag} onAddChild={(id) => setNodeEditor({ mode: 'child', nodeId: id })} onAddSibling={(id) => setNodeEditor({ mode: 'sibling', nodeId: id })} onEdit={(id) => setNodeEditor({ mode: 'edit', nodeId: id })} onStartLink={(id) => setLinkSourceId(id)} onTogglePin={togglePin} onFindConnections={() => suggestConnections(node.id)} connectionStatus={connectionStatus?.nodeId === node.id ? connectionStatus.text : undefined} isDropTarget={dropTargetId === node.id} hasFocusRing={(isKeyboardNav && selectedNodeId === node.id) || activeMatchId === node.id} onAnnotate={annotateNode} onDeepDive={() => openDeepDive(node.id)} onAutoExplore={() => openAutoExplore(node.id)} onSynthesize={(scope) => synthesizeNode(node.id, scope)} synthesisStatus={synthesisStatus?.nodeId === node.id ? synthesisStatus.text : undefined} onJumpTo={(id) => { const target = nearestVisible(id); if (target) jumpToNode(target); }} onAddNextBranch={(topic, reason) => { if (node.parentId) addNode(node.parentId, topic, reason); }} allTags={selectedNodeId === node.id ? collectTags(nodes) : undefined} prices={usageSettings.prices} theme={theme} />
                 </div>
               ))}
             </div>
@@ -473,9 +1439,30 @@ const App: React.FC = () => {
             {isOptionsMenuOpen && !isEditMode && (
               <div className="bg-white dark:bg-gray-950 rounded-[2rem] border border-slate-200 dark:border-gray-800 p-2 shadow-3xl w-48 animate-menu-pop flex flex-col space-y-1" onClick={e => e.stopPropagation()}>
                 <button onClick={(e) => { e.stopPropagation(); setIsEditMode(true); setIsOptionsMenuOpen(false); }} className="flex items-center space-x-3 px-4 py-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all"><span className="text-[12px] font-bold">Enter Edit Mode</span></button>
-                <button onClick={(e) => { e.stopPropagation(); checkApiKey(); setIsOptionsMenuOpen(false); }} className="flex items-center space-x-3 px-4 py-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-blue-500"><span className="text-[12px] font-bold">Set API Key</span></button>
+                <button onClick={(e) => { e.stopPropagation(); setIsProviderSettingsOpen(true); setIsOptionsMenuOpen(false); }} className="flex items-center space-x-3 px-4 py-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-blue-500"><span className="text-[12px] font-bold">AI Provider</span></button>
+                <button onClick={(e) => { e.stopPropagation(); setIsGenerationSettingsOpen(true); setIsOptionsMenuOpen(false); }} className="flex items-center space-x-3 px-4 py-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-blue-500"><span className="text-[12px] font-bold">Generation Settings</span></button>
+                <button onClick={(e) => { e.stopPropagation(); setIsUsageOpen(true); setIsOptionsMenuOpen(false); }} className="flex items-center space-x-3 px-4 py-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-blue-500"><span className="text-[12px] font-bold">Usage &amp; Cost</span></button>
+                <div className="px-4 pt-2 pb-1">
+                  <span className="block text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">Layout</span>
+                  <div className="grid grid-cols-2 gap-1">
+                    {LAYOUT_MODES.map(mode => (
+                      <button key={mode.id} onClick={(e) => { e.stopPropagation(); setLayoutMode(mode.id); }} className={`px-2 py-1.5 rounded-lg text-[10px] font-bold transition-colors ${layoutMode === mode.id ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-white/5 text-slate-500 hover:text-blue-500'}`}>{mode.label}</button>
+                    ))}
+                  </div>
+                </div>
+                <button onClick={(e) => { e.stopPropagation(); setIsMergeDialogOpen(true); setIsOptionsMenuOpen(false); }} className="flex items-center justify-between px-4 py-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-slate-600 dark:text-gray-300"><span className="text-[12px] font-bold">Find Duplicates</span>{duplicatePairs.length > 0 && <span className="min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-white text-[9px] font-black flex items-center justify-center">{duplicatePairs.length}</span>}</button>
+                <button onClick={(e) => { e.stopPropagation(); setIsExportMenuOpen(!isExportMenuOpen); }} className="flex items-center justify-between px-4 py-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-slate-600 dark:text-gray-300"><span className="text-[12px] font-bold">Export Map</span><svg className={`w-3 h-3 transition-transform ${isExportMenuOpen ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" /></svg></button>
+                {isExportMenuOpen && (
+                  <div className="flex flex-col pl-3 space-y-0.5">
+                    {EXPORT_FORMATS.map(([label, run]) => (
+                      <button key={label} onClick={(e) => { e.stopPropagation(); const map = getCurrentMap(); if (map) run(map); setIsOptionsMenuOpen(false); setIsExportMenuOpen(false); }} className="text-left px-4 py-2 rounded-xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-[11px] font-bold text-slate-500 dark:text-gray-400">{label}</button>
+                    ))}
+                    <button onClick={(e) => { e.stopPropagation(); setIsImageExportOpen(true); setIsOptionsMenuOpen(false); setIsExportMenuOpen(false); }} className="text-left px-4 py-2 rounded-xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-[11px] font-bold text-slate-500 dark:text-gray-400">Image (SVG/PNG)...</button>
+                  </div>
+                )}
+                <button onClick={(e) => { e.stopPropagation(); setIsCommandPaletteOpen(true); setIsOptionsMenuOpen(false); }} className="flex items-center justify-between px-4 py-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-slate-600 dark:text-gray-300"><span className="text-[12px] font-bold">All Commands</span><kbd className="text-[9px] font-black text-slate-400">Ctrl+K</kbd></button>
                 <button onClick={(e) => { e.stopPropagation(); setTheme(theme === 'dark' ? 'light' : 'dark'); }} className="flex items-center space-x-3 px-4 py-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-slate-600 dark:text-gray-300"><span className="text-[12px] font-bold">Change Theme</span></button>
-                <button onClick={(e) => { e.stopPropagation(); setIsStarted(false); setNodes([]); setEdges([]); nodeVelocities.current = {}; }} className="flex items-center space-x-3 px-4 py-3 rounded-2xl text-red-500 hover:bg-red-50 dark:hover:bg-red-900/10 transition-all"><span className="text-[12px] font-bold">Reset Map</span></button>
+                <button onClick={(e) => { e.stopPropagation(); closeMap(); }} className="flex items-center space-x-3 px-4 py-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-white/5 transition-all text-slate-600 dark:text-gray-300"><span className="text-[12px] font-bold">Close Map</span></button>
               </div>
             )}
             <div className="flex flex-col space-y-3">
@@ -485,13 +1472,46 @@ const App: React.FC = () => {
           </div>
 
           <div className="fixed bottom-6 md:bottom-8 right-6 md:right-8 z-[3000] flex flex-col items-end space-y-3 pointer-events-auto">
+            <div className="flex space-x-2 bg-white dark:bg-gray-950 p-2 rounded-2xl border border-slate-200 dark:border-gray-800 shadow-2xl">
+              <button onClick={(e) => { e.stopPropagation(); undo(); }} disabled={history.undo.length === 0} title={history.undo.length > 0 ? `Undo ${history.undo[history.undo.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'} className="w-10 h-10 flex items-center justify-center rounded-xl hover:bg-slate-100 dark:hover:bg-white/5 transition-colors text-slate-600 dark:text-gray-300 disabled:opacity-30 disabled:hover:bg-transparent"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2.5"><path strokeLinecap="round" strokeLinejoin="round" d="M9 14L4 9l5-5M4 9h11a5 5 0 010 10h-3" /></svg></button>
+              <button onClick={(e) => { e.stopPropagation(); redo(); }} disabled={history.redo.length === 0} title={history.redo.length > 0 ? `Redo ${history.redo[history.redo.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'} className="w-10 h-10 flex items-center justify-center rounded-xl hover:bg-slate-100 dark:hover:bg-white/5 transition-colors text-slate-600 dark:text-gray-300 disabled:opacity-30 disabled:hover:bg-transparent"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2.5"><path strokeLinecap="round" strokeLinejoin="round" d="M15 14l5-5-5-5m5 5H9a5 5 0 000 10h3" /></svg></button>
+            </div>
             <div className="flex flex-col space-y-2 bg-white dark:bg-gray-950 p-2 rounded-2xl border border-slate-200 dark:border-gray-800 shadow-2xl">
               <button onClick={(e) => { e.stopPropagation(); updateZoom(zoomRef.current * 1.25); }} className="w-10 h-10 flex items-center justify-center rounded-xl hover:bg-slate-100 dark:hover:bg-white/5 transition-colors text-slate-600 dark:text-gray-300"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 6v6m0 0v6m0-6h6m-6 0H6" /></svg></button>
               <button onClick={(e) => { e.stopPropagation(); updateZoom(zoomRef.current / 1.25); }} className="w-10 h-10 flex items-center justify-center rounded-xl hover:bg-slate-100 dark:hover:bg-white/5 transition-colors text-slate-600 dark:text-gray-300"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M18 12H6" /></svg></button>
             </div>
-            <Minimap nodes={nodes.filter(n => isNodeEffectivelyVisible(n, nodes))} canvasSize={CANVAS_SIZE} viewport={viewport} isOpen={isMinimapOpen} onToggle={() => setIsMinimapOpen(!isMinimapOpen)} isMobile={isMobile} zoom={zoom} />
+            <Minimap nodes={nodes.filter(n => visibleIds.has(n.id))} canvasSize={CANVAS_SIZE} viewport={viewport} isOpen={isMinimapOpen} onToggle={() => setIsMinimapOpen(!isMinimapOpen)} isMobile={isMobile} zoom={zoom} />
             <button onClick={(e) => { e.stopPropagation(); setIsMinimapOpen(!isMinimapOpen); }} className={`w-14 h-14 flex items-center justify-center rounded-2xl transition-all shadow-2xl border ${isMinimapOpen ? 'bg-blue-600 border-blue-400 text-white' : 'bg-white dark:bg-gray-950 border-slate-200 dark:border-gray-800 text-slate-500 hover:scale-105'}`}><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /><path strokeLinecap="round" strokeLinejoin="round" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg></button>
           </div>
+          {importReport && <ImportReport {...importReport} onClose={() => setImportReport(null)} />}
+          {nodeEditor && (() => {
+            const target = nodes.find(n => n.id === nodeEditor.nodeId);
+            if (!target) return null;
+            const isEdit = nodeEditor.mode === 'edit';
+            return <NodeEditorDialog key={`${nodeEditor.mode}-${target.id}`} title={isEdit ? 'Edit Thought' : nodeEditor.mode === 'child' ? `New child of ${target.label}` : `New sibling of ${target.label}`} initialLabel={isEdit ? target.label : ''} initialDescription={isEdit ? target.description : ''} submitLabel={isEdit ? 'Save' : 'Add'} onSave={saveNodeEditor} onClose={() => setNodeEditor(null)} />;
+          })()}
+          {linkSourceId && (
+            <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[3000] flex items-center space-x-3 bg-white dark:bg-gray-950 border-2 border-amber-500/60 rounded-2xl shadow-2xl px-4 py-2.5 pointer-events-auto animate-menu-pop" onClick={e => e.stopPropagation()}>
+              <span className="text-[11px] font-bold text-slate-700 dark:text-slate-200">Linking from <span className="text-amber-500">{nodes.find(n => n.id === linkSourceId)?.label}</span> — pick another node</span>
+              <button onClick={() => setLinkSourceId(null)} className="px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 transition-colors">Cancel</button>
+            </div>
+          )}
+          {linkEditor && (() => {
+            const from = nodes.find(n => n.id === linkEditor.from);
+            const to = nodes.find(n => n.id === linkEditor.to);
+            const existing = linkEditor.edgeId ? edges.find(e => e.id === linkEditor.edgeId) : undefined;
+            if (!from || !to) return null;
+            return <CrossLinkDialog key={linkEditor.edgeId || `${from.id}-${to.id}`} fromLabel={from.label} toLabel={to.label} initialLabel={existing?.label || ''} mode={!existing ? 'create' : existing.isSuggested ? 'review' : 'edit'} onSave={saveLink} onDelete={existing ? deleteLink : undefined} onClose={() => setLinkEditor(null)} />;
+          })()}
+          {deepDiveView && deepDiveNode && <DeepDivePanel node={deepDiveNode} subtreeSize={deepDiveSubtreeSize} draft={deepDiveView.draft} error={deepDiveView.error} onGenerate={(includeSubtree) => generateDeepDive(deepDiveNode.id, includeSubtree)} onCancel={() => deepDiveController.current?.abort()} onExport={() => exportDeepDive(deepDiveNode.id)} onClose={closeDeepDive} />}
+          {autoExplore && (() => {
+            const start = nodesById.get(autoExplore.nodeId);
+            if (!start) return null;
+            return <AutoExplorePanel key={autoExplore.nodeId} nodeLabel={start.label} progress={autoExplore.progress} options={autoExplore.options} childrenPerBranch={generationSettings.branchCount} onStart={(setup) => startAutoExplore(start.id, setup)} onPause={() => autoExploreJob.current?.pause()} onResume={() => autoExploreJob.current?.resume()} onCancel={() => autoExploreJob.current?.cancel()} onClose={closeAutoExplore} />;
+          })()}
+          {isCommandPaletteOpen && <CommandPalette commands={getPaletteCommands()} onClose={() => setIsCommandPaletteOpen(false)} />}
+          {isMergeDialogOpen && <MergeDialog nodes={nodes} edges={edges} pairs={duplicatePairs} canCheckMeaning={canEmbed()} isCheckingMeaning={isCheckingMeaning} meaningError={meaningError} onCheckMeaning={checkMeaning} onMerge={mergeNodes} onDismiss={(pair) => setDismissedPairs(prev => [...prev, pair])} onClose={() => setIsMergeDialogOpen(false)} />}
+          {isImageExportOpen && <ImageExportDialog hasSelection={selectedNodeId !== null} onExport={exportImage} onClose={() => setIsImageExportOpen(false)} />}
           <style>{`
             @keyframes pill-pop { 0% { transform: scale(0.8); opacity: 0; } 100% { transform: scale(1); opacity: 1; } }
             .animate-pill-pop { animation: pill-pop 0.3s cubic-bezier(0.34, 1.56, 0.64, 1); }
@@ -502,6 +1522,27 @@ const App: React.FC = () => {
           `}</style>
         </>
       )}
+      {isProviderSettingsOpen && <ProviderSettingsDialog settings={getProviderSettings()} cachedResponses={cachedResponses} onClearCache={clearResponseCache} onSave={configureProvider} onClose={() => setIsProviderSettingsOpen(false)} />}
+      {isGenerationSettingsOpen && (
+        <GenerationSettingsDialog
+          settings={generationSettings}
+          defaults={loadGenerationDefaults()}
+          providerModels={getProviderSettings().models}
+          hasMap={isStarted}
+          onSave={applyGenerationSettings}
+          onSaveDefaults={(settings) => { saveGenerationDefaults(settings); applyGenerationSettings(settings); }}
+          onClose={() => setIsGenerationSettingsOpen(false)}
+        />
+      )}
+      {isUsageOpen && (
+        <UsageDialog
+          mapUsage={isStarted ? mapUsage : null}
+          sessionUsage={sessionUsage}
+          settings={usageSettings}
+          onSave={applyUsageSettings}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
     </div>
   );
 };
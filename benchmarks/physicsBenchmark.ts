@@ -0,0 +1,116 @@
+import { Edge, ThoughtNode } from "../types";
+import { createPhysicsEngine } from "../services/physicsEngine";
+
+/**
+ * Frame-time benchmark for the force simulation.
+ *
+ *   npm run bench:physics
+ *
+ * Builds synthetic maps (three children per node, spread like freshly branched nodes) and times
+ * the engine's `step` at each size, next to the O(n²) loop it replaced.
+ */
+
+const SIZES = [100, 1000, 5000];
+const FRAMES = 60;
+/** The old loop is too slow to time for long at the largest size */
+const LEGACY_FRAME_BUDGET_MS = 20000;
+const SPACING_Y = -140;
+const CENTER = { x: 5000, y: 5000 };
+
+const buildMap = (count: number): { nodes: ThoughtNode[]; edges: Edge[] } => {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  const nodes: ThoughtNode[] = [{ id: "n0", label: "n0", description: "", parentId: null, level: 0, position: { ...CENTER }, isExpanded: true, isLoading: false, path: ["n0"] }];
+  const edges: Edge[] = [];
+  for (let i = 1; i < count; i++) {
+    const parent = nodes[Math.floor((i - 1) / 3)];
+    const id = `n${i}`;
+    nodes.push({
+      id, label: id, description: "", parentId: parent.id, level: parent.level + 1,
+      position: { x: parent.position.x + (random() - 0.5) * 360, y: parent.position.y + SPACING_Y + (random() - 0.5) * 40 },
+      isExpanded: false, isLoading: false, path: [...parent.path, id]
+    });
+    edges.push({ id: `edge-${parent.id}-${id}`, from: parent.id, to: id });
+  }
+  return { nodes, edges };
+};
+
+/**
+ * The per-frame loop App used before the engine: all pairs, linear lookups, every node copied
+ */
+const legacyStep = (nodes: ThoughtNode[], edges: Edge[], vels: Record<string, { vx: number; vy: number }>): ThoughtNode[] => {
+  const newNodes = nodes.map(n => ({ ...n, position: { ...n.position } }));
+  newNodes.forEach(node => { if (!vels[node.id]) vels[node.id] = { vx: 0, vy: 0 }; });
+  for (let i = 0; i < newNodes.length; i++) {
+    for (let j = i + 1; j < newNodes.length; j++) {
+      const n1 = newNodes[i];
+      const n2 = newNodes[j];
+      const dx = n1.position.x - n2.position.x;
+      const dy = n1.position.y - n2.position.y;
+      const distSq = Math.max(dx * dx + dy * dy, 1200);
+      const dist = Math.sqrt(distSq);
+      const force = (18000 * (n1.level === n2.level ? 1.4 : 1)) / distSq;
+      vels[n1.id].vx += (dx / dist) * force; vels[n1.id].vy += (dy / dist) * force;
+      vels[n2.id].vx -= (dx / dist) * force; vels[n2.id].vy -= (dy / dist) * force;
+    }
+  }
+  edges.forEach(edge => {
+    const from = newNodes.find(n => n.id === edge.from)!;
+    const to = newNodes.find(n => n.id === edge.to)!;
+    const dx = to.position.x - from.position.x;
+    const dy = to.position.y - from.position.y;
+    const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+    const force = (dist - Math.abs(SPACING_Y)) * 0.04;
+    vels[to.id].vx -= (dx / dist) * force; vels[to.id].vy -= (dy / dist) * force;
+    vels[from.id].vx += (dx / dist) * force; vels[from.id].vy += (dy / dist) * force;
+  });
+  newNodes.forEach(node => {
+    const parent = node.parentId ? newNodes.find(p => p.id === node.parentId) : undefined;
+    if (parent) vels[node.id].vy += (parent.position.y + SPACING_Y - node.position.y) * 0.15;
+    vels[node.id].vx += (CENTER.x - node.position.x) * 0.005;
+    vels[node.id].vy += (CENTER.y - node.position.y) * 0.005;
+    if (node.level === 0) { vels[node.id] = { vx: 0, vy: 0 }; return; }
+    node.position.x += vels[node.id].vx; node.position.y += vels[node.id].vy;
+    vels[node.id].vx *= 0.75; vels[node.id].vy *= 0.75;
+  });
+  return newNodes;
+};
+
+const timeFrames = (frames: number, budgetMs: number, run: () => void) => {
+  const times: number[] = [];
+  const started = performance.now();
+  while (times.length < frames && performance.now() - started < budgetMs) {
+    const t = performance.now();
+    run();
+    times.push(performance.now() - t);
+  }
+  times.sort((a, b) => a - b);
+  return { frames: times.length, mean: times.reduce((acc, t) => acc + t, 0) / times.length, p95: times[Math.min(times.length - 1, Math.floor(times.length * 0.95))] };
+};
+
+const format = (ms: number) => `${ms.toFixed(2).padStart(8)} ms`;
+
+console.log(`Physics frame time over ${FRAMES} frames (mean / p95)\n`);
+console.log(`${"nodes".padStart(6)}  ${"engine mean".padStart(11)}  ${"engine p95".padStart(11)}  ${"legacy mean".padStart(11)}  ${"legacy p95".padStart(11)}`);
+SIZES.forEach(size => {
+  const map = buildMap(size);
+
+  const engine = createPhysicsEngine({ spacingY: SPACING_Y, center: CENTER });
+  let nodes = map.nodes;
+  const anchors = new Set<string>();
+  const current = timeFrames(FRAMES, Infinity, () => {
+    engine.sync(nodes, map.edges, anchors);
+    // Keep the engine awake so every frame does the full amount of work
+    engine.wake();
+    if (engine.step()) nodes = engine.writePositions(nodes);
+  });
+
+  let legacyNodes = map.nodes;
+  const vels: Record<string, { vx: number; vy: number }> = {};
+  const legacy = timeFrames(FRAMES, LEGACY_FRAME_BUDGET_MS, () => { legacyNodes = legacyStep(legacyNodes, map.edges, vels); });
+
+  console.log(`${String(size).padStart(6)}  ${format(current.mean)}  ${format(current.p95)}  ${format(legacy.mean)}  ${format(legacy.p95)}${legacy.frames < FRAMES ? ` (${legacy.frames} frames)` : ""}`);
+});
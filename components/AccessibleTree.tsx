@@ -0,0 +1,68 @@
+import React from 'react';
+import { ThoughtNode } from '../types';
+
+interface AccessibleTreeProps {
+  nodes: ThoughtNode[];
+  visibleIds: Set<string>;
+  selectedNodeId: string | null;
+  label: string;
+  /** Changes whenever labels, hierarchy, folding or visibility change; positions are ignored */
+  structureKey: string;
+  onFocus: () => void;
+}
+
+const treeItemId = (nodeId: string) => `tree-item-${nodeId}`;
+
+/**
+ * Screen-reader copy of the map as a nested ARIA tree mirroring `parentId`. The canvas only
+ * renders what is on screen, so this is the one place the whole hierarchy is exposed. Focus stays
+ * on the tree itself and `aria-activedescendant` follows the selected node; the arrow keys are
+ * handled by App so they work the same with or without a screen reader.
+ */
+const AccessibleTreeView: React.FC<AccessibleTreeProps> = ({ nodes, visibleIds, selectedNodeId, label, onFocus }) => {
+  const byParent = new Map<string | null, ThoughtNode[]>();
+  nodes.forEach(n => {
+    if (!visibleIds.has(n.id)) return;
+    byParent.set(n.parentId, [...(byParent.get(n.parentId) || []), n]);
+  });
+
+  const renderItems = (parentId: string | null, level: number): React.ReactNode =>
+    (byParent.get(parentId) || []).map((node, i, siblings) => {
+      const children = byParent.get(node.id) || [];
+      const hasChildren = node.isExpanded || children.length > 0;
+      return (
+        <li
+          key={node.id}
+          id={treeItemId(node.id)}
+          role="treeitem"
+          aria-label={node.isLoading ? `${node.label}, loading` : node.label}
+          aria-level={level}
+          aria-setsize={siblings.length}
+          aria-posinset={i + 1}
+          aria-selected={node.id === selectedNodeId}
+          aria-expanded={hasChildren ? !node.isCollapsed : undefined}
+        >
+          {node.label}
+          {hasChildren && !node.isCollapsed && children.length > 0 && <ul role="group">{renderItems(node.id, level + 1)}</ul>}
+        </li>
+      );
+    });
+
+  return (
+    <ul
+      role="tree"
+      aria-label={label}
+      tabIndex={0}
+      aria-activedescendant={selectedNodeId && visibleIds.has(selectedNodeId) ? treeItemId(selectedNodeId) : undefined}
+      onFocus={onFocus}
+      className="sr-only"
+    >
+      {renderItems(null, 1)}
+    </ul>
+  );
+};
+
+// Node positions change every animation frame; the tree only needs to re-render when its shape does
+export const AccessibleTree = React.memo(AccessibleTreeView, (prev, next) =>
+  prev.structureKey === next.structureKey && prev.selectedNodeId === next.selectedNodeId && prev.label === next.label
+);
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { NodeAnnotations, ThoughtNode } from '../types';
+import { hasAnnotations, NODE_COLORS, NODE_STATUSES, parseTags } from '../services/annotationService';
+import { MarkdownNotes } from './MarkdownNotes';
+
+interface AnnotationPanelProps {
+  node: ThoughtNode;
+  /** Tags used elsewhere in the map, offered as suggestions */
+  allTags: string[];
+  onChange: (changes: NodeAnnotations) => void;
+}
+
+const sectionLabel = 'text-[8px] font-bold text-slate-400 uppercase tracking-widest';
+
+/**
+ * The user's own layer on a node: status, colour, tags and Markdown notes
+ */
+export const AnnotationPanel: React.FC<AnnotationPanelProps> = ({ node, allTags, onChange }) => {
+  const [isExpanded, setIsExpanded] = useState(hasAnnotations(node));
+  const [notesDraft, setNotesDraft] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const tags = node.tags || [];
+
+  const addTags = () => {
+    const added = parseTags([...tags, ...parseTags(tagInput)].join(','));
+    setTagInput('');
+    if (added.length !== tags.length) onChange({ tags: added });
+  };
+
+  const saveNotes = () => {
+    if (notesDraft !== null) onChange({ notes: notesDraft });
+    setNotesDraft(null);
+  };
+
+  return (
+    // Typing and selecting text here must not pan the canvas or close the panel
+    <div className="border-t border-slate-100 dark:border-slate-800 pt-3 mt-3" onClick={e => e.stopPropagation()} onMouseDown={e => e.stopPropagation()}>
+      <button onClick={() => setIsExpanded(!isExpanded)} className={`flex items-center justify-between w-full ${sectionLabel}`}>
+        <span>Your Annotations</span>
+        <svg className={`w-2.5 h-2.5 transition-transform ${isExpanded ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path d="M19 9l-7 7-7-7" /></svg>
+      </button>
+      {isExpanded && (
+        <div className="mt-2 space-y-2.5">
+          <div className="flex flex-wrap gap-1">
+            {NODE_STATUSES.map(status => (
+              <button
+                key={status.id}
+                onClick={() => onChange({ status: node.status === status.id ? undefined : status.id })}
+                aria-pressed={node.status === status.id}
+                className={`flex items-center space-x-1 px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-colors ${node.status === status.id ? 'bg-slate-900 dark:bg-white text-white dark:text-slate-900' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-blue-500'}`}
+              >
+                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: status.color }} />
+                <span>{status.label}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center space-x-1.5">
+            {NODE_COLORS.map(color => (
+              <button
+                key={color.value}
+                onClick={() => onChange({ color: node.color === color.value ? undefined : color.value })}
+                title={color.label}
+                aria-label={`Colour ${color.label}`}
+                aria-pressed={node.color === color.value}
+                className={`w-4 h-4 rounded-full transition-transform hover:scale-110 ${node.color === color.value ? 'ring-2 ring-offset-2 ring-slate-400 dark:ring-offset-[#0f172a]' : ''}`}
+                style={{ backgroundColor: color.value }}
+              />
+            ))}
+            {node.color && <button onClick={() => onChange({ color: undefined })} className="text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500">Clear</button>}
+          </div>
+
+          <div>
+            <div className="flex flex-wrap gap-1 items-center">
+              {tags.map(tag => (
+                <span key={tag} className="flex items-center px-1.5 py-0.5 rounded-md bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-300 text-[9px] font-bold">
+                  #{tag}
+                  <button onClick={() => onChange({ tags: tags.filter(t => t !== tag) })} aria-label={`Remove tag ${tag}`} className="ml-1 text-blue-400 hover:text-red-500">×</button>
+                </span>
+              ))}
+              <input
+                list={`tag-suggestions-${node.id}`}
+                value={tagInput}
+                onChange={e => setTagInput(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); addTags(); } }}
+                onBlur={() => { if (tagInput.trim()) addTags(); }}
+                placeholder="Add tag..."
+                className="flex-1 min-w-[70px] bg-transparent text-[10px] font-semibold outline-none text-slate-700 dark:text-slate-200 placeholder:text-slate-400"
+              />
+              <datalist id={`tag-suggestions-${node.id}`}>
+                {allTags.filter(t => !tags.includes(t)).map(t => <option key={t} value={t} />)}
+              </datalist>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className={sectionLabel}>Notes</span>
+              {notesDraft === null && <button onClick={() => setNotesDraft(node.notes || '')} className="text-[8px] font-black uppercase tracking-widest text-blue-500 hover:text-blue-600">{node.notes ? 'Edit' : 'Add'}</button>}
+            </div>
+            {notesDraft !== null ? (
+              <>
+                <textarea
+                  autoFocus
+                  rows={5}
+                  value={notesDraft}
+                  onChange={e => setNotesDraft(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) saveNotes();
+                    if (e.key === 'Escape') setNotesDraft(null);
+                  }}
+                  placeholder="Markdown: **bold**, *italic*, - lists, [links](https://...)"
+                  className="w-full bg-slate-100 dark:bg-slate-800 rounded-xl px-3 py-2 text-[11px] font-medium outline-none focus:ring-2 focus:ring-blue-500/40 text-slate-900 dark:text-white resize-y"
+                />
+                <div className="flex justify-end space-x-2 mt-1">
+                  <button onClick={() => setNotesDraft(null)} className="px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600">Cancel</button>
+                  <button onClick={saveNotes} className="px-2.5 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500">Save</button>
+                </div>
+              </>
+            ) : node.notes ? (
+              <div className="text-[11px] text-slate-700 dark:text-slate-200 leading-relaxed max-h-40 overflow-y-auto pr-1"><MarkdownNotes text={node.notes} /></div>
+            ) : null}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
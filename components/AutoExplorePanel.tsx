@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { AutoExploreOptions, AutoExploreProgress, AutoExploreSetup, DEFAULT_AUTO_EXPLORE, MIN_RELEVANCE } from '../services/autoExploreService';
+
+interface AutoExplorePanelProps {
+  nodeLabel: string;
+  /** Null until the job has started */
+  progress: AutoExploreProgress | null;
+  /** What the running job was started with, after the map's depth limit */
+  options: AutoExploreOptions | null;
+  /** Children each branch adds, from the map's generation settings */
+  childrenPerBranch: number;
+  onStart: (setup: AutoExploreSetup) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const sectionLabel = 'block text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5';
+const inputClass = 'w-full bg-slate-100 dark:bg-slate-800 rounded-xl px-3 py-2 text-[12px] font-semibold outline-none focus:ring-2 focus:ring-blue-500/40 text-slate-900 dark:text-white';
+const buttonClass = 'px-2.5 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-colors';
+
+const FIELDS: { key: 'maxDepth' | 'maxNodes' | 'concurrency' | 'maxCalls'; label: string; min: number; max: number }[] = [
+  { key: 'maxDepth', label: 'Levels', min: 1, max: 6 },
+  { key: 'maxNodes', label: 'Max nodes', min: 1, max: 500 },
+  { key: 'concurrency', label: 'Parallel branches', min: 1, max: 4 },
+  { key: 'maxCalls', label: 'Call budget', min: 1, max: 200 }
+];
+
+const STATE_LABELS: Record<AutoExploreProgress['state'], string> = { running: 'Exploring', paused: 'Paused', done: 'Finished', cancelled: 'Cancelled' };
+
+/**
+ * Sets up a breadth-first auto-explore from a node, then follows the job's progress
+ */
+export const AutoExplorePanel: React.FC<AutoExplorePanelProps> = ({ nodeLabel, progress, options, childrenPerBranch, onStart, onPause, onResume, onCancel, onClose }) => {
+  const [setup, setSetup] = useState<AutoExploreSetup>(DEFAULT_AUTO_EXPLORE);
+  const isActive = progress?.state === 'running' || progress?.state === 'paused';
+  const limits = options || setup;
+
+  const start = () => {
+    const clamped = { ...setup };
+    FIELDS.forEach(f => { clamped[f.key] = Math.min(f.max, Math.max(f.min, Math.round(setup[f.key]) || f.min)); });
+    onStart(clamped);
+  };
+
+  return (
+    <div role="region" aria-label={`Auto-explore ${nodeLabel}`} className="fixed bottom-28 md:bottom-8 left-1/2 -translate-x-1/2 z-[3000] w-[calc(100vw-48px)] max-w-sm bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-4 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop space-y-3 pointer-events-auto" onClick={e => e.stopPropagation()} onMouseDown={e => e.stopPropagation()}>
+      <div className="flex items-start justify-between">
+        <div className="min-w-0">
+          <span className="text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">Auto-Explore{progress ? ` · ${STATE_LABELS[progress.state]}` : ''}</span>
+          <p className="text-[13px] font-bold text-slate-900 dark:text-white truncate">{nodeLabel}</p>
+        </div>
+        {!isActive && (
+          <button onClick={onClose} aria-label="Close auto-explore" className="p-1.5 rounded-lg text-slate-400 hover:text-slate-600 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-white/5">
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        )}
+      </div>
+
+      {!progress ? (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            {FIELDS.map(f => (
+              <label key={f.key} className="block">
+                <span className={sectionLabel}>{f.label}</span>
+                <input type="number" className={inputClass} min={f.min} max={f.max} value={setup[f.key]} onChange={e => setSetup({ ...setup, [f.key]: Number(e.target.value) })} />
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center justify-between cursor-pointer">
+            <span className="text-[11px] font-bold text-slate-600 dark:text-slate-300" title={`The fast model scores each new node 1–5; below ${MIN_RELEVANCE} it is kept but not explored`}>Stop weak branches (relevance check)</span>
+            <input type="checkbox" className="w-4 h-4 accent-blue-600" checked={setup.relevanceFilter} onChange={e => setSetup({ ...setup, relevanceFilter: e.target.checked })} />
+          </label>
+          <p className="text-[10px] text-slate-500 dark:text-slate-400 leading-snug">
+            Branches breadth-first, {childrenPerBranch} {childrenPerBranch === 1 ? 'child' : 'children'} at a time, and stops at whichever limit comes first.
+          </p>
+          <div className="flex justify-end space-x-2">
+            <button onClick={onClose} className={`${buttonClass} text-slate-400 hover:text-slate-600`}>Cancel</button>
+            <button onClick={start} className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-500`}>Start</button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="h-1.5 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={limits.maxNodes} aria-valuenow={progress.added}>
+            <div className={`h-full rounded-full transition-all ${progress.state === 'cancelled' ? 'bg-slate-400' : 'bg-blue-600'}`} style={{ width: `${Math.min(100, (progress.added / limits.maxNodes) * 100)}%` }} />
+          </div>
+          <dl className="grid grid-cols-3 gap-2 text-center" aria-live="polite">
+            {[
+              ['Nodes', `${progress.added}/${limits.maxNodes}`],
+              ['Levels', `${progress.depth}/${limits.maxDepth}`],
+              ['Calls', `${progress.calls}/${limits.maxCalls}`],
+              ['In flight', progress.inFlight],
+              ['Queued', progress.queued],
+              [limits.relevanceFilter ? 'Stopped weak' : 'Failed', limits.relevanceFilter ? progress.pruned : progress.failed]
+            ].map(([label, value]) => (
+              <div key={label} className="rounded-xl bg-slate-50 dark:bg-slate-800/60 py-1.5">
+                <dt className="text-[7px] font-bold text-slate-400 uppercase tracking-widest">{label}</dt>
+                <dd className="text-[12px] font-bold text-slate-800 dark:text-white">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          {progress.stopReason && <p className="text-[10px] font-semibold text-amber-600">{progress.stopReason}</p>}
+          <div className="flex justify-end space-x-2">
+            {isActive ? (
+              <>
+                <button onClick={onCancel} className={`${buttonClass} bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-red-500`}>Cancel</button>
+                {progress.state === 'paused'
+                  ? <button onClick={onResume} className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-500`}>Resume</button>
+                  : <button onClick={onPause} className={`${buttonClass} bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-blue-600`}>Pause</button>}
+              </>
+            ) : (
+              <button onClick={onClose} className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-500`}>Close</button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  /** Shown as a hint only; the palette does not bind it */
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-100 dark:bg-slate-800 rounded-xl px-3 py-2.5 text-[13px] font-semibold outline-none focus:ring-2 focus:ring-blue-500/40 text-slate-900 dark:text-white';
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = commands.filter(c => words.every(w => `${c.group} ${c.label}`.toLowerCase().includes(w)));
+  const active = Math.min(activeIndex, Math.max(0, matches.length - 1));
+  const activeId = matches[active]?.id;
+
+  useEffect(() => {
+    if (activeId) document.getElementById(`command-${activeId}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeId]);
+
+  const run = (command: PaletteCommand) => {
+    onClose();
+    command.run();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (matches.length > 0) setActiveIndex((active + (e.key === 'ArrowDown' ? 1 : matches.length - 1)) % matches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (matches[active]) run(matches[active]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-start justify-center bg-slate-950/60 dark:bg-black/80 p-6 pt-[15vh]" onClick={onClose}>
+      <div role="dialog" aria-modal="true" aria-label="Command palette" className="w-full max-w-md bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-3 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop space-y-2" onClick={e => e.stopPropagation()} onKeyDown={onKeyDown}>
+        <input
+          autoFocus
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-list"
+          aria-activedescendant={activeId ? `command-${activeId}` : undefined}
+          className={inputClass}
+          value={query}
+          onChange={e => { setQuery(e.target.value); setActiveIndex(0); }}
+          placeholder="Type a command..."
+        />
+        <ul id="command-palette-list" role="listbox" aria-label="Commands" className="max-h-80 overflow-y-auto space-y-0.5">
+          {matches.length === 0 && <li className="py-6 text-center text-slate-400 text-[11px] font-bold uppercase tracking-widest">No matching commands</li>}
+          {matches.map((command, i) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              role="option"
+              aria-selected={i === active}
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={() => run(command)}
+              className={`flex items-center justify-between px-3 py-2 rounded-xl cursor-pointer transition-colors ${i === active ? 'bg-blue-50 dark:bg-blue-500/15 text-blue-700 dark:text-blue-300' : 'text-slate-600 dark:text-slate-300'}`}
+            >
+              <span className="text-[12px] font-bold truncate"><span className="text-slate-400 font-semibold">{command.group} · </span>{command.label}</span>
+              {command.shortcut && <kbd className="ml-2 flex-shrink-0 px-1.5 py-0.5 rounded-md bg-slate-100 dark:bg-slate-800 text-[9px] font-black text-slate-400">{command.shortcut}</kbd>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
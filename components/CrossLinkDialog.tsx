@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+
+interface CrossLinkDialogProps {
+  fromLabel: string;
+  toLabel: string;
+  initialLabel: string;
+  /** `create` for a new link, `review` for an AI suggestion, `edit` for an accepted link */
+  mode: 'create' | 'review' | 'edit';
+  onSave: (label: string) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-100 dark:bg-slate-800 rounded-xl px-3 py-2 text-[12px] font-semibold outline-none focus:ring-2 focus:ring-blue-500/40 text-slate-900 dark:text-white';
+
+const TITLES = { create: 'New Cross-Link', review: 'Suggested Cross-Link', edit: 'Cross-Link' };
+const SUBMIT_LABELS = { create: 'Link', review: 'Accept', edit: 'Save' };
+
+export const CrossLinkDialog: React.FC<CrossLinkDialogProps> = ({ fromLabel, toLabel, initialLabel, mode, onSave, onDelete, onClose }) => {
+  const [label, setLabel] = useState(initialLabel);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(label.trim());
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center bg-slate-950/60 dark:bg-black/80 p-6" onClick={onClose}>
+      <form onSubmit={submit} className="w-full max-w-sm bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-5 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop space-y-4" onClick={e => e.stopPropagation()} onKeyDown={e => { if (e.key === 'Escape') onClose(); }}>
+        <div className="text-[9px] font-black text-amber-600 dark:text-amber-400 uppercase tracking-widest">{TITLES[mode]}</div>
+        <div className="text-[12px] font-bold text-slate-700 dark:text-slate-200 leading-snug">{fromLabel} <span className="text-amber-500">↔</span> {toLabel}</div>
+        <label className="block">
+          <span className="block text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">Relationship</span>
+          <input autoFocus className={inputClass} value={label} onChange={e => setLabel(e.target.value)} placeholder="Optional, e.g. inspired by" />
+        </label>
+        <div className="flex space-x-2 pt-1">
+          {onDelete ? (
+            <button type="button" onClick={() => { onDelete(); onClose(); }} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-red-500 transition-colors">{mode === 'review' ? 'Dismiss' : 'Delete'}</button>
+          ) : (
+            <button type="button" onClick={onClose} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 transition-colors">Cancel</button>
+          )}
+          <button type="submit" className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-white hover:bg-amber-400 transition-colors">{SUBMIT_LABELS[mode]}</button>
+        </div>
+      </form>
+    </div>
+  );
+};
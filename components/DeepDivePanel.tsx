@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { DeepDiveSection, GroundingSource, ThoughtNode } from '../types';
+import { toCitedSpans } from '../services/groundingService';
+import { parseSections } from '../services/topicParser';
+
+interface DeepDivePanelProps {
+  node: ThoughtNode;
+  /** Descendants a whole-branch deep dive would cover */
+  subtreeSize: number;
+  /** Answer streamed so far while generating, null otherwise */
+  draft: string | null;
+  error: string | null;
+  onGenerate: (includeSubtree: boolean) => void;
+  onCancel: () => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const sectionLabel = 'text-[8px] font-bold text-slate-400 uppercase tracking-widest';
+
+const CitedBody: React.FC<{ section: DeepDiveSection; sources: GroundingSource[]; activeSource: number | null; onCite: (sourceIndex: number) => void }> = ({ section, sources, activeSource, onCite }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  toCitedSpans(section.citations || [], section.body.length).forEach((span, i) => {
+    const cited = span.sourceIndices.filter(idx => sources[idx]).sort((a, b) => a - b);
+    if (span.start > cursor) parts.push(section.body.slice(cursor, span.start));
+    parts.push(
+      <span key={`span-${i}`} className={`rounded-sm transition-colors ${activeSource !== null && cited.includes(activeSource) ? 'bg-blue-100 dark:bg-blue-500/30' : ''}`}>
+        {section.body.slice(span.start, span.end)}
+      </span>
+    );
+    cited.forEach(idx => parts.push(
+      <sup key={`cite-${i}-${idx}`} onClick={() => onCite(idx)} title={sources[idx].title} className={`ml-0.5 text-[9px] font-bold cursor-pointer hover:underline ${activeSource === idx ? 'text-blue-700 dark:text-blue-300' : 'text-blue-500'}`}>
+        [{idx + 1}]
+      </sup>
+    ));
+    cursor = span.end;
+  });
+  if (cursor < section.body.length) parts.push(section.body.slice(cursor));
+  return <p className="whitespace-pre-line">{parts}</p>;
+};
+
+/**
+ * Side reader for a node's deep dive: streams the write-up in, then shows it with inline
+ * citations against its source list
+ */
+export const DeepDivePanel: React.FC<DeepDivePanelProps> = ({ node, subtreeSize, draft, error, onGenerate, onCancel, onExport, onClose }) => {
+  const deepDive = node.deepDive;
+  const [includeSubtree, setIncludeSubtree] = useState(deepDive?.includesSubtree ?? false);
+  const [activeSource, setActiveSource] = useState<number | null>(null);
+  const isStreaming = draft !== null;
+  const sections = isStreaming ? parseSections(draft) : deepDive?.sections || [];
+
+  useEffect(() => {
+    setIncludeSubtree(node.deepDive?.includesSubtree ?? false);
+    setActiveSource(null);
+  }, [node.id]);
+
+  useEffect(() => {
+    if (activeSource !== null) document.getElementById(`deep-dive-source-${activeSource}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeSource]);
+
+  return (
+    <aside
+      role="complementary"
+      aria-label={`Deep dive: ${node.label}`}
+      className="fixed top-0 right-0 bottom-0 w-full md:w-[440px] z-[4500] flex flex-col bg-white dark:bg-[#0f172a] border-l-2 border-slate-200 dark:border-slate-700 shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop"
+      onClick={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+      onWheel={e => e.stopPropagation()}
+    >
+      <div className="p-5 border-b border-slate-100 dark:border-slate-800 space-y-3">
+        <div className="flex items-start justify-between">
+          <div className="min-w-0">
+            <span className="text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">Deep Dive</span>
+            <h2 className="text-lg font-display font-bold text-slate-900 dark:text-white leading-tight truncate">{node.label}</h2>
+            {node.path.length > 1 && <p className="text-[10px] font-medium text-slate-400 truncate">{node.path.slice(0, -1).join(' → ')}</p>}
+          </div>
+          <button onClick={onClose} aria-label="Close deep dive" className="p-1.5 rounded-lg text-slate-400 hover:text-slate-600 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-white/5">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex bg-slate-100 dark:bg-slate-800 rounded-lg p-0.5" role="radiogroup" aria-label="Scope">
+            <button role="radio" aria-checked={!includeSubtree} disabled={isStreaming} onClick={() => setIncludeSubtree(false)} className={`px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-widest transition-colors ${!includeSubtree ? 'bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-300 shadow-sm' : 'text-slate-500'}`}>This node</button>
+            <button role="radio" aria-checked={includeSubtree} disabled={isStreaming || subtreeSize === 0} onClick={() => setIncludeSubtree(true)} title={subtreeSize === 0 ? 'This node has no branch yet' : undefined} className={`px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-widest transition-colors disabled:opacity-40 ${includeSubtree ? 'bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-300 shadow-sm' : 'text-slate-500'}`}>Whole branch{subtreeSize > 0 ? ` (${subtreeSize})` : ''}</button>
+          </div>
+          {isStreaming ? (
+            <button onClick={onCancel} className="px-2.5 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-red-500">Cancel</button>
+          ) : (
+            <button onClick={() => onGenerate(includeSubtree && subtreeSize > 0)} className="px-2.5 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500">{deepDive ? 'Regenerate' : 'Generate'}</button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-5" aria-busy={isStreaming}>
+        {error && <p role="alert" className="text-[11px] font-semibold text-red-500">{error}</p>}
+        {sections.length === 0 && !error && (
+          <p className="py-10 text-center text-slate-400 text-[11px] font-bold uppercase tracking-widest">
+            {isStreaming ? 'Researching...' : 'A sourced, multi-section write-up of this topic. Choose a scope and generate.'}
+          </p>
+        )}
+        {sections.map((section, i) => (
+          <section key={i} className="space-y-1.5">
+            <h3 className="text-[13px] font-display font-bold text-slate-900 dark:text-white">{section.heading}</h3>
+            <div className={`text-[12px] leading-relaxed font-medium text-slate-700 dark:text-slate-200 ${isStreaming && i === sections.length - 1 ? 'animate-pulse' : ''}`}>
+              {isStreaming
+                ? <p className="whitespace-pre-line">{section.body}</p>
+                : <CitedBody section={section} sources={deepDive?.sources || []} activeSource={activeSource} onCite={idx => setActiveSource(activeSource === idx ? null : idx)} />}
+            </div>
+          </section>
+        ))}
+        {!isStreaming && deepDive && deepDive.sources.length > 0 && (
+          <div className="border-t border-slate-100 dark:border-slate-800 pt-3 space-y-1">
+            <span className={sectionLabel}>Sources ({deepDive.sources.length})</span>
+            {deepDive.sources.map((s, i) => (
+              <a key={i} id={`deep-dive-source-${i}`} href={s.uri} target="_blank" rel="noopener noreferrer" className={`block text-[10px] text-blue-600 dark:text-blue-400 font-bold hover:underline py-0.5 px-1 -mx-1 rounded truncate ${activeSource === i ? 'bg-blue-50 dark:bg-blue-500/20' : ''}`}>
+                <span className="opacity-50 mr-2">[{i + 1}]</span>{s.title}
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!isStreaming && deepDive && (
+        <div className="px-5 py-3 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <span className={sectionLabel}>
+            {deepDive.includesSubtree ? 'Whole branch' : 'This node'}{deepDive.generatedAt ? ` · ${new Date(deepDive.generatedAt).toLocaleDateString()}` : ''}
+          </span>
+          <button onClick={onExport} className="px-2.5 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-blue-600">Export Markdown</button>
+        </div>
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { GenerationSettings } from '../types';
+import { ModelTier } from '../services/llmProvider';
+import { GENERATION_LIMITS, GENERATION_OPERATIONS, normalizeGenerationSettings } from '../services/generationSettingsService';
+
+interface GenerationSettingsDialogProps {
+  settings: GenerationSettings;
+  defaults: GenerationSettings;
+  /** The provider's model per tier, shown where an operation has no model of its own */
+  providerModels: Record<ModelTier, string>;
+  /** False on the start screen, where only the defaults can be edited */
+  hasMap: boolean;
+  onSave: (settings: GenerationSettings) => void;
+  onSaveDefaults: (settings: GenerationSettings) => void;
+  onClose: () => void;
+}
+
+const LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Polish', 'Japanese', 'Chinese', 'Korean', 'Hindi', 'Arabic'];
+
+const sectionLabel = 'block text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5';
+const inputClass = 'w-full bg-slate-100 dark:bg-slate-800 rounded-xl px-3 py-2 text-[12px] font-semibold outline-none focus:ring-2 focus:ring-blue-500/40 text-slate-900 dark:text-white';
+
+export const GenerationSettingsDialog: React.FC<GenerationSettingsDialogProps> = ({ settings, defaults, providerModels, hasMap, onSave, onSaveDefaults, onClose }) => {
+  const [draft, setDraft] = useState<GenerationSettings>(settings);
+  const update = (changes: Partial<GenerationSettings>) => setDraft({ ...draft, ...changes });
+  const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+  const finish = (save: (settings: GenerationSettings) => void) => {
+    save(normalizeGenerationSettings(draft, settings));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center bg-slate-950/60 dark:bg-black/80 p-6" onClick={onClose}>
+      <div className="w-full max-w-sm max-h-full overflow-y-auto bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-5 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div className="text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">{hasMap ? 'Generation: This Map' : 'Generation: Defaults'}</div>
+          <button onClick={() => setDraft(defaults)} className="text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-500">Reset to defaults</button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className={sectionLabel}>Children per branch</span>
+            <input type="number" className={inputClass} min={GENERATION_LIMITS.branchCount.min} max={GENERATION_LIMITS.branchCount.max} value={draft.branchCount} onChange={e => update({ branchCount: Number(e.target.value) })} />
+          </label>
+          <label className="block">
+            <span className={sectionLabel}>Max depth</span>
+            <input type="number" className={inputClass} min={GENERATION_LIMITS.maxDepth.min} max={GENERATION_LIMITS.maxDepth.max} value={draft.maxDepth || ''} placeholder="No limit" onChange={e => update({ maxDepth: toNumber(e.target.value) ?? 0 })} />
+          </label>
+          <label className="block">
+            <span className={sectionLabel}>Temperature</span>
+            <input type="number" className={inputClass} min={GENERATION_LIMITS.temperature.min} max={GENERATION_LIMITS.temperature.max} step={0.1} value={draft.temperature ?? ''} placeholder="Model default" onChange={e => update({ temperature: toNumber(e.target.value) })} />
+          </label>
+          <label className="block">
+            <span className={sectionLabel}>Thinking budget</span>
+            <input type="number" className={inputClass} min={GENERATION_LIMITS.thinkingBudget.min} max={GENERATION_LIMITS.thinkingBudget.max} step={500} value={draft.thinkingBudget || ''} placeholder="Off" title="Thinking tokens for deep-reasoning branches (+)" onChange={e => update({ thinkingBudget: toNumber(e.target.value) ?? 0 })} />
+          </label>
+        </div>
+
+        <label className="block">
+          <span className={sectionLabel}>Output language</span>
+          <input list="generation-languages" className={inputClass} maxLength={GENERATION_LIMITS.language.maxLength} value={draft.language} placeholder="Model default" onChange={e => update({ language: e.target.value })} />
+          <datalist id="generation-languages">
+            {LANGUAGES.map(l => <option key={l} value={l} />)}
+          </datalist>
+        </label>
+
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="text-[11px] font-bold text-slate-600 dark:text-slate-300">Search grounding</span>
+          <input type="checkbox" className="w-4 h-4 accent-blue-600" checked={draft.useSearch} onChange={e => update({ useSearch: e.target.checked })} />
+        </label>
+
+        <div className="space-y-2">
+          <span className={sectionLabel}>Model per operation</span>
+          {GENERATION_OPERATIONS.map(op => (
+            <label key={op.id} className="flex items-center space-x-2">
+              <span className="w-24 flex-shrink-0 text-[10px] font-bold text-slate-500 dark:text-slate-400">{op.label}</span>
+              <input className={inputClass} value={draft.models[op.id] || ''} placeholder={providerModels[op.tier]} onChange={e => update({ models: { ...draft.models, [op.id]: e.target.value } })} />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex space-x-2 pt-1">
+          <button onClick={onClose} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 transition-colors">Cancel</button>
+          <button onClick={() => finish(onSaveDefaults)} title={hasMap ? 'Apply to this map and use for new maps' : undefined} className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-colors ${hasMap ? 'bg-slate-100 dark:bg-slate-800 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-500/10' : 'bg-blue-600 text-white hover:bg-blue-500'}`}>Save as Default</button>
+          {hasMap && <button onClick={() => finish(onSave)} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500 transition-colors">Save</button>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef } from 'react';
+import { Edge, ThoughtNode } from '../types';
+
+type Point = { x: number; y: number };
+
+interface GraphCanvasProps {
+  nodesById: Map<string, ThoughtNode>;
+  /** Edges to draw; both ends must be in `nodesById` */
+  edges: Edge[];
+  /** Nodes drawn as dots instead of full cards when zoomed far out */
+  dots: ThoughtNode[];
+  viewport: { x: number; y: number; width: number; height: number };
+  zoom: number;
+  theme: 'dark' | 'light';
+  selectedNodeId: string | null;
+  activeLevel: number;
+  /** Search matches; when set, every other dot is dimmed */
+  matchIds?: Set<string> | null;
+  onSelectLink: (edge: Edge) => void;
+}
+
+/** Length of one pulse sweep along a newly grown edge */
+const PULSE_DURATION = 2500;
+const DOT_RADIUS = 4;
+
+/**
+ * Control points of the vertical bezier between two node centres
+ */
+const getConnectionCurve = (from: Point, to: Point) => {
+  const verticalDist = Math.abs(from.y - to.y);
+  return { cp1: { x: from.x, y: from.y - verticalDist * 0.4 }, cp2: { x: to.x, y: to.y + verticalDist * 0.4 } };
+};
+
+/**
+ * Vertical bezier between two node centres, shared with the image exporter
+ */
+export const getConnectionPath = (from: Point, to: Point) => {
+  const { cp1, cp2 } = getConnectionCurve(from, to);
+  return `M ${from.x} ${from.y} C ${cp1.x} ${cp1.y}, ${cp2.x} ${cp2.y}, ${to.x} ${to.y}`;
+};
+
+/**
+ * Cross-links bow sideways so they never run along a hierarchy line
+ */
+const getCrossLinkCurve = (from: Point, to: Point) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const control = { x: (from.x + to.x) / 2 - dy * 0.2, y: (from.y + to.y) / 2 + dx * 0.2 };
+  return { control, mid: { x: (from.x + 2 * control.x + to.x) / 4, y: (from.y + 2 * control.y + to.y) / 4 } };
+};
+
+/**
+ * SVG path of a cross-link and its midpoint, where the label sits
+ */
+export const getCrossLinkPath = (from: Point, to: Point) => {
+  const { control, mid } = getCrossLinkCurve(from, to);
+  return { path: `M ${from.x} ${from.y} Q ${control.x} ${control.y}, ${to.x} ${to.y}`, mid };
+};
+
+export const getCrossLinkColor = (theme: 'dark' | 'light') => theme === 'dark' ? 'rgba(251, 191, 36, 0.85)' : 'rgba(217, 119, 6, 0.8)';
+
+export const getConnectionColors = (theme: 'dark' | 'light') => ({
+  startColor: theme === 'dark' ? 'rgba(59, 130, 246, 0.6)' : 'rgba(37, 99, 235, 0.45)',
+  endColor: theme === 'dark' ? 'rgba(147, 51, 234, 0.8)' : 'rgba(126, 34, 206, 0.6)',
+  /** Halfway between the two, for edges drawn in one batch without per-edge gradients */
+  midColor: theme === 'dark' ? 'rgba(103, 90, 240, 0.7)' : 'rgba(82, 67, 221, 0.53)'
+});
+
+const traceConnection = (ctx: CanvasRenderingContext2D, from: Point, to: Point) => {
+  const { cp1, cp2 } = getConnectionCurve(from, to);
+  ctx.moveTo(from.x, from.y);
+  ctx.bezierCurveTo(cp1.x, cp1.y, cp2.x, cp2.y, to.x, to.y);
+};
+
+const traceCrossLink = (ctx: CanvasRenderingContext2D, from: Point, to: Point) => {
+  const { control } = getCrossLinkCurve(from, to);
+  ctx.moveTo(from.x, from.y);
+  ctx.quadraticCurveTo(control.x, control.y, to.x, to.y);
+};
+
+const draw = (ctx: CanvasRenderingContext2D, props: GraphCanvasProps, dpr: number, time: number) => {
+  const { nodesById, edges, dots, viewport, zoom, theme, selectedNodeId, activeLevel, matchIds } = props;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  // Draw in world coordinates, like the DOM layer the canvas sits in
+  ctx.setTransform(dpr * zoom, 0, 0, dpr * zoom, -viewport.x * dpr, -viewport.y * dpr);
+  ctx.lineCap = 'round';
+
+  const colors = getConnectionColors(theme);
+  const tree: [ThoughtNode, ThoughtNode][] = [];
+  const active: [ThoughtNode, ThoughtNode][] = [];
+  const links: { from: ThoughtNode; to: ThoughtNode; edge: Edge }[] = [];
+  edges.forEach(edge => {
+    const from = nodesById.get(edge.from)!;
+    const to = nodesById.get(edge.to)!;
+    if (edge.kind === 'cross') links.push({ from, to, edge });
+    else if (selectedNodeId === from.id || selectedNodeId === to.id) active.push([from, to]);
+    else tree.push([from, to]);
+  });
+
+  // Resting tree edges share one path and one stroke
+  ctx.globalAlpha = theme === 'dark' ? 0.3 : 0.4;
+  ctx.strokeStyle = colors.midColor;
+  ctx.lineWidth = 1.2;
+  ctx.beginPath();
+  tree.forEach(([from, to]) => traceConnection(ctx, from.position, to.position));
+  ctx.stroke();
+
+  ctx.globalAlpha = 1;
+  active.forEach(([from, to]) => {
+    ctx.strokeStyle = theme === 'dark' ? 'rgba(59, 130, 246, 0.3)' : 'rgba(37, 99, 235, 0.2)';
+    ctx.lineWidth = 8;
+    ctx.beginPath();
+    traceConnection(ctx, from.position, to.position);
+    ctx.stroke();
+    const gradient = ctx.createLinearGradient(from.position.x, from.position.y, to.position.x, to.position.y);
+    gradient.addColorStop(0, colors.startColor);
+    gradient.addColorStop(1, colors.endColor);
+    ctx.strokeStyle = gradient;
+    ctx.lineWidth = 2.5;
+    ctx.stroke();
+  });
+
+  // A light pulse runs along freshly grown edges
+  ctx.strokeStyle = theme === 'dark' ? 'rgba(255, 255, 255, 0.7)' : 'rgba(37, 99, 235, 0.6)';
+  ctx.lineWidth = 2.5;
+  ctx.setLineDash([60, 1200]);
+  const phase = (time % PULSE_DURATION) / PULSE_DURATION;
+  ctx.lineDashOffset = 1260 * (1 - phase);
+  ctx.globalAlpha = 0.15 * Math.min(1, phase / 0.1, (1 - phase) / 0.1);
+  ctx.beginPath();
+  [...tree, ...active].forEach(([from, to]) => { if (to.isNew) traceConnection(ctx, from.position, to.position); });
+  ctx.stroke();
+  ctx.lineDashOffset = 0;
+
+  ctx.strokeStyle = getCrossLinkColor(theme);
+  [false, true].forEach(suggested => {
+    ctx.setLineDash(suggested ? [2, 5] : [8, 5]);
+    ctx.globalAlpha = suggested ? 0.45 : 0.7;
+    ctx.lineWidth = 1.6;
+    ctx.beginPath();
+    links.forEach(({ from, to, edge }) => { if (!!edge.isSuggested === suggested) traceCrossLink(ctx, from.position, to.position); });
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+
+  // Far-away nodes as dots, dimmed like their cards while another node is selected or a search dims them
+  const dotRadius = DOT_RADIUS / zoom;
+  const batches = new Map<string, ThoughtNode[]>();
+  dots.forEach(n => {
+    const color = matchIds?.has(n.id) ? '#f59e0b' : n.level === activeLevel ? '#3b82f6' : theme === 'dark' ? '#64748b' : '#94a3b8';
+    const alpha = selectedNodeId || (matchIds && !matchIds.has(n.id)) ? 0.2 : 1;
+    const key = `${color}|${alpha}`;
+    const batch = batches.get(key);
+    if (batch) batch.push(n); else batches.set(key, [n]);
+  });
+  batches.forEach((batch, key) => {
+    const [color, alpha] = key.split('|');
+    ctx.fillStyle = color;
+    ctx.globalAlpha = Number(alpha);
+    ctx.beginPath();
+    batch.forEach(n => {
+      ctx.moveTo(n.position.x + dotRadius, n.position.y);
+      ctx.arc(n.position.x, n.position.y, dotRadius, 0, Math.PI * 2);
+    });
+    ctx.fill();
+  });
+  ctx.globalAlpha = 1;
+};
+
+/**
+ * All edges, plus low-detail nodes, drawn on one viewport-sized canvas. The canvas lives in the
+ * zoomed world layer but its backing store matches the screen, so lines stay sharp at any zoom.
+ * Cross-links keep small DOM handles so they can still be clicked.
+ */
+export const GraphCanvas: React.FC<GraphCanvasProps> = (props) => {
+  const { nodesById, edges, viewport, zoom, onSelectLink } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dpr = window.devicePixelRatio || 1;
+  const isPulsing = edges.some(e => e.kind !== 'cross' && nodesById.get(e.to)?.isNew);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    draw(ctx, props, dpr, performance.now());
+    if (!isPulsing) return;
+    let frame = requestAnimationFrame(function tick(time) {
+      draw(ctx, props, dpr, time);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  });
+
+  const crossLinks = edges.filter(e => e.kind === 'cross');
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={Math.round(viewport.width * dpr)}
+        height={Math.round(viewport.height * dpr)}
+        className="absolute pointer-events-none"
+        style={{ left: viewport.x / zoom, top: viewport.y / zoom, width: viewport.width / zoom, height: viewport.height / zoom, zIndex: 0 }}
+      />
+      {crossLinks.map(edge => {
+        const { mid } = getCrossLinkCurve(nodesById.get(edge.from)!.position, nodesById.get(edge.to)!.position);
+        const text = edge.isSuggested ? `${edge.label || 'related'} ?` : edge.label;
+        return (
+          <button
+            key={edge.id}
+            onClick={(e) => { e.stopPropagation(); onSelectLink(edge); }}
+            onMouseDown={(e) => e.stopPropagation()}
+            title={text || 'Cross-link'}
+            className={`absolute -translate-x-1/2 -translate-y-1/2 z-[1] rounded-full font-bold transition-opacity ${text ? 'px-1.5 py-0.5 text-[9px] bg-white/90 dark:bg-[#030712]/90 border border-amber-500/40 text-amber-600 dark:text-amber-400' : 'w-2.5 h-2.5 bg-amber-500'} ${edge.isSuggested ? 'opacity-60 hover:opacity-100' : ''}`}
+            style={{ left: mid.x, top: mid.y }}
+          >
+            {text}
+          </button>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ImageExportScope } from '../services/imageExportService';
+
+interface ImageExportDialogProps {
+  hasSelection: boolean;
+  onExport: (format: 'svg' | 'png', scope: ImageExportScope, scale: number) => Promise<void>;
+  onClose: () => void;
+}
+
+const SCOPES: { value: ImageExportScope; label: string }[] = [
+  { value: 'map', label: 'Whole map' },
+  { value: 'viewport', label: 'Current viewport' },
+  { value: 'subtree', label: 'Selected subtree' }
+];
+
+const SCALES = [1, 2, 3];
+
+const Segmented = <T extends string | number>({ options, value, onChange, disabled }: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: (value: T) => boolean;
+}) => (
+  <div className="flex bg-slate-100 dark:bg-slate-800 rounded-xl p-1 space-x-1">
+    {options.map(option => (
+      <button
+        key={String(option.value)}
+        disabled={disabled?.(option.value)}
+        onClick={() => onChange(option.value)}
+        className={`flex-1 px-2 py-1.5 rounded-lg text-[10px] font-bold transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${value === option.value ? 'bg-white dark:bg-slate-900 text-blue-600 dark:text-blue-400 shadow' : 'text-slate-500 hover:text-blue-500'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export const ImageExportDialog: React.FC<ImageExportDialogProps> = ({ hasSelection, onExport, onClose }) => {
+  const [format, setFormat] = useState<'svg' | 'png'>('png');
+  const [scope, setScope] = useState<ImageExportScope>(hasSelection ? 'subtree' : 'map');
+  const [scale, setScale] = useState(2);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(format, scope, scale);
+      onClose();
+    } catch (err) {
+      setError((err instanceof Error ? err.message : String(err)) || 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center bg-slate-950/60 dark:bg-black/80 p-6" onClick={onClose}>
+      <div className="w-full max-w-sm bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-5 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">Export Image</div>
+        <div>
+          <div className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">Format</div>
+          <Segmented options={[{ value: 'png', label: 'PNG' }, { value: 'svg', label: 'SVG' }]} value={format} onChange={setFormat} />
+        </div>
+        <div>
+          <div className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">Area</div>
+          <Segmented options={SCOPES} value={scope} onChange={setScope} disabled={(v) => v === 'subtree' && !hasSelection} />
+        </div>
+        {format === 'png' && (
+          <div>
+            <div className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">Scale</div>
+            <Segmented options={SCALES.map(s => ({ value: s, label: `${s}x` }))} value={scale} onChange={setScale} />
+          </div>
+        )}
+        {error && <div className="text-[11px] font-bold text-red-500">{error}</div>}
+        <button onClick={runExport} disabled={isExporting} className="w-full py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 transition-colors">
+          {isExporting ? 'Rendering...' : 'Download'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { MapImportIssue } from '../services/mapFileService';
+
+interface ImportReportProps {
+  title: string;
+  importedCount: number;
+  rejected: MapImportIssue[];
+  warnings: MapImportIssue[];
+  onClose: () => void;
+}
+
+const IssueList: React.FC<{ issues: MapImportIssue[]; tone: 'red' | 'amber' }> = ({ issues, tone }) => (
+  <ul className="space-y-1">
+    {issues.map((issue, i) => (
+      <li key={i} className="text-[11px] leading-snug text-slate-600 dark:text-slate-300">
+        <span className={`font-black uppercase tracking-widest text-[8px] mr-1.5 ${tone === 'red' ? 'text-red-500' : 'text-amber-500'}`}>{issue.kind} #{issue.index}</span>
+        {issue.id && <span className="font-mono text-[10px] text-slate-400 mr-1.5">{issue.id}</span>}
+        {issue.reason}
+      </li>
+    ))}
+  </ul>
+);
+
+export const ImportReport: React.FC<ImportReportProps> = ({ title, importedCount, rejected, warnings, onClose }) => (
+  <div className="fixed inset-0 z-[5000] flex items-center justify-center bg-slate-950/60 dark:bg-black/80 p-6" onClick={onClose}>
+    <div className="w-full max-w-md bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-5 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop" onClick={e => e.stopPropagation()}>
+      <div className="text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest mb-1">Import Report</div>
+      <div className="text-sm font-bold text-slate-800 dark:text-white mb-3 truncate">{title}</div>
+      <div className="text-[11px] font-medium text-slate-500 dark:text-slate-400 mb-4">
+        Imported {importedCount} thoughts. {rejected.length} record{rejected.length === 1 ? ' was' : 's were'} rejected.
+      </div>
+      <div className="max-h-64 overflow-y-auto pr-1 space-y-4">
+        {rejected.length > 0 && (
+          <div>
+            <div className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">Rejected</div>
+            <IssueList issues={rejected} tone="red" />
+          </div>
+        )}
+        {warnings.length > 0 && (
+          <div>
+            <div className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">Repaired</div>
+            <IssueList issues={warnings} tone="amber" />
+          </div>
+        )}
+      </div>
+      <button onClick={onClose} className="mt-5 w-full py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500 transition-colors">Continue</button>
+    </div>
+  </div>
+);
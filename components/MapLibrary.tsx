@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { SavedMapSummary } from '../types';
+
+interface MapLibraryProps {
+  maps: SavedMapSummary[];
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatEdited = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export const MapLibrary: React.FC<MapLibraryProps> = ({ maps, onOpen, onRename, onDuplicate, onDelete }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  if (maps.length === 0) return null;
+
+  const submitRename = (id: string) => {
+    if (renameValue.trim()) onRename(id, renameValue.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="mt-10 max-w-md mx-auto text-left">
+      <div className="mb-3 px-2 text-[10px] font-black uppercase tracking-widest text-slate-400">Saved Maps ({maps.length})</div>
+      <div className="max-h-64 overflow-y-auto space-y-2 pr-1">
+        {maps.map(map => (
+          <div key={map.id} className="group flex items-center bg-white/80 dark:bg-slate-900/80 border border-slate-200 dark:border-slate-800 rounded-2xl px-4 py-3 shadow-lg transition-all hover:border-blue-500/50">
+            {renamingId === map.id ? (
+              <form onSubmit={(e) => { e.preventDefault(); submitRename(map.id); }} className="flex-grow mr-2">
+                <input type="text" autoFocus value={renameValue} onChange={e => setRenameValue(e.target.value)} onBlur={() => submitRename(map.id)} className="w-full bg-transparent border-b border-blue-500 text-[13px] font-bold outline-none text-slate-900 dark:text-white" />
+              </form>
+            ) : (
+              <button onClick={() => onOpen(map.id)} className="flex-grow min-w-0 text-left mr-2">
+                <div className="text-[13px] font-bold text-slate-800 dark:text-slate-100 truncate group-hover:text-blue-500">{map.title}</div>
+                <div className="text-[9px] font-bold uppercase tracking-widest text-slate-400 truncate">
+                  {map.title !== map.rootLabel && <span>{map.rootLabel} · </span>}
+                  {map.nodeCount} thoughts · {formatEdited(map.updatedAt)}
+                </div>
+              </button>
+            )}
+            {confirmDeleteId === map.id ? (
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <button onClick={() => { onDelete(map.id); setConfirmDeleteId(null); }} className="px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-red-500 text-white hover:bg-red-400 transition-colors">Delete</button>
+                <button onClick={() => setConfirmDeleteId(null)} className="px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 transition-colors">Keep</button>
+              </div>
+            ) : (
+              <div className="flex items-center space-x-1 flex-shrink-0 opacity-60 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => { setRenamingId(map.id); setRenameValue(map.title); }} className="p-1.5 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 hover:text-blue-500 transition-colors" title="Rename">
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 8 18l1-4.5z" /></svg>
+                </button>
+                <button onClick={() => onDuplicate(map.id)} className="p-1.5 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 hover:text-blue-500 transition-colors" title="Duplicate">
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                </button>
+                <button onClick={() => setConfirmDeleteId(map.id)} className="p-1.5 rounded-full hover:bg-red-50 dark:hover:bg-red-900/20 text-slate-400 hover:text-red-500 transition-colors" title="Delete">
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
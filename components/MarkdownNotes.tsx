@@ -0,0 +1,66 @@
+import React from 'react';
+
+const INLINE = /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+const HEADING = /^#{1,6}\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(INLINE).map((part, i) => {
+    if (i % 2 === 0) return part;
+    if (part.startsWith('**')) return <strong key={i}>{part.slice(2, -2)}</strong>;
+    if (part.startsWith('`')) return <code key={i} className="px-1 rounded bg-slate-100 dark:bg-slate-800 text-[0.9em]">{part.slice(1, -1)}</code>;
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      // Only web links; anything else (javascript:, data:) stays plain text
+      return /^https?:\/\//i.test(link[2])
+        ? <a key={i} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{link[1]}</a>
+        : link[1];
+    }
+    return <em key={i}>{part.slice(1, -1)}</em>;
+  });
+
+/**
+ * The Markdown subset people use in quick notes: paragraphs, headings, lists, bold, italics,
+ * code and links. Built as React elements, so note text is never injected as HTML.
+ */
+export const MarkdownNotes: React.FC<{ text: string }> = ({ text }) => {
+  const blocks: React.ReactNode[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push(<p key={blocks.length}>{renderInline(paragraph.join(' '))}</p>);
+    if (list) {
+      const items = list.items.map((item, i) => <li key={i}>{renderInline(item)}</li>);
+      blocks.push(list.ordered
+        ? <ol key={blocks.length} className="list-decimal pl-4">{items}</ol>
+        : <ul key={blocks.length} className="list-disc pl-4">{items}</ul>);
+    }
+    paragraph = [];
+    list = null;
+  };
+
+  text.split('\n').forEach(line => {
+    const heading = line.match(HEADING);
+    const bullet = line.match(BULLET);
+    const numbered = line.match(NUMBERED);
+    if (!line.trim()) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push(<p key={blocks.length} className="font-bold">{renderInline(heading[1])}</p>);
+    } else if (bullet || numbered) {
+      const ordered = !bullet;
+      if (paragraph.length > 0 || (list && list.ordered !== ordered)) flush();
+      list = list || { ordered, items: [] };
+      list.items.push((bullet || numbered)![1]);
+    } else {
+      if (list) flush();
+      paragraph.push(line.trim());
+    }
+  });
+  flush();
+
+  return <div className="space-y-1.5 break-words">{blocks}</div>;
+};
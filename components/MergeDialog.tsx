@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Edge, ThoughtNode } from '../types';
+import { DuplicatePair, isSamePair } from '../services/duplicateService';
+import { canMerge, createMergeCommand } from '../services/graphEditService';
+
+interface MergeDialogProps {
+  nodes: ThoughtNode[];
+  edges: Edge[];
+  pairs: DuplicatePair[];
+  canCheckMeaning: boolean;
+  isCheckingMeaning: boolean;
+  meaningError: string | null;
+  onCheckMeaning: () => void;
+  onMerge: (keepId: string, dropId: string) => void;
+  onDismiss: (pair: DuplicatePair) => void;
+  onClose: () => void;
+}
+
+export const MergeDialog: React.FC<MergeDialogProps> = ({ nodes, edges, pairs, canCheckMeaning, isCheckingMeaning, meaningError, onCheckMeaning, onMerge, onDismiss, onClose }) => {
+  const [selected, setSelected] = useState<{ keepId: string; dropId: string } | null>(null);
+  const byId = new Map<string, ThoughtNode>(nodes.map(n => [n.id, n]));
+  const open = pairs.filter(p => byId.has(p.keepId) && byId.has(p.dropId));
+
+  const renderPreview = (keepId: string, dropId: string) => {
+    const keep = byId.get(keepId)!;
+    const drop = byId.get(dropId)!;
+    if (!canMerge(nodes, keepId, dropId)) {
+      return <p className="text-[11px] text-red-500 font-bold">"{keep.label}" sits inside the branch of "{drop.label}", so it cannot absorb it. Keep the other one instead.</p>;
+    }
+    const command = createMergeCommand(nodes, edges, keepId, dropId);
+    const keptPatch = command?.patchNodes.find(p => p.id === keepId);
+    const movedChildren = command?.patchNodes.filter(p => p.after.parentId === keepId).length ?? 0;
+    const relinked = command?.addEdges.filter(e => e.kind === 'cross').length ?? 0;
+    return (
+      <ul className="text-[11px] text-slate-600 dark:text-slate-300 leading-relaxed list-disc pl-4">
+        <li>"{drop.label}" is removed; "{keep.label}" stays at {keep.path.join(' → ')}</li>
+        <li>{movedChildren} child branch{movedChildren === 1 ? '' : 'es'} move{movedChildren === 1 ? 's' : ''} under "{keep.label}"</li>
+        <li>{keptPatch?.after.sources?.length ?? keep.sources?.length ?? 0} combined source(s)</li>
+        {relinked > 0 && <li>{relinked} cross-link(s) re-pointed</li>}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center bg-slate-950/60 dark:bg-black/80 p-6" onClick={onClose}>
+      <div className="w-full max-w-md bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-5 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div className="text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">Possible Duplicates ({open.length})</div>
+          {canCheckMeaning && (
+            <button onClick={onCheckMeaning} disabled={isCheckingMeaning} className="px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-blue-600 transition-colors disabled:opacity-50">
+              {isCheckingMeaning ? 'Comparing...' : 'Compare Meaning'}
+            </button>
+          )}
+        </div>
+        {meaningError && <p className="text-[11px] font-bold text-red-500">{meaningError}</p>}
+
+        <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+          {open.length === 0 && <div className="py-6 text-center text-slate-400 text-[11px] font-bold uppercase tracking-widest">No likely duplicates</div>}
+          {open.map(pair => {
+            const a = byId.get(pair.keepId)!;
+            const b = byId.get(pair.dropId)!;
+            const isSelected = selected !== null && isSamePair(pair, selected.keepId, selected.dropId);
+            return (
+              <div key={`${pair.keepId}-${pair.dropId}`} className={`rounded-xl border p-3 transition-colors ${isSelected ? 'border-blue-500 bg-blue-50/50 dark:bg-blue-500/10' : 'border-slate-200 dark:border-slate-800'}`}>
+                <button onClick={() => setSelected(isSelected ? null : { keepId: pair.keepId, dropId: pair.dropId })} className="w-full flex items-center justify-between text-left">
+                  <span className="text-[12px] font-bold text-slate-800 dark:text-slate-100">{a.label} <span className="text-slate-400">≈</span> {b.label}</span>
+                  <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 bg-slate-100 dark:bg-white/5 px-2 py-1 rounded-md flex-shrink-0 ml-2">{pair.reason === 'label' ? 'Label' : 'Meaning'} {Math.round(pair.score * 100)}%</span>
+                </button>
+                {isSelected && (
+                  <div className="mt-3 space-y-3">
+                    <div className="flex bg-slate-100 dark:bg-slate-800 rounded-xl p-1 space-x-1">
+                      {[a, b].map(n => (
+                        <button key={n.id} onClick={() => setSelected({ keepId: n.id, dropId: n.id === a.id ? b.id : a.id })} className={`flex-1 px-2 py-1.5 rounded-lg text-[10px] font-bold truncate transition-colors ${selected!.keepId === n.id ? 'bg-white dark:bg-slate-900 text-blue-600 dark:text-blue-400 shadow' : 'text-slate-500 hover:text-blue-500'}`}>Keep {n.label}</button>
+                      ))}
+                    </div>
+                    {renderPreview(selected!.keepId, selected!.dropId)}
+                    <div className="flex space-x-2">
+                      <button onClick={() => { onDismiss(pair); setSelected(null); }} className="flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 transition-colors">Not a Duplicate</button>
+                      <button disabled={!canMerge(nodes, selected!.keepId, selected!.dropId)} onClick={() => { onMerge(selected!.keepId, selected!.dropId); setSelected(null); }} className="flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-40">Merge</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <button onClick={onClose} className="w-full py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 transition-colors">Close</button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { ThoughtNode } from '../types';
+import { getStatusInfo } from '../services/annotationService';
 
 interface MinimapProps {
   nodes: ThoughtNode[];
@@ -56,7 +57,10 @@ export const Minimap: React.FC<MinimapProps> = ({ nodes, canvasSize, viewport, i
               top: `${node.position.y * scale}px`,
               transform: 'translate(-50%, -50%)',
               zIndex: node.level === 0 ? 5 : 2,
-              opacity: node.isHidden ? 0.2 : 1
+              opacity: node.isHidden || node.status === 'dismissed' ? 0.2 : 1,
+              // Annotations show through: the node's colour fills the dot and its status rings it
+              backgroundColor: node.color,
+              boxShadow: node.status && node.status !== 'dismissed' ? `0 0 0 1.5px ${getStatusInfo(node.status).color}` : undefined
             }}
           />
         ))}
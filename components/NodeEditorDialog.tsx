@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+
+interface NodeEditorDialogProps {
+  title: string;
+  initialLabel: string;
+  initialDescription: string;
+  submitLabel: string;
+  onSave: (label: string, description: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-100 dark:bg-slate-800 rounded-xl px-3 py-2 text-[12px] font-semibold outline-none focus:ring-2 focus:ring-blue-500/40 text-slate-900 dark:text-white';
+
+export const NodeEditorDialog: React.FC<NodeEditorDialogProps> = ({ title, initialLabel, initialDescription, submitLabel, onSave, onClose }) => {
+  const [label, setLabel] = useState(initialLabel);
+  const [description, setDescription] = useState(initialDescription);
+  const canSave = label.trim().length > 0;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    onSave(label.trim(), description.trim());
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center bg-slate-950/60 dark:bg-black/80 p-6" onClick={onClose}>
+      <form onSubmit={submit} className="w-full max-w-sm bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-5 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop space-y-4" onClick={e => e.stopPropagation()} onKeyDown={e => { if (e.key === 'Escape') onClose(); }}>
+        <div className="text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">{title}</div>
+        <label className="block">
+          <span className="block text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">Label</span>
+          <input autoFocus className={inputClass} value={label} onChange={e => setLabel(e.target.value)} placeholder="Name this thought" />
+        </label>
+        <label className="block">
+          <span className="block text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">Description</span>
+          <textarea rows={4} className={`${inputClass} resize-none leading-relaxed`} value={description} onChange={e => setDescription(e.target.value)} placeholder="Optional notes" />
+        </label>
+        <div className="flex space-x-2 pt-1">
+          <button type="button" onClick={onClose} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 transition-colors">Cancel</button>
+          <button type="submit" disabled={!canSave} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-40">{submitLabel}</button>
+        </div>
+      </form>
+    </div>
+  );
+};
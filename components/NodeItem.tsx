@@ -1,6 +1,12 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ThoughtNode } from '../types';
+import { BranchMode, NodeAnnotations, ThoughtNode } from '../types';
+import { getStatusInfo } from '../services/annotationService';
+import { toCitedSpans } from '../services/groundingService';
+import { BRANCH_MODES, getBranchModeInfo } from '../services/branchModeService';
+import { estimateCost, formatCost, formatTokens, ModelPrice, totalUsage, usageByOperation } from '../services/usageService';
+import { AnnotationPanel } from './AnnotationPanel';
+import { SynthesisView } from './SynthesisView';
 
 interface NodeItemProps {
   node: ThoughtNode;
@@ -13,19 +19,53 @@ interface NodeItemProps {
   theme: 'dark' | 'light';
   isMobile: boolean;
   onClick: (id: string) => void;
-  onBranch: () => void;
+  /** Branches with the given mode; related topics when omitted */
+  onBranch: (mode?: BranchMode) => void;
+  /** Why branching is unavailable, e.g. the map's depth limit; branching controls are disabled when set */
+  branchBlockedReason?: string;
   onExploreFurther?: () => void;
   onRegenerate?: () => void;
+  onCancelBranch?: () => void;
   onToggleCollapse?: (id: string) => void;
   onToggleHide?: (id: string) => void;
   onPrune: (id: string) => void;
   onHover: (id: string | null) => void;
   onCenter?: () => void;
   onDrag?: (id: string, x: number, y: number) => void;
+  onDragEnd?: (id: string) => void;
+  onAddChild?: (id: string) => void;
+  onAddSibling?: (id: string) => void;
+  onEdit?: (id: string) => void;
+  onStartLink?: (id: string) => void;
+  onTogglePin?: (id: string) => void;
+  onFindConnections?: () => void;
+  /** Progress or outcome of the last "find connections" request for this node */
+  connectionStatus?: string;
+  /** Highlights the node while another one is dragged over it to be re-parented */
+  isDropTarget?: boolean;
+  /** Keyboard focus indicator; follows the selection while the map is driven from the keyboard */
+  hasFocusRing?: boolean;
+  onAnnotate?: (id: string, changes: NodeAnnotations) => void;
+  /** Opens the deep dive reader for this node */
+  onDeepDive?: () => void;
+  /** Opens the auto-explore setup for a breadth-first survey from this node */
+  onAutoExplore?: () => void;
+  onSynthesize?: (scope: 'branch' | 'path') => void;
+  /** Progress or outcome of the last synthesis request for this node */
+  synthesisStatus?: string;
+  /** Selects another node, e.g. one a synthesis point drew on */
+  onJumpTo?: (id: string) => void;
+  /** Adds a synthesis' recommended next branch to the map */
+  onAddNextBranch?: (topic: string, reason: string) => void;
+  /** Tags used anywhere in the map, suggested when tagging this node */
+  allTags?: string[];
+  /** Price table for the cost of the requests made from this node */
+  prices?: ModelPrice[];
 }
 
 export const NodeItem: React.FC<NodeItemProps> = ({ 
   node, 
+  allNodes,
   isActiveFocus, 
   isSelected, 
   panelDirection = 'below',
@@ -33,13 +73,36 @@ export const NodeItem: React.FC<NodeItemProps> = ({
   zoom,
   onClick, 
   onBranch, 
+  branchBlockedReason,
   onExploreFurther,
+  onCancelBranch,
   onPrune,
   onToggleCollapse,
-  onDrag
+  onDrag,
+  onDragEnd,
+  onAddChild,
+  onAddSibling,
+  onEdit,
+  onStartLink,
+  onTogglePin,
+  onFindConnections,
+  connectionStatus,
+  isDropTarget,
+  hasFocusRing,
+  onAnnotate,
+  onDeepDive,
+  onAutoExplore,
+  onSynthesize,
+  synthesisStatus,
+  onJumpTo,
+  onAddNextBranch,
+  allTags = [],
+  prices
 }) => {
   const [showInfo, setShowInfo] = useState(false);
   const [sourcesExpanded, setSourcesExpanded] = useState(false);
+  const [isModeMenuOpen, setIsModeMenuOpen] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<{ span: number; sourceIndex: number } | null>(null);
   const [isLocalDragging, setIsLocalDragging] = useState(false);
   const dragRef = useRef({ startX: 0, startY: 0, nodeX: 0, nodeY: 0 });
 
@@ -49,6 +112,8 @@ export const NodeItem: React.FC<NodeItemProps> = ({
     } else {
       setShowInfo(false);
       setSourcesExpanded(false); 
+      setActiveCitation(null);
+      setIsModeMenuOpen(false);
     }
   }, [isSelected]);
 
@@ -74,6 +139,7 @@ export const NodeItem: React.FC<NodeItemProps> = ({
 
     const handleMouseUp = () => {
       setIsLocalDragging(false);
+      onDragEnd?.(node.id);
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
@@ -90,6 +156,36 @@ export const NodeItem: React.FC<NodeItemProps> = ({
 
   const infoPanelVisible = showInfo && isSelected && !isLocalDragging && !isEditMode;
   const hasSources = node.sources && node.sources.length > 0;
+  const citedSpans = hasSources && node.citations ? toCitedSpans(node.citations, node.description.length) : [];
+  const usage = prices && node.usage && node.usage.length > 0 ? totalUsage(node.usage) : null;
+
+  const selectCitation = (e: React.MouseEvent, span: number, sourceIndex: number) => {
+    e.stopPropagation();
+    const isSame = activeCitation?.span === span && activeCitation.sourceIndex === sourceIndex;
+    setActiveCitation(isSame ? null : { span, sourceIndex });
+    setSourcesExpanded(true);
+  };
+
+  const renderDescription = () => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    citedSpans.forEach((span, i) => {
+      if (span.start > cursor) parts.push(node.description.slice(cursor, span.start));
+      parts.push(
+        <span key={`span-${i}`} className={`rounded-sm transition-colors ${activeCitation?.span === i ? 'bg-blue-100 dark:bg-blue-500/30' : ''}`}>
+          {node.description.slice(span.start, span.end)}
+        </span>
+      );
+      span.sourceIndices.filter(idx => node.sources?.[idx]).forEach(idx => parts.push(
+        <sup key={`cite-${i}-${idx}`} onClick={(e) => selectCitation(e, i, idx)} title={node.sources?.[idx].title} className={`ml-0.5 text-[8px] font-bold cursor-pointer hover:underline ${activeCitation?.span === i && activeCitation.sourceIndex === idx ? 'text-blue-700 dark:text-blue-300' : 'text-blue-500'}`}>
+          [{idx + 1}]
+        </sup>
+      ));
+      cursor = span.end;
+    });
+    if (cursor < node.description.length) parts.push(node.description.slice(cursor));
+    return parts;
+  };
 
   return (
     <div
@@ -108,7 +204,7 @@ export const NodeItem: React.FC<NodeItemProps> = ({
       {isEditMode && (
         <div 
           className={`absolute -top-12 left-1/2 -translate-x-1/2 flex items-center space-x-2 bg-white dark:bg-slate-900 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-800 shadow-xl z-[2000] transition-all duration-300 transform
-            ${isSelected ? 'opacity-100 translate-y-0 scale-100 pointer-events-auto' : 'opacity-0 translate-y-2 scale-90 pointer-events-none group-hover:opacity-100 group-hover:translate-y-0 group-hover:scale-100 group-hover:pointer-events-auto'}
+            ${isSelected ? 'opacity-100 translate-y-0 scale-100 pointer-events-auto' : 'opacity-0 translate-y-2 scale-90 pointer-events-none group-hover:opacity-100 group-hover:translate-y-0 group-hover:scale-100 group-hover:pointer-events-auto focus-within:opacity-100 focus-within:translate-y-0 focus-within:scale-100 focus-within:pointer-events-auto'}
           `}
         >
           {/* Bridge to maintain hover state while moving cursor from node to panel */}
@@ -132,6 +228,45 @@ export const NodeItem: React.FC<NodeItemProps> = ({
             </>
           )}
 
+          <button 
+            onClick={(e) => { e.stopPropagation(); onAddChild?.(node.id); }}
+            className="p-1.5 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 hover:text-blue-500 transition-colors relative z-10"
+            title="Add Child"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M12 5v14M5 12h14" /></svg>
+          </button>
+          {node.parentId && (
+            <button 
+              onClick={(e) => { e.stopPropagation(); onAddSibling?.(node.id); }}
+              className="p-1.5 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 hover:text-blue-500 transition-colors relative z-10"
+              title="Add Sibling"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M4 12h6m-3-3v6M14 7h6v10h-6z" /></svg>
+            </button>
+          )}
+          <button 
+            onClick={(e) => { e.stopPropagation(); onEdit?.(node.id); }}
+            className="p-1.5 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 hover:text-blue-500 transition-colors relative z-10"
+            title="Rename / Edit"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536M4 20h4L18.5 9.5a2.5 2.5 0 00-3.536-3.536L4 16.5V20z" /></svg>
+          </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); onStartLink?.(node.id); }}
+            className="p-1.5 rounded-full hover:bg-amber-50 dark:hover:bg-amber-900/20 text-slate-400 hover:text-amber-500 transition-colors relative z-10"
+            title="Cross-Link to Another Node"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
+          </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); onTogglePin?.(node.id); }}
+            className={`p-1.5 rounded-full transition-colors relative z-10 ${node.isPinned ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-600' : 'hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400 hover:text-blue-500'}`}
+            title={node.isPinned ? "Unpin" : "Pin in Place"}
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M12 17v5M9 3h6l-1 6 3 4H7l3-4-1-6z" /></svg>
+          </button>
+          <div className="w-px h-3 bg-slate-200 dark:bg-slate-800 relative z-10" />
+
           <button 
             onClick={(e) => { e.stopPropagation(); onPrune(node.id); }}
             className="p-1.5 rounded-full hover:bg-red-50 dark:hover:bg-red-900/20 text-slate-400 hover:text-red-500 transition-colors relative z-10"
@@ -147,7 +282,7 @@ export const NodeItem: React.FC<NodeItemProps> = ({
           <div className={`relative w-[calc(100vw-48px)] max-w-[340px] md:max-w-md bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-4 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] dark:shadow-[0_25px_60px_rgba(0,0,0,0.8)] animate-panel-in pointer-events-auto ${panelDirection === 'above' ? 'origin-bottom' : 'origin-top'}`}>
             <div className="flex justify-between items-center mb-3">
               <span className="text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest flex items-center gap-1.5">
-                Fact Insight
+                {node.synthesis ? 'Synthesis' : node.isManual ? 'Your Note' : 'Fact Insight'}
               </span>
               <div className="flex items-center space-x-1.5">
                 {node.isExpanded && (
@@ -159,22 +294,59 @@ export const NodeItem: React.FC<NodeItemProps> = ({
                   </button>
                 )}
                 
-                {!node.isExpanded ? (
-                  <button onClick={(e) => { e.stopPropagation(); onBranch(); }} className="px-2.5 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500 transition-colors">Branch</button>
+                {node.synthesis ? null : !node.isExpanded ? (
+                  <button onClick={(e) => { e.stopPropagation(); onBranch(); }} disabled={!!branchBlockedReason} title={branchBlockedReason} className="px-2.5 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-40 disabled:hover:bg-blue-600">Branch</button>
                 ) : (
-                  <button onClick={(e) => { e.stopPropagation(); onExploreFurther?.(); }} className="w-6 h-6 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 flex items-center justify-center hover:bg-blue-600 hover:text-white transition-all text-xs font-bold" title="Deep Reasoning Explore">+</button>
+                  <button onClick={(e) => { e.stopPropagation(); onExploreFurther?.(); }} disabled={!!branchBlockedReason} className="w-6 h-6 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 flex items-center justify-center hover:bg-blue-600 hover:text-white transition-all text-xs font-bold disabled:opacity-40 disabled:pointer-events-none" title={branchBlockedReason || 'Deep Reasoning Explore'}>+</button>
+                )}
+                {!node.synthesis && (
+                  <div className="relative">
+                    <button onClick={(e) => { e.stopPropagation(); setIsModeMenuOpen(!isModeMenuOpen); }} disabled={!!branchBlockedReason} aria-haspopup="menu" aria-expanded={isModeMenuOpen} className={`w-6 h-6 rounded-lg flex items-center justify-center transition-all disabled:opacity-40 disabled:pointer-events-none ${isModeMenuOpen ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-blue-600'}`} title={branchBlockedReason || 'Branch by mode: causes, pros/cons, timeline...'}>
+                      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" /></svg>
+                    </button>
+                    {isModeMenuOpen && (
+                      <div role="menu" aria-label="Branching mode" className="absolute right-0 top-full mt-1 z-20 w-48 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-xl py-1 animate-menu-pop" onClick={e => e.stopPropagation()}>
+                        {BRANCH_MODES.map(mode => (
+                          <button key={mode.id} role="menuitem" onClick={() => { setIsModeMenuOpen(false); onBranch(mode.id); }} className="w-full flex items-center space-x-2 px-3 py-1.5 text-left text-[10px] font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-white/5 hover:text-blue-600">
+                            <span className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: mode.color }} />
+                            <span>{mode.label}</span>
+                          </button>
+                        ))}
+                        {onAutoExplore && (
+                          <button role="menuitem" onClick={() => { setIsModeMenuOpen(false); onAutoExplore(); }} className="w-full flex items-center space-x-2 px-3 py-1.5 mt-1 border-t border-slate-100 dark:border-slate-800 text-left text-[10px] font-bold text-blue-600 dark:text-blue-400 hover:bg-slate-50 dark:hover:bg-white/5" title="Branch several levels breadth-first in the background">
+                            <span>Auto-explore…</span>
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {onFindConnections && !node.synthesis && (
+                  <button onClick={(e) => { e.stopPropagation(); if (connectionStatus !== 'Searching...') onFindConnections(); }} className={`px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${connectionStatus ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-600' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-amber-600'}`} title="Ask the model which existing nodes relate to this one">
+                    {connectionStatus || 'Find Links'}
+                  </button>
+                )}
+                {onDeepDive && !node.synthesis && (
+                  <button onClick={(e) => { e.stopPropagation(); onDeepDive(); }} className={`px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${node.deepDive ? 'bg-blue-50 dark:bg-blue-500/15 text-blue-600 dark:text-blue-300' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-blue-600'}`} title={node.deepDive ? 'Read the saved deep dive' : 'Write a sourced, multi-section deep dive'}>
+                    {node.deepDive ? 'Read' : 'Deep Dive'}
+                  </button>
                 )}
                 <button onClick={openSearch} className="p-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-blue-600 transition-colors"><svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg></button>
               </div>
             </div>
             <div className="text-xs text-slate-800 dark:text-slate-100 font-medium leading-relaxed mb-3">
-              {node.description}
-              {hasSources && (
+              {citedSpans.length > 0 ? renderDescription() : node.description}
+              {hasSources && citedSpans.length === 0 && (
                 <sup className="ml-0.5 text-[8px] font-bold text-blue-500 cursor-help" onClick={(e) => { e.stopPropagation(); setSourcesExpanded(true); }}>
                   [{node.sources?.length}]
                 </sup>
               )}
             </div>
+            {node.synthesis && (
+              <div className="max-h-64 overflow-y-auto pr-1">
+                <SynthesisView synthesis={node.synthesis} allNodes={allNodes} onJumpTo={onJumpTo} onAddNext={onAddNextBranch} />
+              </div>
+            )}
             {hasSources && (
               <div className="border-t border-slate-100 dark:border-slate-800 pt-3">
                 <button onClick={(e) => { e.stopPropagation(); setSourcesExpanded(!sourcesExpanded); }} className="flex items-center justify-between w-full text-[8px] font-bold text-slate-400 uppercase tracking-widest">
@@ -183,7 +355,7 @@ export const NodeItem: React.FC<NodeItemProps> = ({
                 </button>
                 {sourcesExpanded && (
                   <div className="mt-1.5 space-y-1 max-h-24 overflow-y-auto pr-1">
-                    {node.sources?.map((s, i) => (<a key={i} href={s.uri} target="_blank" rel="noopener noreferrer" className="block text-[9px] text-blue-600 dark:text-blue-400 font-bold hover:underline py-0.5 truncate flex items-center space-x-2">
+                    {node.sources?.map((s, i) => (<a key={i} href={s.uri} target="_blank" rel="noopener noreferrer" className={`block text-[9px] text-blue-600 dark:text-blue-400 font-bold hover:underline py-0.5 px-1 -mx-1 rounded truncate flex items-center space-x-2 ${activeCitation?.sourceIndex === i ? 'bg-blue-50 dark:bg-blue-500/20' : ''}`}>
                       <span className="opacity-50">[{i+1}]</span>
                       <span>{s.title}</span>
                     </a>))}
@@ -191,16 +363,49 @@ export const NodeItem: React.FC<NodeItemProps> = ({
                 )}
               </div>
             )}
+            {onSynthesize && !node.synthesis && (node.isExpanded || node.level > 0) && (
+              <div className="flex items-center justify-between border-t border-slate-100 dark:border-slate-800 pt-3 mt-3">
+                <span className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">{synthesisStatus || 'Synthesise'}</span>
+                <div className="flex items-center space-x-1">
+                  {node.isExpanded && <button onClick={(e) => { e.stopPropagation(); onSynthesize('branch'); }} disabled={synthesisStatus === 'Synthesising...'} className="px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-violet-600 disabled:opacity-40 transition-all" title="Themes, contradictions and open questions across this node and everything below it">Branch</button>}
+                  {node.level > 0 && <button onClick={(e) => { e.stopPropagation(); onSynthesize('path'); }} disabled={synthesisStatus === 'Synthesising...'} className="px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-violet-600 disabled:opacity-40 transition-all" title="Themes, contradictions and open questions along the path from the root to this node">Path</button>}
+                </div>
+              </div>
+            )}
+            {usage && prices && (
+              <div className="flex items-center justify-between border-t border-slate-100 dark:border-slate-800 pt-3 mt-3" title={usageByOperation(node.usage!).map(op => `${op.label}: ${formatCost(estimateCost(op.records, prices))}`).join('\n')}>
+                <span className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Model cost</span>
+                <span className="text-[9px] font-bold text-slate-500 dark:text-slate-400">
+                  {formatCost(estimateCost(node.usage!, prices))} · {usage.calls} {usage.calls === 1 ? 'call' : 'calls'} · {formatTokens(usage.promptTokens + usage.outputTokens + usage.thinkingTokens)} tokens
+                </span>
+              </div>
+            )}
+            {onAnnotate && <AnnotationPanel node={node} allTags={allTags} onChange={(changes) => onAnnotate(node.id, changes)} />}
           </div>
         )}
       </div>
 
       <div onClick={(e) => { e.stopPropagation(); onClick(node.id); }}
-        className={`relative flex flex-col items-center justify-center min-w-[85px] md:min-w-[115px] max-w-[180px] px-2.5 md:px-4 py-2 md:py-3.5 rounded-[1rem] transition-all duration-300 cursor-pointer border-2 backdrop-blur-md ${isSelected ? 'bg-blue-50 dark:bg-blue-900/40 border-blue-500 shadow-2xl scale-105' : 'bg-white/95 dark:bg-slate-900/95 border-slate-200 dark:border-slate-800 shadow-lg'} ${isEditMode ? 'border-dashed border-emerald-500 ring-2 ring-emerald-500/20' : ''}`}
+        className={`relative flex flex-col items-center justify-center min-w-[85px] md:min-w-[115px] max-w-[180px] px-2.5 md:px-4 py-2 md:py-3.5 rounded-[1rem] transition-all duration-300 cursor-pointer border-2 backdrop-blur-md ${isSelected ? 'bg-blue-50 dark:bg-blue-900/40 border-blue-500 shadow-2xl scale-105' : 'bg-white/95 dark:bg-slate-900/95 border-slate-200 dark:border-slate-800 shadow-lg'} ${isEditMode ? 'border-dashed border-emerald-500 ring-2 ring-emerald-500/20' : ''} ${isDropTarget ? 'ring-4 ring-blue-500/60 scale-110' : ''} ${hasFocusRing ? 'outline outline-[3px] outline-offset-4 outline-blue-400' : ''}`}
       >
-        <span className={`text-[9.5px] md:text-xs font-display font-bold text-center leading-tight tracking-tight transition-colors ${isSelected ? 'text-blue-700 dark:text-white' : 'text-slate-800 dark:text-white'}`}>
+        {node.color && <div className="absolute top-0 left-3 right-3 h-1 rounded-b-full" style={{ backgroundColor: node.color }} />}
+        {node.branchMode && (
+          <div className="absolute -top-2 left-1/2 -translate-x-1/2 px-1.5 rounded-full text-[6.5px] font-black uppercase tracking-wider text-white whitespace-nowrap shadow-md max-w-[110px] truncate" style={{ backgroundColor: getBranchModeInfo(node.branchMode).color }} title={getBranchModeInfo(node.branchMode).label}>
+            {node.branchFacet || getBranchModeInfo(node.branchMode).badge}
+          </div>
+        )}
+        <span className={`text-[9.5px] md:text-xs font-display font-bold text-center leading-tight tracking-tight transition-colors ${isSelected ? 'text-blue-700 dark:text-white' : 'text-slate-800 dark:text-white'} ${node.status === 'dismissed' ? 'line-through opacity-60' : ''}`}>
           {node.label}
         </span>
+        {node.synthesis && <span className="mt-1 px-1.5 rounded bg-violet-100 dark:bg-violet-500/20 text-[7px] font-black uppercase tracking-widest text-violet-600 dark:text-violet-300">{node.synthesis.scope === 'branch' ? 'Branch Synthesis' : 'Path Synthesis'}</span>}
+        {(!!node.tags?.length || !!node.notes || !!node.deepDive) && (
+          <div className="mt-1 flex flex-wrap justify-center items-center gap-0.5 max-w-full">
+            {node.tags?.slice(0, 2).map(tag => <span key={tag} className="px-1 rounded bg-slate-100 dark:bg-slate-800 text-[7px] font-black text-slate-500 dark:text-slate-400 truncate max-w-[70px]">#{tag}</span>)}
+            {(node.tags?.length ?? 0) > 2 && <span className="text-[7px] font-black text-slate-400">+{node.tags!.length - 2}</span>}
+            {node.notes && <svg className="w-2.5 h-2.5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3" aria-label="Has notes"><path strokeLinecap="round" strokeLinejoin="round" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>}
+            {node.deepDive && <svg className="w-2.5 h-2.5 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3" aria-label="Has deep dive"><path strokeLinecap="round" strokeLinejoin="round" d="M12 6.253v13C10.832 18.477 9.246 18 7.5 18S4.168 18.477 3 19.253v-13C4.168 5.477 5.754 5 7.5 5s3.332.477 4.5 1.253zm0 0C13.168 5.477 14.754 5 16.5 5s3.332.477 4.5 1.253v13C19.832 18.477 18.246 18 16.5 18s-3.332.477-4.5 1.253" /></svg>}
+          </div>
+        )}
         {node.isLoading && (
           <div className="mt-1.5 flex flex-col items-center">
              <div className="flex space-x-0.5">
@@ -209,6 +414,17 @@ export const NodeItem: React.FC<NodeItemProps> = ({
                <div className="w-1 h-1 bg-blue-500 rounded-full animate-bounce"></div>
              </div>
              {isSelected && <span className="text-[7px] font-black uppercase tracking-widest text-blue-400 mt-1 animate-pulse">Deep Reasoning...</span>}
+             {onCancelBranch && (
+               <button onClick={(e) => { e.stopPropagation(); onCancelBranch(); }} className="mt-1 px-1.5 py-0.5 rounded-full text-[7px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors pointer-events-auto">Cancel</button>
+             )}
+          </div>
+        )}
+        {node.status && (
+          <div className="absolute -top-1.5 -left-1.5 w-4 h-4 rounded-full border-2 border-white dark:border-slate-900 shadow-md" style={{ backgroundColor: getStatusInfo(node.status).color }} title={getStatusInfo(node.status).label} aria-label={getStatusInfo(node.status).label} />
+        )}
+        {node.isPinned && (
+          <div className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-blue-500 text-white flex items-center justify-center shadow-md" title="Pinned">
+            <svg className="w-2.5 h-2.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M12 17v5M9 3h6l-1 6 3 4H7l3-4-1-6z" /></svg>
           </div>
         )}
         {node.isExpanded && node.isCollapsed && !isSelected && (
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { DEFAULT_LIMITS, DEFAULT_MODELS, ModelTier, ProviderId, ProviderSettings } from '../services/llmProvider';
+
+interface ProviderSettingsDialogProps {
+  settings: ProviderSettings;
+  /** Responses in the local cache; null while counting or where IndexedDB is unavailable */
+  cachedResponses: number | null;
+  onClearCache: () => void;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: { id: ProviderId; label: string; hint: string }[] = [
+  { id: 'gemini', label: 'Gemini', hint: 'Google Gemini with Search grounding. Leave the key empty to use GEMINI_API_KEY.' },
+  { id: 'openai-compatible', label: 'Local / OpenAI', hint: 'Any /chat/completions server: Ollama, llama.cpp, LM Studio or a hosted API.' },
+  { id: 'mock', label: 'Offline Mock', hint: 'Deterministic canned answers. No network access needed.' }
+];
+
+const TIER_LABELS: Record<ModelTier, string> = { fast: 'Insight model', reasoning: 'Branching model', embedding: 'Embedding model' };
+
+const sectionLabel = 'block text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5';
+const inputClass = 'w-full bg-slate-100 dark:bg-slate-800 rounded-xl px-3 py-2 text-[12px] font-semibold outline-none focus:ring-2 focus:ring-blue-500/40 text-slate-900 dark:text-white';
+
+export const ProviderSettingsDialog: React.FC<ProviderSettingsDialogProps> = ({ settings, cachedResponses, onClearCache, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const provider = PROVIDERS.find(p => p.id === draft.providerId)!;
+
+  const selectProvider = (id: ProviderId) => {
+    if (id === draft.providerId) return;
+    setDraft({ ...draft, providerId: id, models: { ...DEFAULT_MODELS[id] }, ...DEFAULT_LIMITS[id] });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center bg-slate-950/60 dark:bg-black/80 p-6" onClick={onClose}>
+      <div className="w-full max-w-sm max-h-full overflow-y-auto bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-5 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">AI Provider</div>
+        <div className="flex bg-slate-100 dark:bg-slate-800 rounded-xl p-1 space-x-1">
+          {PROVIDERS.map(p => (
+            <button key={p.id} onClick={() => selectProvider(p.id)} className={`flex-1 px-2 py-1.5 rounded-lg text-[10px] font-bold transition-colors ${draft.providerId === p.id ? 'bg-white dark:bg-slate-900 text-blue-600 dark:text-blue-400 shadow' : 'text-slate-500 hover:text-blue-500'}`}>{p.label}</button>
+          ))}
+        </div>
+        <p className="text-[11px] text-slate-500 dark:text-slate-400 leading-snug">{provider.hint}</p>
+
+        {draft.providerId === 'openai-compatible' && (
+          <label className="block">
+            <span className={sectionLabel}>Base URL</span>
+            <input className={inputClass} value={draft.baseUrl} onChange={e => setDraft({ ...draft, baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" />
+          </label>
+        )}
+        {draft.providerId !== 'mock' && (
+          <>
+            <label className="block">
+              <span className={sectionLabel}>API Key</span>
+              <input type="password" className={inputClass} value={draft.apiKey} onChange={e => setDraft({ ...draft, apiKey: e.target.value })} placeholder={draft.providerId === 'gemini' ? 'From environment' : 'Optional'} />
+              <span className="block mt-1 text-[11px] text-slate-500 dark:text-slate-400 leading-snug">Kept for this tab only and forgotten when it closes. Anyone with access to this browser session or to scripts on this page can read it.</span>
+            </label>
+            {(Object.keys(TIER_LABELS) as ModelTier[]).map(tier => (
+              <label key={tier} className="block">
+                <span className={sectionLabel}>{TIER_LABELS[tier]}</span>
+                <input className={inputClass} value={draft.models[tier]} onChange={e => setDraft({ ...draft, models: { ...draft.models, [tier]: e.target.value } })} />
+              </label>
+            ))}
+          </>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className={sectionLabel}>Parallel requests</span>
+            <input type="number" className={inputClass} min={1} max={16} value={draft.maxConcurrent} onChange={e => setDraft({ ...draft, maxConcurrent: Math.min(16, Math.max(1, Math.round(Number(e.target.value)) || 1)) })} />
+          </label>
+          <label className="block">
+            <span className={sectionLabel}>Requests / minute</span>
+            <input type="number" className={inputClass} min={0} value={draft.requestsPerMinute || ''} placeholder="No limit" onChange={e => setDraft({ ...draft, requestsPerMinute: Math.max(0, Math.round(Number(e.target.value)) || 0) })} />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-[11px] font-bold text-slate-600 dark:text-slate-300">Cached answers: {cachedResponses ?? '…'}</span>
+          <button onClick={onClearCache} disabled={!cachedResponses} className="text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 disabled:opacity-40 disabled:hover:text-slate-400">Clear cache</button>
+        </div>
+
+        <div className="flex space-x-2 pt-1">
+          <button onClick={onClose} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 transition-colors">Cancel</button>
+          <button onClick={() => { onSave(draft); onClose(); }} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500 transition-colors">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
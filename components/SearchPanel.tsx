@@ -0,0 +1,158 @@
+import React, { useEffect } from 'react';
+import { NodeStatus } from '../types';
+import { SearchFilters, SearchHit, SearchStateFilter, highlightRanges } from '../services/searchService';
+import { NODE_STATUSES } from '../services/annotationService';
+
+interface SearchPanelProps {
+  hits: SearchHit[];
+  /** False until there is a query or a filter to match against */
+  isActive: boolean;
+  /** Match currently stepped to on the canvas, -1 before the first step */
+  activeIndex: number;
+  filters: SearchFilters;
+  levels: number[];
+  domains: string[];
+  tags: string[];
+  /** Branches offered for the "under" filter: the current scope and the last selected node */
+  scopeOptions: { id: string; label: string }[];
+  foldedIds: Set<string>;
+  isDimming: boolean;
+  onFiltersChange: (filters: SearchFilters) => void;
+  onToggleDimming: () => void;
+  onStep: (delta: number) => void;
+  onSelect: (hit: SearchHit) => void;
+}
+
+// Stepping covers every match; the list only renders the best ones
+const MAX_LISTED = 50;
+
+const STATES: { value: SearchStateFilter; label: string }[] = [
+  { value: 'any', label: 'Any state' },
+  { value: 'shown', label: 'On canvas' },
+  { value: 'folded', label: 'In folded branches' },
+  { value: 'hidden', label: 'Hidden' }
+];
+
+const selectClass = 'min-w-0 flex-1 bg-slate-100 dark:bg-slate-800 rounded-lg px-2 py-1.5 text-[10px] font-bold text-slate-600 dark:text-slate-300 outline-none focus:ring-2 focus:ring-blue-500/40';
+
+const Highlighted: React.FC<{ text: string; words: Set<string> }> = ({ text, words }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlightRanges(text, words).forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="bg-amber-200/80 dark:bg-amber-500/30 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+/**
+ * A window of `text` around its first match, for descriptions and sources
+ */
+const excerpt = (text: string, words: Set<string>, radius = 40) => {
+  const first = highlightRanges(text, words)[0];
+  if (!first) return null;
+  const start = Math.max(0, first[0] - radius);
+  const end = Math.min(text.length, first[1] + radius * 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+const matchContext = (hit: SearchHit) => {
+  if (hit.fields.has('tag')) {
+    const tags = hit.node.tags?.filter(t => highlightRanges(t, hit.words).length > 0) || [];
+    if (tags.length > 0) return tags.map(t => `#${t}`).join(' ');
+  }
+  if (hit.fields.has('notes') && hit.node.notes) {
+    const text = excerpt(hit.node.notes, hit.words);
+    if (text) return text;
+  }
+  if (hit.fields.has('description')) {
+    const text = excerpt(hit.node.description, hit.words);
+    if (text) return text;
+  }
+  if (hit.fields.has('source')) {
+    const source = hit.node.sources?.find(s => highlightRanges(`${s.title} ${s.uri}`, hit.words).length > 0);
+    if (source) return highlightRanges(source.title, hit.words).length > 0 ? source.title : source.uri;
+  }
+  return null;
+};
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ hits, isActive, activeIndex, filters, levels, domains, tags, scopeOptions, foldedIds, isDimming, onFiltersChange, onToggleDimming, onStep, onSelect }) => {
+  const activeId = hits[activeIndex]?.node.id;
+
+  useEffect(() => {
+    if (activeId) document.getElementById(`search-hit-${activeId}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeId]);
+
+  return (
+    <div className="mt-2 w-full bg-white dark:bg-gray-950 border border-slate-200 dark:border-gray-800 rounded-2xl shadow-2xl overflow-hidden backdrop-blur-2xl animate-menu-pop flex flex-col z-[4000]" onClick={e => e.stopPropagation()}>
+      <div className="p-2 space-y-1.5 border-b border-slate-100 dark:border-gray-900">
+        <div className="flex space-x-1.5">
+          <select aria-label="Generation" className={selectClass} value={filters.level ?? ''} onChange={e => onFiltersChange({ ...filters, level: e.target.value === '' ? null : Number(e.target.value) })}>
+            <option value="">All generations</option>
+            {levels.map(l => <option key={l} value={l}>Gen {l}</option>)}
+          </select>
+          <select aria-label="State" className={selectClass} value={filters.state} onChange={e => onFiltersChange({ ...filters, state: e.target.value as SearchStateFilter })}>
+            {STATES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+          </select>
+        </div>
+        <div className="flex space-x-1.5">
+          <select aria-label="Branch" className={selectClass} value={filters.subtreeId ?? ''} onChange={e => onFiltersChange({ ...filters, subtreeId: e.target.value || null })}>
+            <option value="">Whole map</option>
+            {scopeOptions.map(o => <option key={o.id} value={o.id}>Under {o.label}</option>)}
+          </select>
+          <select aria-label="Source domain" className={selectClass} value={filters.domain ?? ''} onChange={e => onFiltersChange({ ...filters, domain: e.target.value || null })} disabled={domains.length === 0}>
+            <option value="">Any source</option>
+            {domains.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </div>
+        <div className="flex space-x-1.5">
+          <select aria-label="Tag" className={selectClass} value={filters.tag ?? ''} onChange={e => onFiltersChange({ ...filters, tag: e.target.value || null })} disabled={tags.length === 0}>
+            <option value="">Any tag</option>
+            {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+          </select>
+          <select aria-label="Status" className={selectClass} value={filters.status ?? ''} onChange={e => onFiltersChange({ ...filters, status: (e.target.value || null) as NodeStatus | null })}>
+            <option value="">Any status</option>
+            {NODE_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center justify-between px-1">
+          <button onClick={onToggleDimming} aria-pressed={isDimming} className={`text-[9px] font-black uppercase tracking-widest transition-colors ${isDimming ? 'text-blue-600 dark:text-blue-400' : 'text-slate-400 hover:text-blue-500'}`}>
+            {isDimming ? 'Dimming others' : 'Dim others'}
+          </button>
+          <div className="flex items-center space-x-1">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400" aria-live="polite">
+              {!isActive ? 'Type or filter' : hits.length === 0 ? 'No matches' : activeIndex >= 0 ? `${activeIndex + 1} of ${hits.length}` : `${hits.length} ${hits.length === 1 ? 'match' : 'matches'}`}
+            </span>
+            <button onClick={() => onStep(-1)} disabled={hits.length === 0} title="Previous match (Shift+Enter)" className="w-6 h-6 rounded-lg flex items-center justify-center text-slate-400 hover:text-blue-500 hover:bg-slate-100 dark:hover:bg-white/5 disabled:opacity-30">
+              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M5 15l7-7 7 7" /></svg>
+            </button>
+            <button onClick={() => onStep(1)} disabled={hits.length === 0} title="Next match (Enter)" className="w-6 h-6 rounded-lg flex items-center justify-center text-slate-400 hover:text-blue-500 hover:bg-slate-100 dark:hover:bg-white/5 disabled:opacity-30">
+              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" /></svg>
+            </button>
+          </div>
+        </div>
+      </div>
+      <div role="listbox" aria-label="Search results" className="max-h-[50vh] overflow-y-auto">
+        {hits.slice(0, MAX_LISTED).map((hit, i) => {
+          const context = matchContext(hit);
+          const state = hit.node.isHidden ? 'Hidden' : foldedIds.has(hit.node.id) ? 'Folded' : null;
+          return (
+            <button key={hit.node.id} id={`search-hit-${hit.node.id}`} role="option" aria-selected={i === activeIndex} onClick={() => onSelect(hit)} className={`w-full px-5 py-3 text-left transition-colors flex items-center justify-between border-b border-slate-100 dark:border-gray-900 last:border-none group ${i === activeIndex ? 'bg-blue-50 dark:bg-blue-500/10' : 'hover:bg-slate-50 dark:hover:bg-white/5'}`}>
+              <span className="min-w-0 flex-1">
+                <span className="block text-[13px] font-bold text-slate-700 dark:text-slate-200 group-hover:text-blue-500 truncate"><Highlighted text={hit.node.label} words={hit.words} /></span>
+                {context && <span className="block text-[10px] font-medium text-slate-400 truncate"><Highlighted text={context} words={hit.words} /></span>}
+              </span>
+              <span className="ml-2 flex-shrink-0 flex items-center space-x-1">
+                {state && <span className="text-[9px] font-black uppercase tracking-widest text-amber-600 bg-amber-50 dark:bg-amber-500/10 px-2 py-1 rounded-md">{state}</span>}
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 bg-slate-100 dark:bg-white/5 px-2 py-1 rounded-md">Gen {hit.node.level}</span>
+              </span>
+            </button>
+          );
+        })}
+        {hits.length > MAX_LISTED && <div className="px-5 py-3 text-center text-slate-400 text-[10px] font-bold uppercase tracking-widest">{hits.length - MAX_LISTED} more; step with Enter</div>}
+      </div>
+    </div>
+  );
+};
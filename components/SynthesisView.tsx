@@ -0,0 +1,66 @@
+import React from 'react';
+import { Synthesis, SynthesisPoint, ThoughtNode } from '../types';
+
+interface SynthesisViewProps {
+  synthesis: Synthesis;
+  allNodes: ThoughtNode[];
+  onJumpTo?: (id: string) => void;
+  /** Adds the recommended next branch to the map */
+  onAddNext?: (topic: string, reason: string) => void;
+}
+
+const sectionLabel = 'text-[8px] font-bold text-slate-400 uppercase tracking-widest';
+
+const GROUPS: { key: 'themes' | 'contradictions' | 'openQuestions'; label: string }[] = [
+  { key: 'themes', label: 'Key Themes' },
+  { key: 'contradictions', label: 'Contradictions' },
+  { key: 'openQuestions', label: 'Open Questions' }
+];
+
+/**
+ * Body of a summary node's insight panel: the synthesis points with chips for the nodes
+ * each one drew on
+ */
+export const SynthesisView: React.FC<SynthesisViewProps> = ({ synthesis, allNodes, onJumpTo, onAddNext }) => {
+  const labelOf = (id: string) => allNodes.find(n => n.id === id)?.label;
+  const drewOn = synthesis.sourceNodeIds.filter(id => labelOf(id) !== undefined).length;
+
+  const renderPoint = (point: SynthesisPoint, i: number) => (
+    <li key={i} className="space-y-0.5">
+      <span>{point.text}</span>
+      {point.nodeIds.some(id => labelOf(id) !== undefined) && (
+        <span className="flex flex-wrap gap-0.5">
+          {point.nodeIds.filter(id => labelOf(id) !== undefined).map(id => (
+            <button key={id} onClick={() => onJumpTo?.(id)} className="px-1.5 rounded bg-slate-100 dark:bg-slate-800 text-[8px] font-bold text-slate-500 dark:text-slate-400 hover:text-blue-600 truncate max-w-[140px]">{labelOf(id)}</button>
+          ))}
+        </span>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="space-y-2.5 mb-3" onClick={e => e.stopPropagation()} onMouseDown={e => e.stopPropagation()}>
+      {GROUPS.filter(g => synthesis[g.key].length > 0).map(group => (
+        <div key={group.key}>
+          <span className={sectionLabel}>{group.label}</span>
+          <ul className="mt-1 space-y-1.5 list-disc pl-4 text-[11px] text-slate-700 dark:text-slate-200 leading-relaxed">
+            {synthesis[group.key].map(renderPoint)}
+          </ul>
+        </div>
+      ))}
+      {synthesis.nextBranch && (
+        <div className="rounded-xl bg-blue-50 dark:bg-blue-500/10 px-3 py-2">
+          <div className="flex items-center justify-between">
+            <span className={sectionLabel}>Recommended Next Branch</span>
+            {onAddNext && <button onClick={() => onAddNext(synthesis.nextBranch!.topic, synthesis.nextBranch!.reason)} className="px-2 py-0.5 rounded-lg text-[8px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500">Add to Map</button>}
+          </div>
+          <p className="text-[11px] font-bold text-slate-800 dark:text-white mt-0.5">{synthesis.nextBranch.topic}</p>
+          {synthesis.nextBranch.reason && <p className="text-[10px] text-slate-500 dark:text-slate-400">{synthesis.nextBranch.reason}</p>}
+        </div>
+      )}
+      <p className={sectionLabel}>
+        {synthesis.scope === 'branch' ? 'Branch' : 'Path'} of {drewOn} {drewOn === 1 ? 'node' : 'nodes'}{synthesis.generatedAt ? ` · ${new Date(synthesis.generatedAt).toLocaleDateString()}` : ''}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { UsageRecord } from '../types';
+import { DEFAULT_PRICES, estimateCost, formatCost, formatTokens, ModelPrice, normalizeUsageSettings, totalUsage, unpricedModels, usageByOperation, UsageSettings } from '../services/usageService';
+
+interface UsageDialogProps {
+  /** Null on the start screen, where only the session is shown */
+  mapUsage: UsageRecord[] | null;
+  sessionUsage: UsageRecord[];
+  settings: UsageSettings;
+  onSave: (settings: UsageSettings) => void;
+  onClose: () => void;
+}
+
+const sectionLabel = 'block text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1.5';
+const inputClass = 'w-full bg-slate-100 dark:bg-slate-800 rounded-xl px-3 py-2 text-[12px] font-semibold outline-none focus:ring-2 focus:ring-blue-500/40 text-slate-900 dark:text-white';
+const cellInputClass = 'w-full min-w-0 bg-slate-100 dark:bg-slate-800 rounded-lg px-2 py-1.5 text-[11px] font-semibold outline-none focus:ring-2 focus:ring-blue-500/40 text-slate-900 dark:text-white';
+
+const PRICE_FIELDS: { key: 'input' | 'output' | 'grounding'; label: string }[] = [
+  { key: 'input', label: '$ / 1M in' },
+  { key: 'output', label: '$ / 1M out' },
+  { key: 'grounding', label: '$ / 1k searches' }
+];
+
+/**
+ * Token usage and estimated cost of the open map and of this session, with the price table and spending cap
+ */
+export const UsageDialog: React.FC<UsageDialogProps> = ({ mapUsage, sessionUsage, settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<UsageSettings>(settings);
+  const breakdown = mapUsage || sessionUsage;
+  const unpriced = unpricedModels([...(mapUsage || []), ...sessionUsage], draft.prices);
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) =>
+    setDraft({ ...draft, prices: draft.prices.map((p, i) => (i === index ? { ...p, ...changes } : p)) });
+
+  const renderTotals = (label: string, records: UsageRecord[]) => {
+    const total = totalUsage(records);
+    return (
+      <div className="rounded-xl bg-slate-50 dark:bg-slate-800/60 p-3">
+        <span className={sectionLabel}>{label}</span>
+        <div className="text-[18px] font-black text-slate-900 dark:text-white">{formatCost(estimateCost(records, draft.prices))}</div>
+        <div className="text-[9px] font-semibold text-slate-500 dark:text-slate-400 leading-snug">
+          {total.calls} {total.calls === 1 ? 'call' : 'calls'} · {formatTokens(total.promptTokens)} in · {formatTokens(total.outputTokens)} out
+          {total.thinkingTokens > 0 && ` · ${formatTokens(total.thinkingTokens)} thinking`}
+          {total.groundingCalls > 0 && ` · ${total.groundingCalls} ${total.groundingCalls === 1 ? 'search' : 'searches'}`}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center bg-slate-950/60 dark:bg-black/80 p-6" onClick={onClose}>
+      <div className="w-full max-w-md max-h-full overflow-y-auto bg-white dark:bg-[#0f172a] border-2 border-slate-200 dark:border-slate-700 p-5 rounded-[1.4rem] shadow-[0_25px_60px_rgba(0,0,0,0.5)] animate-menu-pop space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="text-[9px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">Usage &amp; Cost</div>
+
+        <div className={`grid gap-3 ${mapUsage ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {mapUsage && renderTotals('This map', mapUsage)}
+          {renderTotals('This session', sessionUsage)}
+        </div>
+
+        {breakdown.length > 0 && (
+          <div>
+            <span className={sectionLabel}>By operation{mapUsage ? ' (this map)' : ''}</span>
+            <table className="w-full text-[10px]">
+              <tbody>
+                {usageByOperation(breakdown).map(op => {
+                  const total = totalUsage(op.records);
+                  return (
+                    <tr key={op.id} className="border-t border-slate-100 dark:border-slate-800">
+                      <td className="py-1 font-bold text-slate-600 dark:text-slate-300">{op.label}</td>
+                      <td className="py-1 text-right text-slate-500 dark:text-slate-400">{total.calls}×</td>
+                      <td className="py-1 text-right text-slate-500 dark:text-slate-400">{formatTokens(total.promptTokens + total.outputTokens + total.thinkingTokens)} tokens</td>
+                      <td className="py-1 text-right font-bold text-slate-800 dark:text-white">{formatCost(estimateCost(op.records, draft.prices))}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {unpriced.length > 0 && (
+          <p className="text-[10px] text-amber-600 leading-snug">No price for {unpriced.join(', ')}; counted as free.</p>
+        )}
+
+        <label className="block">
+          <span className={sectionLabel}>Spending cap ($)</span>
+          <input type="number" className={inputClass} min={0} step={0.1} value={draft.spendingCap || ''} placeholder="No cap" title="Branching stops once this map's or this session's estimated cost reaches the cap" onChange={e => setDraft({ ...draft, spendingCap: Math.max(0, Number(e.target.value) || 0) })} />
+        </label>
+
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <span className={sectionLabel}>Prices (model name prefix)</span>
+            <button onClick={() => setDraft({ ...draft, prices: DEFAULT_PRICES })} className="text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-500">Reset prices</button>
+          </div>
+          <div className="grid grid-cols-[1.6fr_1fr_1fr_1fr_auto] gap-1 text-[7px] font-bold text-slate-400 uppercase tracking-widest">
+            <span>Model</span>
+            {PRICE_FIELDS.map(f => <span key={f.key}>{f.label}</span>)}
+            <span />
+          </div>
+          {draft.prices.map((price, i) => (
+            <div key={i} className="grid grid-cols-[1.6fr_1fr_1fr_1fr_auto] gap-1 items-center">
+              <input className={cellInputClass} value={price.model} aria-label="Model name prefix" onChange={e => updatePrice(i, { model: e.target.value })} />
+              {PRICE_FIELDS.map(f => (
+                <input key={f.key} type="number" min={0} step={0.01} className={cellInputClass} value={price[f.key]} aria-label={`${price.model} ${f.label}`} onChange={e => updatePrice(i, { [f.key]: Math.max(0, Number(e.target.value) || 0) })} />
+              ))}
+              <button onClick={() => setDraft({ ...draft, prices: draft.prices.filter((_, j) => j !== i) })} aria-label={`Remove ${price.model || 'price'}`} className="p-1 rounded-lg text-slate-400 hover:text-red-500">
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+          ))}
+          <button onClick={() => setDraft({ ...draft, prices: [...draft.prices, { model: '', input: 0, output: 0, grounding: 0 }] })} className="text-[8px] font-black uppercase tracking-widest text-blue-600 dark:text-blue-400 hover:text-blue-500">+ Add model</button>
+        </div>
+
+        <div className="flex space-x-2 pt-1">
+          <button onClick={onClose} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 transition-colors">Cancel</button>
+          <button onClick={() => { onSave(normalizeUsageSettings(draft)); onClose(); }} className="flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-blue-600 text-white hover:bg-blue-500 transition-colors">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import { NodeStatus, ThoughtNode } from "../types";
+
+export const NODE_STATUSES: { id: NodeStatus; label: string; color: string }[] = [
+  { id: "to-read", label: "To read", color: "#3b82f6" },
+  { id: "reviewed", label: "Reviewed", color: "#22c55e" },
+  { id: "important", label: "Important", color: "#ef4444" },
+  { id: "dismissed", label: "Dismissed", color: "#94a3b8" }
+];
+
+export const NODE_COLORS: { label: string; value: string }[] = [
+  { label: "Red", value: "#ef4444" },
+  { label: "Orange", value: "#f97316" },
+  { label: "Yellow", value: "#eab308" },
+  { label: "Green", value: "#22c55e" },
+  { label: "Teal", value: "#14b8a6" },
+  { label: "Blue", value: "#3b82f6" },
+  { label: "Purple", value: "#a855f7" },
+  { label: "Pink", value: "#ec4899" }
+];
+
+export const isNodeStatus = (value: unknown): value is NodeStatus =>
+  NODE_STATUSES.some(s => s.id === value);
+
+export const isNodeColor = (value: unknown): value is string =>
+  typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+export const getStatusInfo = (status: NodeStatus) => NODE_STATUSES.find(s => s.id === status)!;
+
+/**
+ * Comma-separated input to a tag list: trimmed, without leading `#`, de-duplicated ignoring case
+ */
+export const parseTags = (text: string): string[] => {
+  const tags: string[] = [];
+  text.split(",").forEach(raw => {
+    const tag = raw.trim().replace(/^#+/, "").trim();
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  });
+  return tags;
+};
+
+/**
+ * Union of two tag lists, keeping the first spelling of each tag
+ */
+export const mergeTags = (a: string[] = [], b: string[] = []): string[] => parseTags([...a, ...b].join(","));
+
+/**
+ * Tags used anywhere in the map, sorted, for filters and suggestions
+ */
+export const collectTags = (nodes: ThoughtNode[]): string[] => {
+  const tags = new Map<string, string>();
+  nodes.forEach(n => n.tags?.forEach(t => { if (!tags.has(t.toLowerCase())) tags.set(t.toLowerCase(), t); }));
+  return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+};
+
+export const hasAnnotations = (node: ThoughtNode) =>
+  !!(node.notes || node.tags?.length || node.color || node.status);
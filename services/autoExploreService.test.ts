@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ThoughtNode } from "../types";
+import { AutoExploreDeps, AutoExploreOptions, createAutoExploreJob } from "./autoExploreService";
+import { createNodeId } from "./graphEditService";
+
+const OPTIONS: AutoExploreOptions = { maxDepth: 2, maxNodes: 100, concurrency: 2, maxCalls: 100, childrenPerBranch: 2, relevanceFilter: false };
+
+const child = (parentId: string, id = createNodeId()): ThoughtNode => ({
+  id, label: id, description: "", parentId, level: 1, position: { x: 0, y: 0 }, isExpanded: false, isLoading: false, path: []
+});
+
+/** Lets the job's deferred start and settled branches run */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Deps over an endless tree where node "x" has children "x.0", "x.1", … Branches resolve at
+ * once unless `manual` is set, in which case each waits for `release(id)`.
+ */
+const fakeTree = (childrenPerBranch = 2, manual = false) => {
+  const expanded: string[] = [];
+  const pending = new Map<string, () => void>();
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const deps: AutoExploreDeps = {
+    expand: async id => {
+      expanded.push(id);
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      if (manual) await new Promise<void>(resolve => pending.set(id, resolve));
+      else await flush();
+      inFlight--;
+      return Array.from({ length: childrenPerBranch }, (_, i) => child(id, `${id}.${i}`));
+    },
+    existingChildren: () => [],
+    cancel: vi.fn(),
+    onProgress: () => {}
+  };
+  const release = async (id: string) => {
+    pending.get(id)!();
+    pending.delete(id);
+    await flush();
+  };
+  return { deps, expanded, pending, release, maxInFlight: () => maxInFlight };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("auto-explore", () => {
+  it("branches breadth-first down to maxDepth", async () => {
+    const tree = fakeTree();
+    const progress = await createAutoExploreJob("r", OPTIONS, tree.deps).done;
+    expect(tree.expanded).toEqual(["r", "r.0", "r.1"]);
+    expect(progress).toMatchObject({ state: "done", expanded: 3, added: 6, depth: 2, stopReason: undefined });
+  });
+
+  it("walks existing children without branching them again", async () => {
+    const tree = fakeTree();
+    const progress = await createAutoExploreJob("r", OPTIONS, {
+      ...tree.deps,
+      existingChildren: id => (id === "r" ? [child("r", "old")] : [])
+    }).done;
+    expect(tree.expanded).toEqual(["old"]);
+    expect(progress.added).toBe(2);
+  });
+
+  it("only starts branches whose children still fit under maxNodes", async () => {
+    const tree = fakeTree(3);
+    const progress = await createAutoExploreJob("r", { ...OPTIONS, maxDepth: 5, maxNodes: 10, childrenPerBranch: 3 }, tree.deps).done;
+    expect(progress.added).toBeLessThanOrEqual(10);
+    expect(progress.added).toBe(9);
+    expect(progress.stopReason).toBe("Node limit of 10 reached");
+  });
+
+  it("counts relevance checks against maxCalls", async () => {
+    const tree = fakeTree();
+    const judge = vi.fn(async (_: string, children: ThoughtNode[]) => children.map(() => 4));
+    const progress = await createAutoExploreJob("r", { ...OPTIONS, maxDepth: 5, maxCalls: 5, relevanceFilter: true }, { ...tree.deps, judge }).done;
+    expect(tree.expanded.length + judge.mock.calls.length).toBeLessThanOrEqual(5);
+    expect(progress.calls).toBe(tree.expanded.length + judge.mock.calls.length);
+    expect(progress.stopReason).toBe("Call budget of 5 reached");
+  });
+
+  it("explores only the children the relevance filter keeps", async () => {
+    const tree = fakeTree();
+    const judge = async (_: string, children: ThoughtNode[]) => children.map(c => (c.id.endsWith(".0") ? 5 : 1));
+    const progress = await createAutoExploreJob("r", { ...OPTIONS, maxDepth: 3, relevanceFilter: true }, { ...tree.deps, judge }).done;
+    expect(tree.expanded).toEqual(["r", "r.0", "r.0.0"]);
+    expect(progress.pruned).toBe(2);
+  });
+
+  it("never runs more than `concurrency` branches at once", async () => {
+    const tree = fakeTree(3);
+    await createAutoExploreJob("r", { ...OPTIONS, maxDepth: 3, concurrency: 2 }, tree.deps).done;
+    expect(tree.expanded).toHaveLength(13);
+    expect(tree.maxInFlight()).toBe(2);
+  });
+
+  it("starts no branches while paused and carries on after resume", async () => {
+    const tree = fakeTree(2, true);
+    const job = createAutoExploreJob("r", OPTIONS, tree.deps);
+    await flush();
+    job.pause();
+    await tree.release("r");
+    expect(tree.expanded).toEqual(["r"]);
+    expect(job.getProgress()).toMatchObject({ state: "paused", queued: 2, inFlight: 0 });
+
+    job.resume();
+    expect(tree.expanded).toEqual(["r", "r.0", "r.1"]);
+    await tree.release("r.0");
+    await tree.release("r.1");
+    expect((await job.done).state).toBe("done");
+  });
+
+  it("cancels every in-flight branch and resolves as cancelled", async () => {
+    const tree = fakeTree(2, true);
+    const job = createAutoExploreJob("r", OPTIONS, tree.deps);
+    await flush();
+    await tree.release("r");
+    expect([...tree.pending.keys()]).toEqual(["r.0", "r.1"]);
+
+    job.cancel();
+    expect(tree.deps.cancel).toHaveBeenCalledWith("r.0");
+    expect(tree.deps.cancel).toHaveBeenCalledWith("r.1");
+    expect(await job.done).toMatchObject({ state: "cancelled", queued: 0 });
+  });
+
+  it("stops when the app's own limit is reached", async () => {
+    const tree = fakeTree();
+    let reason: string | null = null;
+    const progress = await createAutoExploreJob("r", { ...OPTIONS, maxDepth: 5 }, {
+      ...tree.deps,
+      expand: async id => {
+        reason = "Spending cap of $1.00 reached for this map";
+        return tree.deps.expand(id);
+      },
+      outsideLimit: () => reason
+    }).done;
+    expect(tree.expanded).toEqual(["r"]);
+    expect(progress).toMatchObject({ state: "done", stopReason: "Spending cap of $1.00 reached for this map" });
+  });
+
+  it("never gives two concurrent branches the same child ids", async () => {
+    // Every branch finishes in the same millisecond
+    vi.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+    const added: ThoughtNode[] = [];
+    const job = createAutoExploreJob("root", { ...OPTIONS, maxDepth: 3, concurrency: 4, childrenPerBranch: 3 }, {
+      ...fakeTree().deps,
+      expand: async id => {
+        const children = [child(id), child(id), child(id)];
+        added.push(...children);
+        return children;
+      }
+    });
+
+    const progress = await job.done;
+    expect(progress.expanded).toBeGreaterThan(4);
+    expect(new Set(added.map(n => n.id)).size).toBe(added.length);
+  });
+});
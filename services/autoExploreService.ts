@@ -0,0 +1,178 @@
+import { ThoughtNode } from "../types";
+
+/** Children scoring below this (on the judge's 1–5 scale) are kept on the map but not explored */
+export const MIN_RELEVANCE = 3;
+
+export interface AutoExploreOptions {
+  /** Levels to add below the start node */
+  maxDepth: number;
+  /** Upper bound on new nodes; a branch is only started while its children still fit */
+  maxNodes: number;
+  /** Branches requested at once */
+  concurrency: number;
+  /** Model calls the job may make, counting branches and relevance checks */
+  maxCalls: number;
+  /** Children each branch asks for, to keep `maxNodes` an upper bound */
+  childrenPerBranch: number;
+  /** Have the model score new children and stop exploring weak ones */
+  relevanceFilter: boolean;
+}
+
+/** What the user chooses; the branch size comes from the map's generation settings */
+export type AutoExploreSetup = Omit<AutoExploreOptions, "childrenPerBranch">;
+
+export const DEFAULT_AUTO_EXPLORE: AutoExploreSetup = { maxDepth: 2, maxNodes: 30, concurrency: 2, maxCalls: 20, relevanceFilter: false };
+
+export type AutoExploreState = "running" | "paused" | "done" | "cancelled";
+
+export interface AutoExploreProgress {
+  state: AutoExploreState;
+  /** Branches completed */
+  expanded: number;
+  /** Nodes added */
+  added: number;
+  calls: number;
+  /** Children the relevance filter stopped */
+  pruned: number;
+  failed: number;
+  queued: number;
+  inFlight: number;
+  /** Deepest level reached, relative to the start node */
+  depth: number;
+  /** Why the job ended before running out of nodes to explore */
+  stopReason?: string;
+}
+
+export interface AutoExploreDeps {
+  /** Branches a node and resolves with the children it gained */
+  expand: (id: string) => Promise<ThoughtNode[]>;
+  /** Children a node already has; the job walks into those instead of branching it again */
+  existingChildren: (id: string) => ThoughtNode[];
+  /** Stops an in-flight branch */
+  cancel: (id: string) => void;
+  /** Scores each child from 1 to 5; null where the model gave no score */
+  judge?: (parentId: string, children: ThoughtNode[]) => Promise<(number | null)[]>;
+  /** Why no more branches may start on the app's side, e.g. a spending cap; null while they may */
+  outsideLimit?: () => string | null;
+  onProgress: (progress: AutoExploreProgress) => void;
+}
+
+/**
+ * A breadth-first exploration from one node. Nodes are branched in the order they were
+ * discovered, at most `concurrency` at a time, until the levels, node limit or call budget
+ * run out; branches that already exist are walked without new calls. Pausing lets in-flight
+ * branches finish but starts no new ones.
+ */
+export interface AutoExploreJob {
+  /** Resolves with the final progress once the job finishes or is cancelled */
+  readonly done: Promise<AutoExploreProgress>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  getProgress: () => AutoExploreProgress;
+}
+
+export const createAutoExploreJob = (startId: string, options: AutoExploreOptions, deps: AutoExploreDeps): AutoExploreJob => {
+  let state: AutoExploreState = "running";
+  let stopReason: string | undefined;
+  const queue: { id: string; depth: number }[] = [{ id: startId, depth: 0 }];
+  const inFlight = new Set<string>();
+  const counts = { expanded: 0, added: 0, calls: 0, pruned: 0, failed: 0, depth: 0 };
+  let resolveDone: (progress: AutoExploreProgress) => void = () => {};
+  const done = new Promise<AutoExploreProgress>(resolve => { resolveDone = resolve; });
+
+  const getProgress = (): AutoExploreProgress => ({ state, ...counts, queued: queue.length, inFlight: inFlight.size, stopReason });
+  const isFinished = () => state === "done" || state === "cancelled";
+
+  const finish = (final: AutoExploreState, reason?: string) => {
+    state = final;
+    stopReason = reason;
+    deps.onProgress(getProgress());
+    resolveDone(getProgress());
+  };
+
+  /**
+   * Why the next branch cannot start. In-flight branches count at their full size and, with
+   * the filter on, with the relevance check they may still need; so does the next branch.
+   */
+  const blockedBy = () => {
+    const outside = deps.outsideLimit?.();
+    if (outside) return outside;
+    const callsPerBranch = options.relevanceFilter ? 2 : 1;
+    const pendingChecks = options.relevanceFilter ? inFlight.size : 0;
+    if (counts.calls + pendingChecks + callsPerBranch > options.maxCalls) return `Call budget of ${options.maxCalls} reached`;
+    if (counts.added + (inFlight.size + 1) * options.childrenPerBranch > options.maxNodes) return `Node limit of ${options.maxNodes} reached`;
+    return null;
+  };
+
+  const pump = () => {
+    if (state !== "running") {
+      deps.onProgress(getProgress());
+      return;
+    }
+    let blocked = blockedBy();
+    while (!blocked && queue.length > 0 && inFlight.size < options.concurrency) {
+      const next = queue.shift()!;
+      const existing = deps.existingChildren(next.id);
+      if (existing.length > 0) {
+        if (next.depth + 1 < options.maxDepth) queue.push(...existing.map(child => ({ id: child.id, depth: next.depth + 1 })));
+      } else {
+        run(next);
+      }
+      blocked = blockedBy();
+    }
+    if (inFlight.size === 0) finish("done", queue.length > 0 ? blocked || undefined : undefined);
+    else deps.onProgress(getProgress());
+  };
+
+  const run = async ({ id, depth }: { id: string; depth: number }) => {
+    inFlight.add(id);
+    counts.calls++;
+    try {
+      const children = await deps.expand(id);
+      if (isFinished()) return;
+      counts.expanded++;
+      counts.added += children.length;
+      if (children.length > 0) counts.depth = Math.max(counts.depth, depth + 1);
+      // Children on the last level are never branched, so they need no verdict
+      if (depth + 1 >= options.maxDepth) return;
+      let explore = children;
+      if (options.relevanceFilter && deps.judge && children.length > 0) {
+        counts.calls++;
+        const scores = await deps.judge(id, children).catch(() => children.map(() => null));
+        explore = children.filter((_, i) => (scores[i] ?? MIN_RELEVANCE) >= MIN_RELEVANCE);
+        counts.pruned += children.length - explore.length;
+      }
+      queue.push(...explore.map(child => ({ id: child.id, depth: depth + 1 })));
+    } catch {
+      counts.failed++;
+    } finally {
+      inFlight.delete(id);
+      if (!isFinished()) pump();
+    }
+  };
+
+  // Defer the first branch so callers can keep the job before its first progress report
+  setTimeout(pump, 0);
+
+  return {
+    done,
+    getProgress,
+    pause: () => {
+      if (state !== "running") return;
+      state = "paused";
+      deps.onProgress(getProgress());
+    },
+    resume: () => {
+      if (state !== "paused") return;
+      state = "running";
+      pump();
+    },
+    cancel: () => {
+      if (isFinished()) return;
+      queue.length = 0;
+      inFlight.forEach(id => deps.cancel(id));
+      finish("cancelled");
+    }
+  };
+};
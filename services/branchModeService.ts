@@ -0,0 +1,83 @@
+import { BranchingResponse, BranchMode } from "../types";
+import { parseTopics } from "./topicParser";
+
+export interface BranchModeInfo {
+  id: BranchMode;
+  label: string;
+  /** Node badge for children that carry no facet */
+  badge: string;
+  color: string;
+  /** What the children are, completing "find exactly N ..."; `{c}` is the concept */
+  task: string;
+  /** Extra per-topic line, e.g. `## SIDE: Pro` */
+  facetLabel?: string;
+  /** Allowed facet values; without them the facet is free text */
+  facetValues?: string[];
+  /** Placeholder for a free-text facet line */
+  facetHint?: string;
+}
+
+export const BRANCH_MODES: BranchModeInfo[] = [
+  { id: "related", label: "Related topics", badge: "Related", color: "#64748b", task: "NEW distinct and high-level topics branching from \"{c}\"" },
+  { id: "causes-effects", label: "Causes & effects", badge: "Cause/Effect", color: "#f97316", task: "NEW causes that led to \"{c}\" and effects that follow from it, with both kinds represented", facetLabel: "KIND", facetValues: ["Cause", "Effect"] },
+  { id: "pros-cons", label: "Pros & cons", badge: "Pro/Con", color: "#22c55e", task: "NEW arguments for and against \"{c}\", balanced between both sides", facetLabel: "SIDE", facetValues: ["Pro", "Con"] },
+  { id: "timeline", label: "History timeline", badge: "Timeline", color: "#a855f7", task: "NEW milestones in the history of \"{c}\", listed in chronological order", facetLabel: "DATE", facetHint: "[Year or period, e.g. 1949 or 1960s]" },
+  { id: "components", label: "Sub-components", badge: "Part", color: "#14b8a6", task: "NEW parts, sub-systems or building blocks that make up \"{c}\"" },
+  { id: "counter-arguments", label: "Counter-arguments", badge: "Counter", color: "#ef4444", task: "NEW strong counter-arguments, critiques or objections to \"{c}\", each from a different angle" },
+  { id: "key-people", label: "Key people", badge: "Person", color: "#3b82f6", task: "NEW people who shaped \"{c}\", using each person's name as the topic", facetLabel: "ROLE", facetHint: "[Their role in 1-4 words]" },
+  { id: "applications", label: "Practical applications", badge: "Use", color: "#eab308", task: "NEW concrete practical applications or real-world uses of \"{c}\"" },
+  { id: "open-questions", label: "Open research questions", badge: "Question", color: "#ec4899", task: "NEW open research questions about \"{c}\" that are still unresolved, each topic phrased as a short question" }
+];
+
+const MAX_FREE_FACET_LENGTH = 40;
+const TOPIC_LINE = /^\s*(?:#{1,6}\s*|[-*+•]\s+|\(?\d+[.)]\s+)*\**(?:topic|title|name|concept)\s*\d*\**\s*[:：]/i;
+
+export const isBranchMode = (value: unknown): value is BranchMode =>
+  BRANCH_MODES.some(m => m.id === value);
+
+export const getBranchModeInfo = (mode: BranchMode) => BRANCH_MODES.find(m => m.id === mode)!;
+
+/**
+ * The per-topic answer format a mode asks for, one line per label
+ */
+export const branchFormatLines = (mode: BranchMode): string[] => {
+  const info = getBranchModeInfo(mode);
+  return [
+    "## TOPIC: [Name]",
+    ...(info.facetLabel ? [`## ${info.facetLabel}: ${info.facetHint || `[${info.facetValues!.join(" or ")}]`}`] : []),
+    "## DESC: [One sentence insight]"
+  ];
+};
+
+/**
+ * Matches a facet to the mode's allowed values by prefix ("Pros" -> "Pro", "effects" -> "Effect")
+ */
+const normalizeFacet = (info: BranchModeInfo, raw: string): string | undefined => {
+  const value = raw.replace(/\*\*|__|[[\]]/g, "").replace(/[.;,]+$/, "").trim();
+  if (!value) return undefined;
+  if (!info.facetValues) return value.slice(0, MAX_FREE_FACET_LENGTH);
+  return info.facetValues.find(v => value.toLowerCase().startsWith(v.toLowerCase()));
+};
+
+/**
+ * parseTopics for a mode. Facet lines are taken out before the shared parser sees the text and
+ * attached to the topic they follow; facets outside a mode's allowed values are dropped.
+ * Safe to call on a partial stream.
+ */
+export const parseModeTopics = (text: string, mode: BranchMode): BranchingResponse[] => {
+  const info = getBranchModeInfo(mode);
+  if (!info.facetLabel) return parseTopics(text);
+
+  const facetLine = new RegExp(`^\\s*(?:#{1,6}\\s*)?\\**${info.facetLabel}\\**\\s*[:：]\\s*(.*)$`, "i");
+  const facets: (string | undefined)[] = [];
+  let topicIndex = -1;
+  const kept = text.split(/\r?\n/).filter(line => {
+    if (TOPIC_LINE.test(line)) topicIndex++;
+    const match = line.match(facetLine);
+    if (!match) return true;
+    if (topicIndex >= 0) facets[topicIndex] = normalizeFacet(info, match[1]);
+    return false;
+  });
+
+  return parseTopics(kept.join("\n")).map((topic, i) => facets[i] ? { ...topic, facet: facets[i] } : topic);
+};
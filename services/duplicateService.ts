@@ -0,0 +1,65 @@
+import { ThoughtNode } from "../types";
+import { topicSimilarity } from "./topicParser";
+
+/** Looser than the branching de-duplication, since every flag goes through review */
+const LABEL_THRESHOLD = 0.8;
+const EMBEDDING_THRESHOLD = 0.9;
+
+export interface DuplicatePair {
+  /** The shallower node, suggested as the one to keep */
+  keepId: string;
+  dropId: string;
+  /** 0..1, label similarity or embedding cosine similarity depending on `reason` */
+  score: number;
+  reason: "label" | "meaning";
+}
+
+const orderPair = (a: ThoughtNode, b: ThoughtNode) => (b.level < a.level ? [b, a] : [a, b]);
+
+/**
+ * Pairs of nodes whose normalised labels nearly match, most similar first
+ */
+export const findLabelDuplicates = (nodes: ThoughtNode[]): DuplicatePair[] => {
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const score = topicSimilarity(nodes[i].label, nodes[j].label);
+      if (score < LABEL_THRESHOLD) continue;
+      const [keep, drop] = orderPair(nodes[i], nodes[j]);
+      pairs.push({ keepId: keep.id, dropId: drop.id, score, reason: "label" });
+    }
+  }
+  return pairs.sort((a, b) => b.score - a.score);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+};
+
+/**
+ * Pairs whose embeddings (one vector per node, same order as `nodes`) point the same way,
+ * skipping pairs already flagged by label
+ */
+export const findEmbeddingDuplicates = (nodes: ThoughtNode[], vectors: number[][], known: DuplicatePair[] = []): DuplicatePair[] => {
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      if (!vectors[i]?.length || !vectors[j]?.length) continue;
+      if (known.some(p => isSamePair(p, nodes[i].id, nodes[j].id))) continue;
+      const score = cosineSimilarity(vectors[i], vectors[j]);
+      if (score < EMBEDDING_THRESHOLD) continue;
+      const [keep, drop] = orderPair(nodes[i], nodes[j]);
+      pairs.push({ keepId: keep.id, dropId: drop.id, score, reason: "meaning" });
+    }
+  }
+  return pairs.sort((a, b) => b.score - a.score);
+};
+
+export const isSamePair = (pair: DuplicatePair, a: string, b: string) =>
+  (pair.keepId === a && pair.dropId === b) || (pair.keepId === b && pair.dropId === a);
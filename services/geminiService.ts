@@ -1,6 +1,7 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { BranchingResponse, GroundingSource } from "../types";
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { GroundingSource, TokenUsage } from "../types";
+import { GenerateRequest, GroundingSupport, LLMProvider, ProviderSettings } from "./llmProvider";
 
 /**
  * Handles the "entity not found" error by prompting for a key selection
@@ -15,129 +16,138 @@ const handleApiError = async (error: any) => {
   throw error;
 };
 
-export const getTopicInfo = async (
-  concept: string
-): Promise<{ description: string, sources: GroundingSource[] }> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Search for and provide a one-sentence factual insight for the concept: "${concept}". Return only the description text.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
+// Ensure API Key is selected for Pro models
+const ensureApiKey = async () => {
+  if (typeof window !== 'undefined' && (window as any).aistudio) {
+    const hasKey = await (window as any).aistudio.hasSelectedApiKey();
+    if (!hasKey) {
+      await (window as any).aistudio.openSelectKey();
+    }
+  }
+};
 
-    const sources: GroundingSource[] = [];
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.web) {
-          sources.push({
-            title: chunk.web.title || "Source",
-            uri: chunk.web.uri
-          });
-        }
+/**
+ * Collects web sources and the text spans they support. Sources are de-duplicated by URI
+ * against `known`, so supports index into the accumulated list.
+ */
+const extractGrounding = (response: GenerateContentResponse, known: GroundingSource[] = []) => {
+  const sources = [...known];
+  const supports: GroundingSupport[] = [];
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const chunkToSource = new Map<number, number>();
+
+  metadata?.groundingChunks?.forEach((chunk: any, chunkIndex: number) => {
+    if (!chunk.web?.uri) return;
+    let sourceIndex = sources.findIndex(s => s.uri === chunk.web.uri);
+    if (sourceIndex === -1) {
+      sources.push({
+        title: chunk.web.title || "Source",
+        uri: chunk.web.uri
       });
+      sourceIndex = sources.length - 1;
     }
+    chunkToSource.set(chunkIndex, sourceIndex);
+  });
 
-    return { 
-      description: response.text?.trim() || "A fascinating area for exploration.", 
-      sources 
-    };
-  } catch (error) {
-    await handleApiError(error);
-    return { description: "Explore the connections and history of this concept.", sources: [] };
-  }
+  metadata?.groundingSupports?.forEach(support => {
+    const sourceIndices = (support.groundingChunkIndices || [])
+      .map(i => chunkToSource.get(i))
+      .filter((i): i is number => i !== undefined);
+    if (support.segment?.text && sourceIndices.length > 0) {
+      supports.push({ text: support.segment.text, sourceIndices });
+    }
+  });
+
+  return { sources, supports };
 };
 
-export const getRelatedTopics = async (
-  concept: string, 
-  count: number = 3,
-  contextPath: string[] = [],
-  excludeTopics: string[] = [],
-  useThinking: boolean = false
-): Promise<{ topics: BranchingResponse[], sources: GroundingSource[] }> => {
+/**
+ * Token counts of a response. Stream chunks carry running totals, and the search queries may
+ * arrive before the final chunk, so `knownSearches` keeps the highest count seen.
+ */
+const extractUsage = (response: GenerateContentResponse, knownSearches = 0): TokenUsage | undefined => {
+  const usage = response.usageMetadata;
+  if (!usage) return undefined;
+  return {
+    promptTokens: (usage.promptTokenCount || 0) + (usage.toolUsePromptTokenCount || 0),
+    outputTokens: usage.candidatesTokenCount || 0,
+    thinkingTokens: usage.thoughtsTokenCount || 0,
+    groundingCalls: Math.max(knownSearches, response.candidates?.[0]?.groundingMetadata?.webSearchQueries?.length || 0)
+  };
+};
+
+export const createGeminiProvider = (settings: ProviderSettings): LLMProvider => {
   // Always create a new instance right before the call to ensure the latest API Key is used
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const contextDescription = contextPath.length > 0 
-    ? `The user's current exploration path is: ${contextPath.join(' -> ')} -> ${concept}.` 
-    : `The user is starting an exploration on: ${concept}.`;
+  const client = () => new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+
+  // When using googleSearch, do NOT use responseMimeType: "application/json"
+  // because the response text will contain grounding citations.
+  const toParams = (request: GenerateRequest) => ({
+    model: request.model || settings.models[request.tier],
+    contents: request.prompt,
+    config: {
+      tools: request.useSearch ? [{ googleSearch: {} }] : undefined,
+      thinkingConfig: request.thinkingBudget ? { thinkingBudget: request.thinkingBudget } : undefined,
+      temperature: request.temperature,
+      abortSignal: request.signal
+    }
+  });
 
-  const exclusionPrompt = excludeTopics.length > 0
-    ? `Do not suggest any of the following topics: ${excludeTopics.join(', ')}.`
-    : "";
+  return {
+    id: "gemini",
+    label: "Google Gemini",
+    ensureReady: ensureApiKey,
 
-  try {
-    // When using googleSearch, do NOT use responseMimeType: "application/json" 
-    // because the response text will contain grounding citations.
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: `
-        ${contextDescription} 
-        ${exclusionPrompt}
-        
-        TASK:
-        1. Use Google Search to find exactly ${count} NEW distinct and high-level topics branching from "${concept}".
-        2. For each topic, provide a one-sentence factual insight.
-        
-        FORMAT YOUR RESPONSE EXACTLY LIKE THIS FOR EACH TOPIC:
-        ## TOPIC: [Name]
-        ## DESC: [One sentence insight]
-        
-        Ensure suggestions are unique and specific.
-      `,
-      config: {
-        tools: [{ googleSearch: {} }],
-        thinkingConfig: useThinking ? { thinkingBudget: 4000 } : undefined,
-      },
-    });
+    generate: async (request) => {
+      try {
+        const response = await client().models.generateContent(toParams(request));
+        return { text: response.text || "", ...extractGrounding(response), usage: extractUsage(response) };
+      } catch (error) {
+        return handleApiError(error);
+      }
+    },
 
-    // Extract grounding sources
-    const sources: GroundingSource[] = [];
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.web) {
-          sources.push({
-            title: chunk.web.title || "Verified Source",
-            uri: chunk.web.uri
-          });
+    generateStream: async function* (request) {
+      let stream: AsyncGenerator<GenerateContentResponse>;
+      try {
+        stream = await client().models.generateContentStream(toParams(request));
+      } catch (error) {
+        return handleApiError(error);
+      }
+      let sources: GroundingSource[] = [];
+      const supports: GroundingSupport[] = [];
+      let searches = 0;
+      try {
+        for await (const chunk of stream) {
+          const usage = extractUsage(chunk, searches);
+          searches = Math.max(searches, chunk.candidates?.[0]?.groundingMetadata?.webSearchQueries?.length || 0);
+          const grounding = extractGrounding(chunk, sources);
+          const hasNewGrounding = grounding.sources.length > sources.length || grounding.supports.length > 0;
+          sources = grounding.sources;
+          supports.push(...grounding.supports);
+          yield {
+            text: chunk.text || "",
+            sources: hasNewGrounding ? [...sources] : undefined,
+            supports: hasNewGrounding ? [...supports] : undefined,
+            usage
+          };
         }
-      });
-    }
+      } catch (error) {
+        await handleApiError(error);
+      }
+    },
 
-    const text = response.text || "";
-    const topics: BranchingResponse[] = [];
-    
-    // Manual parsing of the structured text format
-    const topicBlocks = text.split(/## TOPIC:/g).filter(block => block.trim().length > 0);
-    
-    topicBlocks.forEach(block => {
-      const lines = block.split('\n');
-      const topicName = lines[0].trim();
-      const descLine = lines.find(l => l.includes('## DESC:'));
-      if (topicName && descLine) {
-        topics.push({
-          topic: topicName,
-          description: descLine.replace('## DESC:', '').trim()
+    embed: async (texts, signal) => {
+      try {
+        const response = await client().models.embedContent({
+          model: settings.models.embedding,
+          contents: texts,
+          config: { abortSignal: signal }
         });
+        return (response.embeddings || []).map(e => e.values || []);
+      } catch (error) {
+        return handleApiError(error);
       }
-    });
-
-    // If parsing failed, try a simpler fallback for safety
-    if (topics.length === 0) {
-      throw new Error("Failed to parse search results into topics.");
     }
-
-    return { 
-      topics: topics.slice(0, count), 
-      sources 
-    };
-  } catch (error) {
-    await handleApiError(error);
-    // Rethrow to let the UI handle the error state instead of generic fallbacks
-    throw error;
-  }
+  };
 };
@@ -0,0 +1,84 @@
+import { GenerationSettings, LLMOperation } from "../types";
+import { ModelTier } from "./llmProvider";
+
+const DEFAULTS_KEY = "thought-explorer:generation-defaults";
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  branchCount: 3,
+  models: {},
+  thinkingBudget: 4000,
+  temperature: null,
+  language: "",
+  useSearch: true,
+  maxDepth: 0
+};
+
+export const GENERATION_LIMITS = {
+  branchCount: { min: 1, max: 8 },
+  thinkingBudget: { min: 0, max: 32768 },
+  temperature: { min: 0, max: 2 },
+  maxDepth: { min: 0, max: 20 },
+  language: { maxLength: 40 }
+};
+
+/**
+ * Every operation with the model tier thoughtService asks for it on, for "provider default" hints
+ */
+export const GENERATION_OPERATIONS: { id: LLMOperation; label: string; tier: ModelTier }[] = [
+  { id: "topic-info", label: "Insights", tier: "fast" },
+  { id: "related-topics", label: "Branching", tier: "reasoning" },
+  { id: "connections", label: "Finding links", tier: "fast" },
+  { id: "deep-dive", label: "Deep dives", tier: "reasoning" },
+  { id: "synthesis", label: "Synthesis", tier: "reasoning" },
+  { id: "relevance", label: "Relevance checks", tier: "fast" }
+];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/**
+ * Settings from storage or a map file: out-of-range numbers are clamped and anything unreadable
+ * falls back to the default, so the result is always usable
+ */
+export const normalizeGenerationSettings = (raw: unknown, fallback: GenerationSettings = DEFAULT_GENERATION_SETTINGS): GenerationSettings => {
+  if (!isObject(raw)) return fallback;
+  const models: GenerationSettings["models"] = {};
+  if (isObject(raw.models)) {
+    GENERATION_OPERATIONS.forEach(({ id }) => {
+      const model = raw.models[id];
+      if (typeof model === "string" && model.trim()) models[id] = model.trim();
+    });
+  }
+  return {
+    branchCount: Math.round(clamp(raw.branchCount, GENERATION_LIMITS.branchCount, fallback.branchCount)),
+    models,
+    thinkingBudget: Math.round(clamp(raw.thinkingBudget, GENERATION_LIMITS.thinkingBudget, fallback.thinkingBudget)),
+    temperature: typeof raw.temperature === "number" && Number.isFinite(raw.temperature)
+      ? clamp(raw.temperature, GENERATION_LIMITS.temperature, 0)
+      : raw.temperature === null ? null : fallback.temperature,
+    language: typeof raw.language === "string" ? raw.language.trim().slice(0, GENERATION_LIMITS.language.maxLength) : fallback.language,
+    useSearch: typeof raw.useSearch === "boolean" ? raw.useSearch : fallback.useSearch,
+    maxDepth: Math.round(clamp(raw.maxDepth, GENERATION_LIMITS.maxDepth, fallback.maxDepth))
+  };
+};
+
+export const loadGenerationDefaults = (): GenerationSettings => {
+  try {
+    return normalizeGenerationSettings(JSON.parse(localStorage.getItem(DEFAULTS_KEY) || "null"));
+  } catch {
+    return DEFAULT_GENERATION_SETTINGS;
+  }
+};
+
+export const saveGenerationDefaults = (settings: GenerationSettings) => {
+  localStorage.setItem(DEFAULTS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Whether a node at `level` may be branched further under the map's depth limit
+ */
+export const isWithinDepthLimit = (settings: GenerationSettings, level: number) =>
+  settings.maxDepth === 0 || level < settings.maxDepth;
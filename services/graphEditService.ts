@@ -0,0 +1,336 @@
+import { Edge, GroundingSource, NodeAnnotations, Synthesis, ThoughtNode } from "../types";
+import { createCommand, GraphCommand, NodePatch } from "./historyService";
+import { mergeTags } from "./annotationService";
+
+/**
+ * Ids of a node and everything below it
+ */
+export const collectSubtree = (nodes: ThoughtNode[], id: string): Set<string> => {
+  const subtree = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    nodes.forEach(n => {
+      if (n.parentId && subtree.has(n.parentId) && !subtree.has(n.id)) {
+        subtree.add(n.id);
+        grew = true;
+      }
+    });
+  }
+  return subtree;
+};
+
+export const edgeIdFor = (from: string, to: string) => `edge-${from}-${to}`;
+
+let nodeSequence = 0;
+
+/**
+ * A fresh node id; the sequence keeps ids apart when several branches add nodes in the same millisecond
+ */
+export const createNodeId = (prefix = "node") => `${prefix}-${Date.now()}-${++nodeSequence}`;
+
+const linksPair = (edge: Edge, a: string, b: string) =>
+  (edge.from === a && edge.to === b) || (edge.from === b && edge.to === a);
+
+/**
+ * Whether any edge, tree or cross, already joins the two nodes in either direction
+ */
+export const areConnected = (edges: Edge[], a: string, b: string) => edges.some(e => linksPair(e, a, b));
+
+export const createLinkCommand = (
+  edges: Edge[],
+  links: { from: string; to: string; label?: string; isSuggested?: boolean }[],
+  label = "Link"
+): GraphCommand => {
+  const added: Edge[] = [];
+  links.forEach(link => {
+    if (link.from === link.to || areConnected([...edges, ...added], link.from, link.to)) return;
+    added.push({ id: `link-${link.from}-${link.to}`, from: link.from, to: link.to, kind: "cross", label: link.label || undefined, isSuggested: link.isSuggested || undefined });
+  });
+  return createCommand(label, { addEdges: added });
+};
+
+/**
+ * Relabels or accepts a cross-link by swapping it for an updated copy under the same id
+ */
+export const createUpdateLinkCommand = (edge: Edge, changes: Partial<Pick<Edge, "label" | "isSuggested">>, label: string): GraphCommand =>
+  createCommand(label, { removeEdges: [edge], addEdges: [{ ...edge, ...changes }] });
+
+/**
+ * Removes a node together with its descendants and every edge touching them
+ */
+export const createPruneCommand = (nodes: ThoughtNode[], edges: Edge[], id: string): GraphCommand => {
+  const doomed = collectSubtree(nodes, id);
+  return createCommand("Prune", {
+    removeNodes: nodes.filter(n => doomed.has(n.id)),
+    removeEdges: edges.filter(e => doomed.has(e.from) || doomed.has(e.to))
+  });
+};
+
+/**
+ * Recomputes `level` and `path` below `rootId`, assuming the root itself already has the
+ * given values. Returns patches only for nodes whose values change.
+ */
+const relabelSubtree = (nodes: ThoughtNode[], rootId: string, root: { level: number; path: string[] }): NodePatch[] => {
+  const patches: NodePatch[] = [];
+  const byParent = new Map<string, ThoughtNode[]>();
+  nodes.forEach(n => {
+    if (n.parentId) byParent.set(n.parentId, [...(byParent.get(n.parentId) || []), n]);
+  });
+  const visit = (id: string, level: number, path: string[]) => {
+    (byParent.get(id) || []).forEach(child => {
+      const childPath = [...path, child.label];
+      if (child.level !== level + 1 || child.path.join("\u0000") !== childPath.join("\u0000")) {
+        patches.push({ id: child.id, before: { level: child.level, path: child.path }, after: { level: level + 1, path: childPath } });
+      }
+      visit(child.id, level + 1, childPath);
+    });
+  };
+  visit(rootId, root.level, root.path);
+  return patches;
+};
+
+/**
+ * A hand-written node under `parent`, placed one generation above it like generated children
+ */
+export const createAddNodeCommand = (
+  parent: ThoughtNode,
+  content: { label: string; description: string },
+  position: { x: number; y: number }
+): { command: GraphCommand; node: ThoughtNode } => {
+  const id = createNodeId("node-manual");
+  const node: ThoughtNode = {
+    id,
+    label: content.label,
+    description: content.description,
+    parentId: parent.id,
+    level: parent.level + 1,
+    position,
+    isExpanded: false,
+    isLoading: false,
+    isManual: true,
+    path: [...parent.path, content.label]
+  };
+  const command = createCommand("Add Node", {
+    addNodes: [node],
+    addEdges: [{ id: edgeIdFor(parent.id, id), from: parent.id, to: id }],
+    patchNodes: parent.isExpanded && !parent.isCollapsed ? [] : [
+      { id: parent.id, before: { isExpanded: parent.isExpanded, isCollapsed: parent.isCollapsed }, after: { isExpanded: true, isCollapsed: false } }
+    ]
+  });
+  return { command, node };
+};
+
+const MAX_SYNTHESIS_LINKS = 12;
+
+/**
+ * A summary node under `anchor` holding `synthesis`, cross-linked to the nodes its points cite
+ * (most-cited first) so the graph shows what it drew on
+ */
+export const createSynthesisCommand = (
+  anchor: ThoughtNode,
+  edges: Edge[],
+  synthesis: Synthesis,
+  summary: string,
+  position: { x: number; y: number }
+): { command: GraphCommand; node: ThoughtNode } => {
+  const id = createNodeId("node-synthesis");
+  const label = synthesis.scope === "branch" ? `Synthesis: ${anchor.label}` : `Path Synthesis: ${anchor.label}`;
+  const node: ThoughtNode = {
+    id,
+    label,
+    description: summary,
+    parentId: anchor.id,
+    level: anchor.level + 1,
+    position,
+    isExpanded: false,
+    isLoading: false,
+    path: [...anchor.path, label],
+    synthesis
+  };
+
+  const citeCounts = new Map<string, number>();
+  [...synthesis.themes, ...synthesis.contradictions, ...synthesis.openQuestions]
+    .forEach(point => point.nodeIds.forEach(nodeId => citeCounts.set(nodeId, (citeCounts.get(nodeId) || 0) + 1)));
+  const treeEdge: Edge = { id: edgeIdFor(anchor.id, id), from: anchor.id, to: id };
+  const links = [...citeCounts.entries()]
+    .filter(([nodeId]) => nodeId !== anchor.id)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_SYNTHESIS_LINKS)
+    .map(([nodeId]) => ({ from: id, to: nodeId, label: "draws on" }));
+
+  const command = createCommand("Synthesise", {
+    addNodes: [node],
+    addEdges: [treeEdge, ...createLinkCommand([...edges, treeEdge], links).addEdges],
+    patchNodes: anchor.isExpanded && !anchor.isCollapsed ? [] : [
+      { id: anchor.id, before: { isExpanded: anchor.isExpanded, isCollapsed: anchor.isCollapsed }, after: { isExpanded: true, isCollapsed: false } }
+    ]
+  });
+  return { command, node };
+};
+
+/**
+ * Renames and/or rewrites a node; a new label is carried into the paths of its descendants
+ */
+export const createEditNodeCommand = (nodes: ThoughtNode[], id: string, content: { label: string; description: string }): GraphCommand | null => {
+  const node = nodes.find(n => n.id === id);
+  if (!node) return null;
+  const path = [...node.path.slice(0, -1), content.label];
+  const descriptionChanged = content.description !== node.description;
+  return createCommand(content.label !== node.label ? "Rename" : "Edit", {
+    patchNodes: [
+      {
+        id,
+        before: { label: node.label, description: node.description, path: node.path, ...(descriptionChanged ? { citations: node.citations } : {}) },
+        // Citations point into the old text, so they cannot survive a rewrite
+        after: { label: content.label, description: content.description, path, ...(descriptionChanged ? { citations: undefined } : {}) }
+      },
+      ...relabelSubtree(nodes, id, { level: node.level, path })
+    ]
+  });
+};
+
+const ANNOTATION_LABELS: Record<keyof NodeAnnotations, string> = { notes: "Edit Notes", tags: "Edit Tags", color: "Colour", status: "Set Status" };
+
+/**
+ * Changes some of a node's annotations as one step; null when nothing changes. Empty values are
+ * stored as missing so saved maps and exports carry no blank fields.
+ */
+export const createAnnotateCommand = (nodes: ThoughtNode[], id: string, changes: NodeAnnotations): GraphCommand | null => {
+  const node = nodes.find(n => n.id === id);
+  if (!node) return null;
+  const cleaned: NodeAnnotations = {
+    notes: changes.notes?.trim() ? changes.notes : undefined,
+    tags: changes.tags?.length ? changes.tags : undefined,
+    color: changes.color || undefined,
+    status: changes.status || undefined
+  };
+  const keys = (Object.keys(changes) as (keyof NodeAnnotations)[])
+    .filter(k => JSON.stringify(cleaned[k]) !== JSON.stringify(node[k]));
+  if (keys.length === 0) return null;
+  return createCommand(keys.length === 1 ? ANNOTATION_LABELS[keys[0]] : "Annotate", {
+    patchNodes: [{
+      id,
+      before: Object.fromEntries(keys.map(k => [k, node[k]])),
+      after: Object.fromEntries(keys.map(k => [k, cleaned[k]]))
+    }]
+  });
+};
+
+/**
+ * Whether `id` may be moved under `newParentId`: not onto itself, its current parent or its own subtree
+ */
+export const canReparent = (nodes: ThoughtNode[], id: string, newParentId: string) => {
+  const node = nodes.find(n => n.id === id);
+  if (!node || node.parentId === null || node.parentId === newParentId) return false;
+  return !collectSubtree(nodes, id).has(newParentId);
+};
+
+/**
+ * Moves a node and its subtree under a new parent, updating levels, paths and the parent edge
+ */
+export const createReparentCommand = (
+  nodes: ThoughtNode[],
+  edges: Edge[],
+  id: string,
+  newParentId: string,
+  move?: { from: { x: number; y: number }; to: { x: number; y: number } }
+): GraphCommand | null => {
+  const node = nodes.find(n => n.id === id);
+  const newParent = nodes.find(n => n.id === newParentId);
+  if (!node || !newParent || !canReparent(nodes, id, newParentId)) return null;
+  const level = newParent.level + 1;
+  const path = [...newParent.path, node.label];
+  return createCommand("Re-parent", {
+    // A cross-link to the new parent would only duplicate the new tree edge
+    removeEdges: edges.filter(e => e.kind === "cross" ? linksPair(e, id, newParentId) : e.from === node.parentId && e.to === id),
+    addEdges: [{ id: edgeIdFor(newParentId, id), from: newParentId, to: id }],
+    patchNodes: [
+      {
+        id,
+        before: { parentId: node.parentId, level: node.level, path: node.path, ...(move ? { position: move.from } : {}) },
+        after: { parentId: newParentId, level, path, ...(move ? { position: move.to } : {}) }
+      },
+      ...relabelSubtree(nodes, id, { level, path }),
+      ...(newParent.isExpanded && !newParent.isCollapsed ? [] : [
+        { id: newParentId, before: { isExpanded: newParent.isExpanded, isCollapsed: newParent.isCollapsed }, after: { isExpanded: true, isCollapsed: false } }
+      ])
+    ]
+  });
+};
+
+/**
+ * A node can absorb another unless it sits inside the other's subtree
+ */
+export const canMerge = (nodes: ThoughtNode[], keepId: string, dropId: string) =>
+  keepId !== dropId && nodes.some(n => n.id === keepId) && !collectSubtree(nodes, dropId).has(keepId);
+
+const mergePatches = (patches: NodePatch[]): NodePatch[] => {
+  const byId = new Map<string, NodePatch>();
+  patches.forEach(p => {
+    const existing = byId.get(p.id);
+    byId.set(p.id, existing
+      ? { id: p.id, before: { ...p.before, ...existing.before }, after: { ...existing.after, ...p.after } }
+      : p);
+  });
+  return Array.from(byId.values());
+};
+
+/**
+ * Folds `dropId` into `keepId`: sources are unioned, the dropped node's children and
+ * cross-links move to the kept node, and levels and paths below it are recomputed
+ */
+export const createMergeCommand = (nodes: ThoughtNode[], edges: Edge[], keepId: string, dropId: string): GraphCommand | null => {
+  const keep = nodes.find(n => n.id === keepId);
+  const drop = nodes.find(n => n.id === dropId);
+  if (!keep || !drop || !canMerge(nodes, keepId, dropId)) return null;
+
+  const sources: GroundingSource[] = [...(keep.sources || [])];
+  (drop.sources || []).forEach(s => { if (!sources.some(k => k.uri === s.uri)) sources.push(s); });
+  const children = nodes.filter(n => n.parentId === dropId);
+
+  const remaining = edges.filter(e => e.from !== dropId && e.to !== dropId);
+  const addEdges: Edge[] = children.map(child => ({
+    id: edgeIdFor(keepId, child.id),
+    from: keepId,
+    to: child.id,
+    branchMode: edges.find(e => e.from === dropId && e.to === child.id)?.branchMode
+  }));
+  edges.filter(e => e.kind === "cross" && (e.from === dropId || e.to === dropId)).forEach(link => {
+    const from = link.from === dropId ? keepId : link.from;
+    const to = link.to === dropId ? keepId : link.to;
+    if (from === to || areConnected([...remaining, ...addEdges], from, to)) return;
+    addEdges.push({ ...link, id: `link-${from}-${to}`, from, to });
+  });
+
+  const reparented = nodes
+    .filter(n => n.id !== dropId)
+    .map(n => n.parentId === dropId ? { ...n, parentId: keepId } : n);
+
+  return createCommand("Merge", {
+    removeNodes: [drop],
+    removeEdges: edges.filter(e => e.from === dropId || e.to === dropId),
+    addEdges,
+    patchNodes: mergePatches([
+      {
+        id: keepId,
+        before: { sources: keep.sources, description: keep.description, isExpanded: keep.isExpanded, notes: keep.notes, tags: keep.tags, color: keep.color, status: keep.status },
+        after: {
+          sources: sources.length > 0 ? sources : undefined,
+          description: keep.description || drop.description,
+          isExpanded: keep.isExpanded || children.length > 0,
+          notes: [keep.notes, drop.notes].filter(Boolean).join("\n\n") || undefined,
+          tags: keep.tags || drop.tags ? mergeTags(keep.tags, drop.tags) : undefined,
+          color: keep.color ?? drop.color,
+          status: keep.status ?? drop.status
+        }
+      },
+      ...children.map(child => ({ id: child.id, before: { parentId: child.parentId }, after: { parentId: keepId } })),
+      ...relabelSubtree(reparented, keepId, { level: keep.level, path: keep.path }).map(p => {
+        // relabelSubtree saw the re-pointed copies; take "before" values from the real nodes
+        const original = nodes.find(n => n.id === p.id)!;
+        return { ...p, before: { level: original.level, path: original.path } };
+      })
+    ])
+  });
+};
@@ -0,0 +1,123 @@
+import { BranchingResponse, Citation, GroundingSource } from "../types";
+import { GroundingSupport } from "./llmProvider";
+
+/**
+ * Supported segments come back as raw model text, possibly with markdown and label
+ * prefixes; strip those so they can be found inside the cleaned descriptions
+ */
+const cleanSegment = (text: string) =>
+  text
+    .replace(/#{1,6}\s*/g, "")
+    .replace(/\**(?:TOPIC|DESC|DESCRIPTION|SECTION)\**\s*:\s*/gi, "")
+    .replace(/\*\*|__/g, "")
+    .replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, "")
+    .trim();
+
+/**
+ * Locates a supported segment inside a description. A segment that spans the whole
+ * description (and more) cites all of it.
+ */
+const locateSegment = (description: string, segment: string): { start: number; end: number } | null => {
+  const cleaned = cleanSegment(segment);
+  if (!cleaned) return null;
+  const index = description.indexOf(cleaned);
+  if (index !== -1) return { start: index, end: index + cleaned.length };
+  if (description && cleaned.includes(description)) return { start: 0, end: description.length };
+  return null;
+};
+
+/**
+ * Maps supports onto a single description, re-indexing them onto `sources` as given.
+ */
+export const mapCitations = (description: string, supports: GroundingSupport[]): Citation[] => {
+  const citations: Citation[] = [];
+  supports.forEach(support => {
+    const span = locateSegment(description, support.text);
+    if (!span) return;
+    support.sourceIndices.forEach(sourceIndex => {
+      if (!citations.some(c => c.startIndex === span.start && c.endIndex === span.end && c.sourceIndex === sourceIndex)) {
+        citations.push({ startIndex: span.start, endIndex: span.end, sourceIndex });
+      }
+    });
+  });
+  return citations.sort((a, b) => a.startIndex - b.startIndex || a.sourceIndex - b.sourceIndex);
+};
+
+export interface CitedSpan {
+  start: number;
+  end: number;
+  sourceIndices: number[];
+}
+
+/**
+ * Groups citations that cover the same span and folds overlapping spans into the earlier one,
+ * so a text can be cut into plain and cited runs
+ */
+export const toCitedSpans = (citations: Citation[], length: number): CitedSpan[] => {
+  const spans: CitedSpan[] = [];
+  [...citations]
+    .filter(c => c.startIndex >= 0 && c.endIndex <= length && c.startIndex < c.endIndex)
+    .sort((a, b) => a.startIndex - b.startIndex || a.endIndex - b.endIndex)
+    .forEach(c => {
+      const last = spans[spans.length - 1];
+      if (last && c.startIndex < last.end) {
+        if (!last.sourceIndices.includes(c.sourceIndex)) last.sourceIndices.push(c.sourceIndex);
+        return;
+      }
+      spans.push({ start: c.startIndex, end: c.endIndex, sourceIndices: [c.sourceIndex] });
+    });
+  return spans;
+};
+
+/**
+ * Splits the grounding of a branching answer between its topics. Each support is assigned
+ * to the topic whose block of the raw answer contains it; each topic keeps only the sources
+ * its supports cite. Without any supports every topic shares all sources, as before.
+ */
+export const attributeGrounding = (
+  rawText: string,
+  topics: BranchingResponse[],
+  sources: GroundingSource[],
+  supports: GroundingSupport[]
+): BranchingResponse[] => {
+  if (supports.length === 0) {
+    return topics.map(t => ({ ...t, sources: sources.length > 0 ? sources : undefined, citations: undefined }));
+  }
+
+  // Where each topic's block starts in the raw text, searching forward so repeated words do not confuse the order
+  let cursor = 0;
+  const blockStarts = topics.map(t => {
+    const index = rawText.indexOf(t.topic, cursor);
+    if (index === -1) return -1;
+    cursor = index + t.topic.length;
+    return index;
+  });
+
+  const topicForSegment = (segment: string, topicIndexFromText: number) => {
+    if (topicIndexFromText !== -1) return topicIndexFromText;
+    return topics.findIndex(t => locateSegment(t.description, segment) !== null);
+  };
+
+  const perTopic: GroundingSupport[][] = topics.map(() => []);
+  supports.forEach(support => {
+    const position = rawText.indexOf(support.text);
+    let owner = -1;
+    if (position !== -1) {
+      blockStarts.forEach((start, i) => { if (start !== -1 && start <= position) owner = i; });
+    }
+    const index = topicForSegment(support.text, owner);
+    if (index !== -1) perTopic[index].push(support);
+  });
+
+  return topics.map((topic, i) => {
+    const used = Array.from(new Set(perTopic[i].flatMap(s => s.sourceIndices))).sort((a, b) => a - b);
+    const remap = new Map(used.map((sourceIndex, local) => [sourceIndex, local]));
+    const localSupports = perTopic[i].map(s => ({ text: s.text, sourceIndices: s.sourceIndices.map(idx => remap.get(idx)!) }));
+    const citations = mapCitations(topic.description, localSupports);
+    return {
+      ...topic,
+      sources: used.length > 0 ? used.map(idx => sources[idx]) : undefined,
+      citations: citations.length > 0 ? citations : undefined
+    };
+  });
+};
@@ -0,0 +1,100 @@
+import { Edge, ThoughtNode } from "../types";
+
+const HISTORY_LIMIT = 100;
+/** Upper bound on node snapshots kept across the undo stack, so long sessions stay small */
+const HISTORY_NODE_BUDGET = 5000;
+
+/**
+ * Field values of one node before and after a command; only the fields the command touched
+ */
+export interface NodePatch {
+  id: string;
+  before: Partial<ThoughtNode>;
+  after: Partial<ThoughtNode>;
+}
+
+/**
+ * A reversible graph mutation. Removed nodes are stored whole, so undoing a prune restores
+ * their sources, citations and positions exactly.
+ */
+export interface GraphCommand {
+  label: string;
+  addNodes: ThoughtNode[];
+  removeNodes: ThoughtNode[];
+  patchNodes: NodePatch[];
+  addEdges: Edge[];
+  removeEdges: Edge[];
+}
+
+export interface HistoryState {
+  undo: GraphCommand[];
+  redo: GraphCommand[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { undo: [], redo: [] };
+
+/**
+ * Copies a node, position included, so later edits to the live node cannot alter the snapshot
+ */
+const snapshotNode = (node: ThoughtNode): ThoughtNode => ({ ...node, position: { ...node.position }, isLoading: false, isNew: false });
+
+const copyFields = (fields: Partial<ThoughtNode>): Partial<ThoughtNode> =>
+  fields.position ? { ...fields, position: { ...fields.position } } : { ...fields };
+
+export const createCommand = (label: string, parts: Partial<Omit<GraphCommand, "label">>): GraphCommand => ({
+  label,
+  addNodes: (parts.addNodes || []).map(snapshotNode),
+  removeNodes: (parts.removeNodes || []).map(snapshotNode),
+  patchNodes: (parts.patchNodes || []).map(p => ({ id: p.id, before: copyFields(p.before), after: copyFields(p.after) })),
+  addEdges: parts.addEdges || [],
+  removeEdges: parts.removeEdges || []
+});
+
+export const isEmptyCommand = (command: GraphCommand) =>
+  command.addNodes.length === 0 && command.removeNodes.length === 0 && command.patchNodes.length === 0 &&
+  command.addEdges.length === 0 && command.removeEdges.length === 0;
+
+export const invertCommand = (command: GraphCommand): GraphCommand => ({
+  label: command.label,
+  addNodes: command.removeNodes,
+  removeNodes: command.addNodes,
+  patchNodes: command.patchNodes.map(p => ({ id: p.id, before: p.after, after: p.before })),
+  addEdges: command.removeEdges,
+  removeEdges: command.addEdges
+});
+
+export const applyToNodes = (nodes: ThoughtNode[], command: GraphCommand): ThoughtNode[] => {
+  const removed = new Set(command.removeNodes.map(n => n.id));
+  const patches = new Map(command.patchNodes.map(p => [p.id, p.after]));
+  const next = nodes
+    .filter(n => !removed.has(n.id))
+    .map(n => patches.has(n.id) ? { ...n, ...copyFields(patches.get(n.id)!) } : n);
+  const existing = new Set(next.map(n => n.id));
+  command.addNodes.forEach(n => { if (!existing.has(n.id)) next.push(snapshotNode(n)); });
+  return next;
+};
+
+export const applyToEdges = (edges: Edge[], command: GraphCommand): Edge[] => {
+  const removed = new Set(command.removeEdges.map(e => e.id));
+  const next = edges.filter(e => !removed.has(e.id));
+  const existing = new Set(next.map(e => e.id));
+  command.addEdges.forEach(e => { if (!existing.has(e.id)) next.push(e); });
+  return next;
+};
+
+const commandWeight = (command: GraphCommand) =>
+  command.addNodes.length + command.removeNodes.length + command.patchNodes.length + 1;
+
+/**
+ * Records a command that has already been applied. Clears the redo stack and drops the
+ * oldest entries once the count or node budget is exceeded.
+ */
+export const pushCommand = (history: HistoryState, command: GraphCommand): HistoryState => {
+  if (isEmptyCommand(command)) return history;
+  const undo = [...history.undo, command].slice(-HISTORY_LIMIT);
+  let weight = undo.reduce((acc, c) => acc + commandWeight(c), 0);
+  while (undo.length > 1 && weight > HISTORY_NODE_BUDGET) {
+    weight -= commandWeight(undo.shift()!);
+  }
+  return { undo, redo: [] };
+};
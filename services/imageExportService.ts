@@ -0,0 +1,193 @@
+import { Edge, ThoughtNode } from "../types";
+import { getConnectionColors, getConnectionPath, getCrossLinkColor, getCrossLinkPath } from "../components/GraphCanvas";
+import { getStatusInfo } from "./annotationService";
+
+export type ImageExportScope = "map" | "viewport" | "subtree";
+
+export interface ImageExportOptions {
+  scope: ImageExportScope;
+  theme: "dark" | "light";
+  /** World-space rectangle currently on screen, used by the "viewport" scope */
+  viewport?: { x: number; y: number; width: number; height: number };
+  /** Root of the exported branch, used by the "subtree" scope */
+  subtreeRootId?: string | null;
+}
+
+const PADDING = 60;
+const NODE_MIN_WIDTH = 115;
+const NODE_MAX_WIDTH = 180;
+const NODE_PADDING_X = 16;
+const NODE_PADDING_Y = 14;
+const FONT_SIZE = 12;
+const LINE_HEIGHT = 15;
+const CHAR_WIDTH = 6.8;
+
+const THEME_STYLES = {
+  dark: { background: "#030712", nodeFill: "rgba(15, 23, 42, 0.95)", nodeStroke: "#1e293b", text: "#ffffff" },
+  light: { background: "#e0f2fe", nodeFill: "rgba(255, 255, 255, 0.95)", nodeStroke: "#e2e8f0", text: "#1e293b" }
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * Greedy word wrap using an average glyph width, so layout does not depend on loaded fonts
+ */
+const wrapLabel = (label: string) => {
+  const maxChars = Math.floor((NODE_MAX_WIDTH - NODE_PADDING_X * 2) / CHAR_WIDTH);
+  const lines: string[] = [];
+  let current = "";
+  label.split(/\s+/).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) current = candidate;
+    else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+const measureNode = (node: ThoughtNode) => {
+  const lines = wrapLabel(node.label);
+  const longest = Math.max(...lines.map(l => l.length));
+  const width = Math.min(NODE_MAX_WIDTH, Math.max(NODE_MIN_WIDTH, longest * CHAR_WIDTH + NODE_PADDING_X * 2));
+  const height = lines.length * LINE_HEIGHT + NODE_PADDING_Y * 2;
+  return { lines, width, height };
+};
+
+/**
+ * Mirrors the canvas: hidden nodes and everything beneath a folded node are left out
+ */
+const getVisibleNodes = (nodes: ThoughtNode[]) => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const isFoldedAway = (node: ThoughtNode) => {
+    let parent = node.parentId ? byId.get(node.parentId) : undefined;
+    while (parent) {
+      if (parent.isCollapsed) return true;
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+    return false;
+  };
+  return nodes.filter(n => !n.isHidden && !isFoldedAway(n));
+};
+
+const collectSubtree = (nodes: ThoughtNode[], rootId: string) => {
+  const ids = new Set([rootId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    nodes.forEach(n => {
+      if (n.parentId && ids.has(n.parentId) && !ids.has(n.id)) {
+        ids.add(n.id);
+        grew = true;
+      }
+    });
+  }
+  return ids;
+};
+
+export const renderMapSvg = (nodes: ThoughtNode[], edges: Edge[], options: ImageExportOptions): { svg: string; width: number; height: number } => {
+  let exported = getVisibleNodes(nodes);
+
+  if (options.scope === "subtree") {
+    if (!options.subtreeRootId) throw new Error("Select a node to export its subtree.");
+    const ids = collectSubtree(nodes, options.subtreeRootId);
+    exported = exported.filter(n => ids.has(n.id));
+  }
+
+  const measured = new Map(exported.map(n => [n.id, measureNode(n)]));
+
+  let minX: number, minY: number, maxX: number, maxY: number;
+  if (options.scope === "viewport") {
+    if (!options.viewport) throw new Error("The current viewport is unknown.");
+    const v = options.viewport;
+    [minX, minY, maxX, maxY] = [v.x, v.y, v.x + v.width, v.y + v.height];
+  } else {
+    if (exported.length === 0) throw new Error("There is nothing visible to export.");
+    minX = Math.min(...exported.map(n => n.position.x - measured.get(n.id)!.width / 2)) - PADDING;
+    maxX = Math.max(...exported.map(n => n.position.x + measured.get(n.id)!.width / 2)) + PADDING;
+    minY = Math.min(...exported.map(n => n.position.y - measured.get(n.id)!.height / 2)) - PADDING;
+    maxY = Math.max(...exported.map(n => n.position.y + measured.get(n.id)!.height / 2)) + PADDING;
+  }
+  const width = Math.ceil(maxX - minX);
+  const height = Math.ceil(maxY - minY);
+
+  const styles = THEME_STYLES[options.theme];
+  const { startColor, endColor } = getConnectionColors(options.theme);
+  const byId = new Map(exported.map(n => [n.id, n]));
+
+  const edgeMarkup = edges.map(edge => {
+    const from = byId.get(edge.from);
+    const to = byId.get(edge.to);
+    if (!from || !to) return "";
+    if (edge.kind === "cross") {
+      const { path, mid } = getCrossLinkPath(from.position, to.position);
+      const color = getCrossLinkColor(options.theme);
+      const label = edge.label ? `<text x="${mid.x}" y="${mid.y}" text-anchor="middle" dominant-baseline="central" font-family="Inter, sans-serif" font-weight="700" font-size="9" fill="${color}">${escapeXml(edge.label)}</text>` : "";
+      return `<path d="${path}" fill="none" stroke="${color}" stroke-width="1.6" stroke-dasharray="${edge.isSuggested ? "2,5" : "8,5"}"/>${label}`;
+    }
+    return `<path d="${getConnectionPath(from.position, to.position)}" fill="none" stroke="url(#edge-gradient)" stroke-width="1.2"/>`;
+  }).filter(Boolean);
+
+  const nodeMarkup = exported.map(node => {
+    const { lines, width: w, height: h } = measured.get(node.id)!;
+    const x = node.position.x - w / 2;
+    const y = node.position.y - h / 2;
+    const textTop = node.position.y - ((lines.length - 1) * LINE_HEIGHT) / 2;
+    const tspans = lines.map((line, i) =>
+      `<tspan x="${node.position.x}" y="${textTop + i * LINE_HEIGHT}">${escapeXml(line)}</tspan>`
+    ).join("");
+    return [
+      `<g>`,
+      `<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="16" fill="${styles.nodeFill}" stroke="${node.color || (node.level === 0 ? "#3b82f6" : styles.nodeStroke)}" stroke-width="2"/>`,
+      node.status ? `<circle cx="${x + 6}" cy="${y + 6}" r="5" fill="${getStatusInfo(node.status).color}" stroke="${styles.nodeFill}" stroke-width="2"/>` : "",
+      `<text text-anchor="middle" dominant-baseline="central" font-family="'Space Grotesk', Inter, sans-serif" font-weight="700" font-size="${FONT_SIZE}" fill="${styles.text}">${tspans}</text>`,
+      `</g>`
+    ].join("");
+  });
+
+  // Gradient runs top to bottom across the export, approximating the per-edge gradients on screen
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}">`,
+    `<defs><linearGradient id="edge-gradient" gradientUnits="userSpaceOnUse" x1="0" y1="${maxY}" x2="0" y2="${minY}">`,
+    `<stop offset="0%" stop-color="${startColor}"/><stop offset="100%" stop-color="${endColor}"/>`,
+    `</linearGradient></defs>`,
+    `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${styles.background}"/>`,
+    ...edgeMarkup,
+    ...nodeMarkup,
+    `</svg>`
+  ].join("\n");
+
+  return { svg, width, height };
+};
+
+/**
+ * Rasterises an SVG document to a PNG blob at the given pixel ratio
+ */
+export const svgToPng = (svg: string, width: number, height: number, scale: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas rendering is not available."));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("The image is too large to export at this scale."))), "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to render the map image."));
+    };
+    image.src = url;
+  });
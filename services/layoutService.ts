@@ -0,0 +1,141 @@
+import { LayoutMode, ThoughtNode } from "../types";
+
+export const LAYOUT_MODES: { id: LayoutMode; label: string }[] = [
+  { id: "force", label: "Force" },
+  { id: "tree", label: "Tree" },
+  { id: "radial", label: "Radial" },
+  { id: "orgchart", label: "Org Chart" }
+];
+
+export const isLayoutMode = (value: unknown): value is LayoutMode =>
+  LAYOUT_MODES.some(m => m.id === value);
+
+export interface LayoutOptions {
+  /** Distance between generations */
+  levelGap: number;
+  /** Minimum distance between neighbouring nodes of one generation */
+  siblingGap: number;
+}
+
+export type LayoutPositions = Record<string, { x: number; y: number }>;
+
+interface LayoutTree {
+  node: ThoughtNode;
+  children: LayoutTree[];
+}
+
+/**
+ * Hierarchy by `parentId`, without the contents of folded branches so they leave no gaps
+ */
+const buildTrees = (nodes: ThoughtNode[]): LayoutTree[] => {
+  const byParent = new Map<string, ThoughtNode[]>();
+  nodes.forEach(n => {
+    if (n.parentId) byParent.set(n.parentId, [...(byParent.get(n.parentId) || []), n]);
+  });
+  const build = (node: ThoughtNode): LayoutTree => ({
+    node,
+    children: node.isCollapsed ? [] : (byParent.get(node.id) || []).map(build)
+  });
+  return nodes.filter(n => n.parentId === null).map(build);
+};
+
+/**
+ * Reingold–Tilford style tidy tree. Subtrees are laid out bottom-up, each pushed right just far
+ * enough that its left contour clears the right contour of its left siblings at every depth, and
+ * parents are centred over their children. Returns each node's breadth offset and depth.
+ */
+const tidyTree = (root: LayoutTree, gap: number): Map<string, { breadth: number; depth: number }> => {
+  const relative = new Map<string, number>();
+
+  const layout = (tree: LayoutTree): { left: number[]; right: number[] } => {
+    if (tree.children.length === 0) return { left: [0], right: [0] };
+    const contours = tree.children.map(layout);
+    const offsets = [0];
+    const left = [...contours[0].left];
+    const right = [...contours[0].right];
+    for (let i = 1; i < contours.length; i++) {
+      const next = contours[i];
+      let shift = -Infinity;
+      for (let d = 0; d < Math.min(right.length, next.left.length); d++) {
+        shift = Math.max(shift, right[d] - next.left[d] + gap);
+      }
+      offsets.push(shift);
+      next.right.forEach((value, d) => { right[d] = value + shift; });
+      for (let d = left.length; d < next.left.length; d++) left[d] = next.left[d] + shift;
+    }
+    const mid = (offsets[0] + offsets[offsets.length - 1]) / 2;
+    tree.children.forEach((child, i) => relative.set(child.node.id, offsets[i] - mid));
+    return { left: [0, ...left.map(v => v - mid)], right: [0, ...right.map(v => v - mid)] };
+  };
+
+  layout(root);
+  const placed = new Map<string, { breadth: number; depth: number }>();
+  const place = (tree: LayoutTree, breadth: number, depth: number) => {
+    placed.set(tree.node.id, { breadth, depth });
+    tree.children.forEach(child => place(child, breadth + relative.get(child.node.id)!, depth + 1));
+  };
+  place(root, 0, 0);
+  return placed;
+};
+
+const countLeaves = (tree: LayoutTree, counts: Map<string, number>): number => {
+  const leaves = tree.children.length === 0 ? 1 : tree.children.reduce((acc, c) => acc + countLeaves(c, counts), 0);
+  counts.set(tree.node.id, leaves);
+  return leaves;
+};
+
+/**
+ * Rings by generation; each branch gets a wedge proportional to its number of leaves
+ */
+const radialTree = (root: LayoutTree, options: LayoutOptions): LayoutPositions => {
+  const leaves = new Map<string, number>();
+  countLeaves(root, leaves);
+  const positions: LayoutPositions = {};
+  const place = (tree: LayoutTree, start: number, end: number, depth: number) => {
+    const angle = (start + end) / 2;
+    const radius = depth * options.levelGap;
+    positions[tree.node.id] = { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+    let cursor = start;
+    tree.children.forEach(child => {
+      const span = ((end - start) * leaves.get(child.node.id)!) / leaves.get(tree.node.id)!;
+      place(child, cursor, cursor + span, depth + 1);
+      cursor += span;
+    });
+  };
+  // Start at the top so a single branch points up, as in the force layout
+  place(root, -Math.PI / 2 - Math.PI, Math.PI / 2, 0);
+  return positions;
+};
+
+/**
+ * Target positions for a deterministic layout, anchored on each root's current position.
+ * Pinned nodes keep their position; their subtrees are still arranged around the computed spot.
+ */
+export const computeLayout = (mode: LayoutMode, nodes: ThoughtNode[], options: LayoutOptions): LayoutPositions => {
+  const positions: LayoutPositions = {};
+  if (mode === "force") return positions;
+
+  buildTrees(nodes).forEach(root => {
+    const origin = root.node.position;
+    if (mode === "radial") {
+      Object.entries(radialTree(root, { ...options, levelGap: options.levelGap * 1.5 })).forEach(([id, p]) => {
+        positions[id] = { x: origin.x + p.x, y: origin.y + p.y };
+      });
+      return;
+    }
+    const horizontal = mode === "orgchart";
+    // Org charts run sideways, where nodes are wider than they are tall
+    const gap = horizontal ? options.siblingGap * 0.5 : options.siblingGap;
+    const levelGap = horizontal ? options.levelGap * 1.7 : options.levelGap;
+    tidyTree(root, gap).forEach(({ breadth, depth }, id) => {
+      positions[id] = horizontal
+        ? { x: origin.x + depth * levelGap, y: origin.y + breadth }
+        : { x: origin.x + breadth, y: origin.y + depth * levelGap };
+    });
+  });
+
+  nodes.forEach(n => {
+    if (n.isPinned && positions[n.id]) positions[n.id] = { ...n.position };
+  });
+  return positions;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { defaultProviderSettings, normalizeProviderSettings } from "./llmProvider";
+
+const FALLBACK = defaultProviderSettings("gemini");
+
+describe("normalizeProviderSettings", () => {
+  it("falls back for anything that is not a known provider's settings", () => {
+    expect(normalizeProviderSettings(null, FALLBACK)).toBe(FALLBACK);
+    expect(normalizeProviderSettings([], FALLBACK)).toBe(FALLBACK);
+    expect(normalizeProviderSettings({ providerId: "claude" }, FALLBACK)).toBe(FALLBACK);
+  });
+
+  it("clamps limits and fills in the provider's defaults", () => {
+    const settings = normalizeProviderSettings({ providerId: "openai-compatible", maxConcurrent: 0, requestsPerMinute: 2.6 }, FALLBACK);
+    expect(settings).toEqual({ ...defaultProviderSettings("openai-compatible"), maxConcurrent: 1, requestsPerMinute: 3 });
+    expect(normalizeProviderSettings({ providerId: "gemini", maxConcurrent: 500, requestsPerMinute: -5 }, FALLBACK))
+      .toMatchObject({ maxConcurrent: 16, requestsPerMinute: 0 });
+    expect(normalizeProviderSettings({ providerId: "gemini", maxConcurrent: "8", requestsPerMinute: null }, FALLBACK))
+      .toMatchObject({ maxConcurrent: 4, requestsPerMinute: 60 });
+  });
+
+  it("keeps only http(s) base URLs and non-empty model names", () => {
+    const settings = normalizeProviderSettings({
+      providerId: "openai-compatible",
+      baseUrl: "javascript:alert(1)",
+      models: { fast: " qwen2.5 ", reasoning: "", embedding: 42 },
+      apiKey: { secret: true }
+    }, FALLBACK);
+    expect(settings.baseUrl).toBe("http://localhost:11434/v1");
+    expect(settings.models).toEqual({ fast: "qwen2.5", reasoning: "llama3.1", embedding: "nomic-embed-text" });
+    expect(settings.apiKey).toBe("");
+    expect(normalizeProviderSettings({ providerId: "openai-compatible", baseUrl: "https://llm.example.org/v1" }, FALLBACK).baseUrl)
+      .toBe("https://llm.example.org/v1");
+  });
+});
@@ -0,0 +1,162 @@
+import { BranchMode, GroundingSource, LLMOperation, TokenUsage } from "../types";
+import { SchedulerLimits } from "./requestScheduler";
+
+export type ProviderId = "gemini" | "openai-compatible" | "mock";
+
+/**
+ * Which kind of model a request needs: a quick lookup, a slower reasoning pass, or text embeddings
+ */
+export type ModelTier = "fast" | "reasoning" | "embedding";
+
+export interface GenerateRequest {
+  operation: LLMOperation;
+  prompt: string;
+  tier: ModelTier;
+  /** Overrides the provider's model for `tier` */
+  model?: string;
+  useSearch?: boolean;
+  thinkingBudget?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  /** Structured request details for providers that answer without reading the prompt (the mock) */
+  hints?: { concept: string; count?: number; excludeTopics?: string[]; candidates?: string[]; subtopics?: string[]; mode?: BranchMode };
+}
+
+/**
+ * A span of the response text backed by one or more of the response's sources
+ */
+export interface GroundingSupport {
+  text: string;
+  sourceIndices: number[];
+}
+
+export interface GenerateResult {
+  text: string;
+  sources: GroundingSource[];
+  supports?: GroundingSupport[];
+  /** Missing where the provider reports no token counts */
+  usage?: TokenUsage;
+}
+
+export interface StreamChunk {
+  /** Text added since the previous chunk */
+  text: string;
+  /** Sources known so far; grounding usually arrives with the final chunk */
+  sources?: GroundingSource[];
+  /** Supports known so far, indexing into `sources` */
+  supports?: GroundingSupport[];
+  /** Usage of the whole response so far; usually only on the last chunk */
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  /** Gives the provider a chance to prompt for credentials before a call */
+  ensureReady?: () => Promise<void>;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+  generateStream: (request: GenerateRequest) => AsyncGenerator<StreamChunk>;
+  /** One vector per text, for providers with an embedding model */
+  embed?: (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  /** Overrides the build-time key for hosted providers */
+  apiKey: string;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama */
+  baseUrl: string;
+  models: Record<ModelTier, string>;
+  /** Requests running at once */
+  maxConcurrent: number;
+  /** Requests started per minute; 0 means no limit */
+  requestsPerMinute: number;
+}
+
+const SETTINGS_KEY = "thought-explorer:provider";
+// The key lives in this tab's session only, so it is not left in the browser profile
+const API_KEY_KEY = "thought-explorer:provider-key";
+
+export const DEFAULT_MODELS: Record<ProviderId, Record<ModelTier, string>> = {
+  "gemini": { fast: "gemini-3-flash-preview", reasoning: "gemini-3-pro-preview", embedding: "text-embedding-004" },
+  "openai-compatible": { fast: "llama3.1", reasoning: "llama3.1", embedding: "nomic-embed-text" },
+  "mock": { fast: "mock-fast", reasoning: "mock-reasoning", embedding: "mock-embedding" }
+};
+
+// Local servers usually run one model at a time and have no quota
+export const DEFAULT_LIMITS: Record<ProviderId, SchedulerLimits> = {
+  "gemini": { maxConcurrent: 4, requestsPerMinute: 60 },
+  "openai-compatible": { maxConcurrent: 2, requestsPerMinute: 0 },
+  "mock": { maxConcurrent: 4, requestsPerMinute: 0 }
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  value === "gemini" || value === "openai-compatible" || value === "mock";
+
+export const defaultProviderSettings = (providerId: ProviderId = "gemini"): ProviderSettings => ({
+  providerId,
+  apiKey: "",
+  baseUrl: "http://localhost:11434/v1",
+  models: { ...DEFAULT_MODELS[providerId] },
+  ...DEFAULT_LIMITS[providerId]
+});
+
+export const PROVIDER_LIMITS = {
+  maxConcurrent: { min: 1, max: 16 },
+  requestsPerMinute: { min: 0, max: 10000 }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const clampCount = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Settings from storage: an unknown provider falls back to `fallback`, limits are clamped and
+ * anything else unreadable takes the provider's default
+ */
+export const normalizeProviderSettings = (raw: unknown, fallback: ProviderSettings): ProviderSettings => {
+  if (!isObject(raw) || !isProviderId(raw.providerId)) return fallback;
+  const defaults = defaultProviderSettings(raw.providerId);
+  const storedModels = isObject(raw.models) ? raw.models : {};
+  const models = { ...defaults.models };
+  (Object.keys(models) as ModelTier[]).forEach(tier => {
+    const model = storedModels[tier];
+    if (typeof model === "string" && model.trim()) models[tier] = model.trim();
+  });
+  const baseUrl = typeof raw.baseUrl === "string" ? raw.baseUrl.trim() : "";
+  return {
+    providerId: raw.providerId,
+    apiKey: typeof raw.apiKey === "string" ? raw.apiKey.trim() : "",
+    baseUrl: isHttpUrl(baseUrl) ? baseUrl : defaults.baseUrl,
+    models,
+    maxConcurrent: clampCount(raw.maxConcurrent, PROVIDER_LIMITS.maxConcurrent, defaults.maxConcurrent),
+    requestsPerMinute: clampCount(raw.requestsPerMinute, PROVIDER_LIMITS.requestsPerMinute, defaults.requestsPerMinute)
+  };
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  const envProvider = process.env.LLM_PROVIDER;
+  const fallback = defaultProviderSettings(isProviderId(envProvider) ? envProvider : "gemini");
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+    return normalizeProviderSettings(isObject(stored) ? { ...stored, apiKey: sessionStorage.getItem(API_KEY_KEY) } : stored, fallback);
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveProviderSettings = ({ apiKey, ...settings }: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  if (apiKey) sessionStorage.setItem(API_KEY_KEY, apiKey);
+  else sessionStorage.removeItem(API_KEY_KEY);
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { SavedMap } from "../types";
+import { MAP_FILE_FORMAT, MAP_FILE_VERSION, parseMapFile, serializeMap } from "./mapFileService";
+
+const node = (id: string, parentId: string | null, extra: Record<string, unknown> = {}) => ({
+  id, label: id, description: "", parentId, level: parentId ? 1 : 0, position: { x: 0, y: 0 }, isExpanded: false, isLoading: false, path: [id], ...extra
+});
+
+const edge = (from: string, to: string, extra: Record<string, unknown> = {}) => ({ id: `edge-${from}-${to}`, from, to, ...extra });
+
+const mapFile = (nodes: unknown[], edges: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: MAP_FILE_FORMAT, version: MAP_FILE_VERSION, title: "Memory", nodes, edges, ...extra });
+
+describe("parseMapFile", () => {
+  it("reads back what serializeMap wrote", () => {
+    const map: SavedMap = {
+      id: "map-1",
+      title: "Memory",
+      nodes: [node("root", null), { ...node("a", "root"), isLoading: true, tags: ["sleep"] }],
+      edges: [edge("root", "a")],
+      view: { zoom: 2, scrollX: 10, scrollY: 20, activeLevel: 1 },
+      createdAt: 1000,
+      updatedAt: 2000
+    };
+    const { map: imported, rejected, warnings } = parseMapFile(serializeMap(map));
+    expect(rejected).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(imported).toMatchObject({ title: "Memory", view: map.view, edges: map.edges });
+    expect(imported.nodes.map(n => [n.id, n.isLoading, n.tags])).toEqual([["root", false, undefined], ["a", false, ["sleep"]]]);
+  });
+
+  it("migrates a version 1 file, whose edges are all tree edges", () => {
+    const { map, sourceVersion } = parseMapFile(JSON.stringify({
+      format: MAP_FILE_FORMAT, version: 1, title: "Memory", view: { zoom: 1, scrollX: 0, scrollY: 0, activeLevel: 0 },
+      nodes: [node("root", null), node("a", "root")],
+      edges: [edge("root", "a")]
+    }));
+    expect(sourceVersion).toBe(1);
+    expect(map.edges).toEqual([{ id: "edge-root-a", from: "root", to: "a", branchMode: undefined }]);
+  });
+
+  it("migrates an unversioned dump, naming it after its root", () => {
+    const { map, sourceVersion } = parseMapFile(JSON.stringify({ nodes: [node("Memory", null)], edges: [] }));
+    expect(sourceVersion).toBe(0);
+    expect(map.title).toBe("Memory");
+  });
+
+  it("refuses files from a newer version and files that are not maps", () => {
+    expect(() => parseMapFile(mapFile([], [], { version: MAP_FILE_VERSION + 1 }))).toThrow("newer version");
+    expect(() => parseMapFile(JSON.stringify({ format: "something-else", nodes: [], edges: [] }))).toThrow("not a Thought Explorer map");
+    expect(() => parseMapFile("{")).toThrow("not valid JSON");
+    expect(() => parseMapFile(mapFile([node("a", "missing")], []))).toThrow("no valid root node");
+  });
+
+  it("lists rejected nodes and edges, and the branches lost with them", () => {
+    const { map, rejected } = parseMapFile(mapFile(
+      [node("root", null), node("a", "root", { label: "" }), node("b", "a"), node("c", "root"), node("c", "root")],
+      [edge("root", "a"), edge("a", "b"), edge("root", "c"), { id: "edge-x", from: "root" }]
+    ));
+    expect(map.nodes.map(n => n.id)).toEqual(["root", "c"]);
+    expect(map.edges.map(e => e.id)).toEqual(["edge-root-c"]);
+    expect(rejected).toEqual([
+      { kind: "node", index: 1, id: "a", reason: "missing string `label`" },
+      { kind: "node", index: 2, id: "b", reason: "parent \"a\" is missing or was rejected" },
+      { kind: "node", index: 4, id: "c", reason: "duplicate node id" },
+      { kind: "edge", index: 0, id: "edge-root-a", reason: "endpoint node is missing or was rejected" },
+      { kind: "edge", index: 1, id: "edge-a-b", reason: "endpoint node is missing or was rejected" },
+      { kind: "edge", index: 3, id: "edge-x", reason: "`from` and `to` must be node ids" }
+    ]);
+  });
+
+  it("drops invalid citations and sources with a warning, keeping the node", () => {
+    const { map, warnings } = parseMapFile(mapFile([
+      node("root", null, {
+        sources: [{ title: "Sleep", uri: "https://example.org/sleep" }, { title: "No link" }],
+        citations: [{ startIndex: 0, endIndex: 5, sourceIndex: 0 }, { startIndex: 0, endIndex: 5, sourceIndex: 1 }, { startIndex: 9, endIndex: 2, sourceIndex: 0 }]
+      })
+    ], []));
+    expect(map.nodes[0].sources).toEqual([{ title: "Sleep", uri: "https://example.org/sleep" }]);
+    expect(map.nodes[0].citations).toEqual([{ startIndex: 0, endIndex: 5, sourceIndex: 0 }]);
+    expect(warnings.map(w => w.reason)).toEqual(["dropped 1 source(s) without a `uri`", "dropped 2 invalid citation(s)"]);
+  });
+
+  it("rejects extra roots with their branches", () => {
+    const { map, rejected } = parseMapFile(mapFile(
+      [node("root", null), node("other", null), node("a", "other")],
+      [edge("other", "a")]
+    ));
+    expect(map.nodes.map(n => n.id)).toEqual(["root"]);
+    expect(rejected.map(r => [r.id, r.reason])).toEqual([
+      ["other", "second root node; the map's root is \"root\""],
+      ["a", "parent \"other\" is missing or was rejected"],
+      ["edge-other-a", "endpoint node is missing or was rejected"]
+    ]);
+  });
+
+  it("rejects nodes whose parents form a cycle", () => {
+    const { map, rejected } = parseMapFile(mapFile(
+      [node("root", null), node("a", "b"), node("b", "a"), node("c", "root")],
+      [edge("a", "b"), edge("b", "a"), edge("root", "c")]
+    ));
+    expect(map.nodes.map(n => n.id)).toEqual(["root", "c"]);
+    expect(rejected.filter(r => r.kind === "node").map(r => [r.id, r.reason])).toEqual([
+      ["a", "not reachable from the root (its parents form a cycle)"],
+      ["b", "not reachable from the root (its parents form a cycle)"]
+    ]);
+  });
+
+  it("rejects tree edges that disagree with their target's parentId, but not cross-links", () => {
+    const { map, rejected } = parseMapFile(mapFile(
+      [node("root", null), node("a", "root"), node("b", "root")],
+      [edge("root", "a"), edge("root", "b"), edge("a", "b"), edge("b", "a", { id: "link-b-a", kind: "cross" })]
+    ));
+    expect(map.edges.map(e => e.id)).toEqual(["edge-root-a", "edge-root-b", "link-b-a"]);
+    expect(rejected).toEqual([{ kind: "edge", index: 2, id: "edge-a-b", reason: "tree edge from \"a\" but \"b\" has parent \"root\"" }]);
+  });
+});
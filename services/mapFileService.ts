@@ -0,0 +1,435 @@
+import { Citation, DeepDive, Edge, GenerationSettings, GroundingSource, MapViewState, SavedMap, Synthesis, SynthesisPoint, ThoughtNode, UsageRecord } from "../types";
+import { isLayoutMode } from "./layoutService";
+import { isNodeColor, isNodeStatus, parseTags } from "./annotationService";
+import { isBranchMode } from "./branchModeService";
+import { normalizeGenerationSettings } from "./generationSettingsService";
+import { normalizeUsageRecords } from "./usageService";
+import { createMapId } from "./storageService";
+
+/**
+ * Thought Explorer map file format (`.thought.json`)
+ *
+ * {
+ *   "format": "thought-explorer-map",
+ *   "version": 2,
+ *   "exportedAt": "2024-01-01T00:00:00.000Z",
+ *   "title": "Quantum Physics",
+ *   "view": { "zoom": 1, "scrollX": 0, "scrollY": 0, "activeLevel": 1 },
+ *   "settings": GenerationSettings,
+ *   "usage": [UsageRecord, ...],
+ *   "nodes": [ThoughtNode, ...],
+ *   "edges": [Edge, ...]
+ * }
+ *
+ * Version history:
+ * - 0: unversioned `{ nodes, edges }` dumps of app state, no view settings
+ * - 1: adds the envelope (`format`, `version`, `title`, `view`)
+ * - 2: edges may be cross-links (`kind: "cross"`, optional `label` and `isSuggested`)
+ *
+ * Nodes may also carry user annotations (`notes`, `tags`, `color`, `status`), a generated
+ * `deepDive`, a `synthesis` that makes them a summary node, and the `branchMode`/`branchFacet`
+ * they were branched with (tree edges carry `branchMode` too), and the model `usage` of the requests
+ * made from them; older readers ignore them.
+ * The optional `settings` are the map's generation settings; out-of-range values are clamped on import.
+ * The optional `usage` totals every request made for the map; malformed entries are dropped.
+ * A map has exactly one root and every node must be reachable from it: extra roots and nodes whose
+ * parents form a cycle are rejected, and so are tree edges that disagree with their target's `parentId`.
+ */
+export const MAP_FILE_FORMAT = "thought-explorer-map";
+export const MAP_FILE_VERSION = 2;
+
+export interface MapFile {
+  format: typeof MAP_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  title: string;
+  view: MapViewState;
+  settings?: GenerationSettings;
+  usage?: UsageRecord[];
+  nodes: ThoughtNode[];
+  edges: Edge[];
+}
+
+export interface MapImportIssue {
+  kind: "node" | "edge";
+  index: number;
+  id?: string;
+  reason: string;
+}
+
+export interface MapImportResult {
+  map: SavedMap;
+  sourceVersion: number;
+  rejected: MapImportIssue[];
+  warnings: MapImportIssue[];
+}
+
+const DEFAULT_VIEW: MapViewState = { zoom: 1, scrollX: 0, scrollY: 0, activeLevel: 0 };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string");
+
+const rootLabel = (nodes: unknown) => {
+  const root = asList(nodes).find(n => isObject(n) && n.parentId === null);
+  return isObject(root) && typeof root.label === "string" ? root.label : undefined;
+};
+
+/**
+ * Upgrades a parsed document one version at a time until it reaches MAP_FILE_VERSION
+ */
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (doc) => ({
+    format: MAP_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    title: (typeof doc.title === "string" && doc.title) || rootLabel(doc.nodes) || "Imported Map",
+    view: DEFAULT_VIEW,
+    nodes: doc.nodes,
+    edges: doc.edges
+  }),
+  // Every version 1 edge is a tree edge, which is what a missing `kind` means
+  1: (doc) => ({ ...doc, version: 2 })
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const optionalBoolean = (value: unknown) => (typeof value === "boolean" ? value : undefined);
+
+const validSources = (list: unknown[]): GroundingSource[] =>
+  list.flatMap(s => (isObject(s) && typeof s.uri === "string"
+    ? [{ title: typeof s.title === "string" ? s.title : "Source", uri: s.uri }]
+    : []));
+
+const validCitations = (list: unknown[], sourceCount: number): Citation[] =>
+  list.flatMap(c => (
+    isObject(c) && isFiniteNumber(c.startIndex) && isFiniteNumber(c.endIndex) && isFiniteNumber(c.sourceIndex) &&
+    c.startIndex <= c.endIndex && c.sourceIndex >= 0 && c.sourceIndex < sourceCount
+      ? [{ startIndex: c.startIndex, endIndex: c.endIndex, sourceIndex: c.sourceIndex }]
+      : []
+  ));
+
+/**
+ * A deep dive is regenerable, so anything malformed drops it (or the offending part) rather than the node
+ */
+const validateDeepDive = (raw: unknown): DeepDive | null => {
+  if (!isObject(raw) || !Array.isArray(raw.sections)) return null;
+  const sources = Array.isArray(raw.sources) ? validSources(raw.sources) : [];
+  const sections = asList(raw.sections).flatMap(s => {
+    if (!isObject(s) || typeof s.heading !== "string" || typeof s.body !== "string") return [];
+    const citations = validCitations(asList(s.citations), sources.length);
+    return [{ heading: s.heading, body: s.body, citations: citations.length > 0 ? citations : undefined }];
+  });
+  if (sections.length === 0) return null;
+  return {
+    sections,
+    sources,
+    includesSubtree: raw.includesSubtree === true,
+    generatedAt: isFiniteNumber(raw.generatedAt) ? raw.generatedAt : 0
+  };
+};
+
+const validPoints = (list: unknown): SynthesisPoint[] =>
+  asList(list).flatMap(p => (isObject(p) && typeof p.text === "string"
+    ? [{ text: p.text, nodeIds: asList(p.nodeIds).filter((id): id is string => typeof id === "string") }]
+    : []));
+
+/**
+ * Points may cite nodes the file no longer contains; the reader skips those, so they are kept
+ */
+const validateSynthesis = (raw: unknown): Synthesis | null => {
+  if (!isObject(raw) || (raw.scope !== "branch" && raw.scope !== "path")) return null;
+  const next = raw.nextBranch;
+  return {
+    scope: raw.scope,
+    themes: validPoints(raw.themes),
+    contradictions: validPoints(raw.contradictions),
+    openQuestions: validPoints(raw.openQuestions),
+    nextBranch: isObject(next) && typeof next.topic === "string" && next.topic.trim()
+      ? { topic: next.topic, reason: typeof next.reason === "string" ? next.reason : "" }
+      : undefined,
+    sourceNodeIds: asList(raw.sourceNodeIds).filter((id): id is string => typeof id === "string"),
+    generatedAt: isFiniteNumber(raw.generatedAt) ? raw.generatedAt : 0
+  };
+};
+
+export const serializeMap = (map: SavedMap): string => {
+  const file: MapFile = {
+    format: MAP_FILE_FORMAT,
+    version: MAP_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: map.title,
+    view: map.view,
+    settings: map.settings,
+    usage: map.usage,
+    nodes: map.nodes.map(n => ({ ...n, isLoading: false, isNew: false })),
+    edges: map.edges
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const validateNode = (raw: unknown, index: number, warnings: MapImportIssue[]): ThoughtNode | string => {
+  if (!isObject(raw)) return "not an object";
+  if (typeof raw.id !== "string" || !raw.id) return "missing string `id`";
+  if (typeof raw.label !== "string" || !raw.label.trim()) return "missing string `label`";
+  if (raw.parentId !== null && typeof raw.parentId !== "string") return "`parentId` must be a string or null";
+  if (!isFiniteNumber(raw.level) || raw.level < 0) return "`level` must be a non-negative number";
+  if (!isObject(raw.position) || !isFiniteNumber(raw.position.x) || !isFiniteNumber(raw.position.y)) {
+    return "`position` must have numeric `x` and `y`";
+  }
+  if (raw.description !== undefined && typeof raw.description !== "string") return "`description` must be a string";
+  if (raw.path !== undefined && !isStringArray(raw.path)) return "`path` must be an array of strings";
+
+  let sources: GroundingSource[] | undefined;
+  if (raw.sources !== undefined) {
+    if (!Array.isArray(raw.sources)) return "`sources` must be an array";
+    sources = validSources(raw.sources);
+    if (sources.length !== raw.sources.length) {
+      warnings.push({ kind: "node", index, id: raw.id, reason: `dropped ${raw.sources.length - sources.length} source(s) without a \`uri\`` });
+    }
+  }
+
+  let citations: Citation[] | undefined;
+  if (raw.citations !== undefined) {
+    if (!Array.isArray(raw.citations)) return "`citations` must be an array";
+    citations = validCitations(raw.citations, sources?.length ?? 0);
+    if (citations.length !== raw.citations.length) {
+      warnings.push({ kind: "node", index, id: raw.id, reason: `dropped ${raw.citations.length - citations.length} invalid citation(s)` });
+    }
+  }
+
+  if (raw.notes !== undefined && typeof raw.notes !== "string") return "`notes` must be a string";
+  let tags: string[] | undefined;
+  if (raw.tags !== undefined) {
+    if (!Array.isArray(raw.tags)) return "`tags` must be an array";
+    tags = parseTags(raw.tags.filter((t: unknown) => typeof t === "string").join(","));
+    if (tags.length !== raw.tags.length) {
+      warnings.push({ kind: "node", index, id: raw.id, reason: `dropped ${raw.tags.length - tags.length} empty, duplicate or non-text tag(s)` });
+    }
+  }
+  if (raw.color !== undefined && !isNodeColor(raw.color)) {
+    warnings.push({ kind: "node", index, id: raw.id, reason: "dropped `color`, which is not a #rrggbb colour" });
+  }
+  if (raw.status !== undefined && !isNodeStatus(raw.status)) {
+    warnings.push({ kind: "node", index, id: raw.id, reason: `dropped unknown \`status\` "${String(raw.status)}"` });
+  }
+  const deepDive = raw.deepDive !== undefined ? validateDeepDive(raw.deepDive) : undefined;
+  if (deepDive === null) {
+    warnings.push({ kind: "node", index, id: raw.id, reason: "dropped malformed `deepDive`" });
+  }
+  if (raw.branchMode !== undefined && !isBranchMode(raw.branchMode)) {
+    warnings.push({ kind: "node", index, id: raw.id, reason: `dropped unknown \`branchMode\` "${String(raw.branchMode)}"` });
+  }
+  const synthesis = raw.synthesis !== undefined ? validateSynthesis(raw.synthesis) : undefined;
+  if (synthesis === null) {
+    warnings.push({ kind: "node", index, id: raw.id, reason: "dropped malformed `synthesis`" });
+  }
+
+  const usage = normalizeUsageRecords(raw.usage);
+
+  return {
+    id: raw.id,
+    label: raw.label,
+    description: typeof raw.description === "string" ? raw.description : "",
+    parentId: typeof raw.parentId === "string" ? raw.parentId : null,
+    level: raw.level,
+    position: { x: raw.position.x, y: raw.position.y },
+    isExpanded: raw.isExpanded === true,
+    isLoading: false,
+    isCollapsed: optionalBoolean(raw.isCollapsed),
+    isHidden: optionalBoolean(raw.isHidden),
+    isManual: optionalBoolean(raw.isManual),
+    isPinned: optionalBoolean(raw.isPinned),
+    sources,
+    citations,
+    path: isStringArray(raw.path) ? raw.path : [raw.label],
+    notes: typeof raw.notes === "string" && raw.notes ? raw.notes : undefined,
+    tags: tags?.length ? tags : undefined,
+    color: isNodeColor(raw.color) ? raw.color : undefined,
+    status: isNodeStatus(raw.status) ? raw.status : undefined,
+    deepDive: deepDive || undefined,
+    synthesis: synthesis || undefined,
+    branchMode: isBranchMode(raw.branchMode) && raw.branchMode !== "related" ? raw.branchMode : undefined,
+    branchFacet: typeof raw.branchFacet === "string" && raw.branchFacet.trim() ? raw.branchFacet : undefined,
+    usage: usage.length > 0 ? usage : undefined
+  };
+};
+
+const validateEdge = (raw: unknown): Edge | string => {
+  if (!isObject(raw)) return "not an object";
+  if (typeof raw.id !== "string" || !raw.id) return "missing string `id`";
+  if (typeof raw.from !== "string" || typeof raw.to !== "string") return "`from` and `to` must be node ids";
+  if (raw.kind !== undefined && raw.kind !== "tree" && raw.kind !== "cross") return "`kind` must be \"tree\" or \"cross\"";
+  if (raw.kind !== "cross") return { id: raw.id, from: raw.from, to: raw.to, branchMode: isBranchMode(raw.branchMode) && raw.branchMode !== "related" ? raw.branchMode : undefined };
+  if (raw.from === raw.to) return "a cross-link cannot join a node to itself";
+  return {
+    id: raw.id,
+    from: raw.from,
+    to: raw.to,
+    kind: "cross",
+    label: typeof raw.label === "string" && raw.label.trim() ? raw.label : undefined,
+    isSuggested: optionalBoolean(raw.isSuggested)
+  };
+};
+
+const validateView = (raw: unknown): MapViewState => {
+  if (!isObject(raw)) return DEFAULT_VIEW;
+  return {
+    zoom: isFiniteNumber(raw.zoom) && raw.zoom > 0 ? raw.zoom : DEFAULT_VIEW.zoom,
+    scrollX: isFiniteNumber(raw.scrollX) ? raw.scrollX : DEFAULT_VIEW.scrollX,
+    scrollY: isFiniteNumber(raw.scrollY) ? raw.scrollY : DEFAULT_VIEW.scrollY,
+    activeLevel: isFiniteNumber(raw.activeLevel) ? raw.activeLevel : DEFAULT_VIEW.activeLevel,
+    layout: isLayoutMode(raw.layout) ? raw.layout : undefined
+  };
+};
+
+/**
+ * Parses a map file, migrating older versions and keeping every record that validates.
+ * Throws only when the file as a whole is unusable.
+ */
+export const parseMapFile = (text: string): MapImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isObject(parsed)) throw new Error("The file does not contain a map.");
+  let doc = parsed;
+
+  const sourceVersion = doc.format === MAP_FILE_FORMAT ? doc.version : doc.format === undefined ? 0 : NaN;
+  if (typeof sourceVersion !== "number" || !Number.isInteger(sourceVersion)) throw new Error("The file is not a Thought Explorer map.");
+  if (sourceVersion > MAP_FILE_VERSION) {
+    throw new Error(`This map was saved by a newer version (format v${sourceVersion}). Please update Thought Explorer.`);
+  }
+  for (let v = sourceVersion; v < MAP_FILE_VERSION; v++) doc = MIGRATIONS[v](doc);
+
+  if (!Array.isArray(doc.nodes)) throw new Error("The map has no `nodes` array.");
+  if (!Array.isArray(doc.edges)) throw new Error("The map has no `edges` array.");
+
+  const rejected: MapImportIssue[] = [];
+  const warnings: MapImportIssue[] = [];
+
+  const candidates: { node: ThoughtNode; index: number }[] = [];
+  const seenIds = new Set<string>();
+  doc.nodes.forEach((raw: unknown, index: number) => {
+    const result = validateNode(raw, index, warnings);
+    if (typeof result === "string") {
+      rejected.push({ kind: "node", index, id: isObject(raw) && typeof raw.id === "string" ? raw.id : undefined, reason: result });
+    } else if (seenIds.has(result.id)) {
+      rejected.push({ kind: "node", index, id: result.id, reason: "duplicate node id" });
+    } else {
+      seenIds.add(result.id);
+      candidates.push({ node: result, index });
+    }
+  });
+
+  // A map has one root; later roots are rejected, and their branches with them
+  const rootId = candidates.find(c => c.node.parentId === null)?.node.id;
+  let kept = candidates.filter(c => {
+    if (c.node.parentId !== null || c.node.id === rootId) return true;
+    rejected.push({ kind: "node", index: c.index, id: c.node.id, reason: `second root node; the map's root is "${rootId}"` });
+    return false;
+  });
+
+  // Drop nodes whose parent is missing, repeating until every kept node has a kept parent
+  let changed = true;
+  while (changed) {
+    const keptIds = new Set(kept.map(c => c.node.id));
+    const next = kept.filter(c => {
+      if (c.node.parentId === null || keptIds.has(c.node.parentId)) return true;
+      rejected.push({ kind: "node", index: c.index, id: c.node.id, reason: `parent "${c.node.parentId}" is missing or was rejected` });
+      return false;
+    });
+    changed = next.length !== kept.length;
+    kept = next;
+  }
+  if (!rootId) throw new Error("The map has no valid root node.");
+
+  // Whatever the root cannot reach hangs off a parentId cycle, which would loop every tree walk
+  const reachable = new Set([rootId]);
+  const childrenOf = new Map<string, string[]>();
+  kept.forEach(c => {
+    if (c.node.parentId !== null) childrenOf.set(c.node.parentId, [...(childrenOf.get(c.node.parentId) || []), c.node.id]);
+  });
+  const stack = [rootId];
+  while (stack.length > 0) {
+    (childrenOf.get(stack.pop()!) || []).forEach(id => {
+      if (reachable.has(id)) return;
+      reachable.add(id);
+      stack.push(id);
+    });
+  }
+  kept = kept.filter(c => {
+    if (reachable.has(c.node.id)) return true;
+    rejected.push({ kind: "node", index: c.index, id: c.node.id, reason: "not reachable from the root (its parents form a cycle)" });
+    return false;
+  });
+  const nodes = kept.map(c => c.node);
+
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const edgeIds = new Set<string>();
+  const edges: Edge[] = [];
+  doc.edges.forEach((raw: unknown, index: number) => {
+    const result = validateEdge(raw);
+    const id = isObject(raw) && typeof raw.id === "string" ? raw.id : undefined;
+    if (typeof result === "string") {
+      rejected.push({ kind: "edge", index, id, reason: result });
+    } else if (edgeIds.has(result.id)) {
+      rejected.push({ kind: "edge", index, id, reason: "duplicate edge id" });
+    } else if (!nodeById.has(result.from) || !nodeById.has(result.to)) {
+      rejected.push({ kind: "edge", index, id, reason: "endpoint node is missing or was rejected" });
+    } else if (result.kind !== "cross" && nodeById.get(result.to)!.parentId !== result.from) {
+      rejected.push({ kind: "edge", index, id, reason: `tree edge from "${result.from}" but "${result.to}" has parent "${nodeById.get(result.to)!.parentId}"` });
+    } else {
+      edgeIds.add(result.id);
+      edges.push(result);
+    }
+  });
+
+  rejected.sort((a, b) => (a.kind === b.kind ? a.index - b.index : a.kind === "node" ? -1 : 1));
+  const now = Date.now();
+  return {
+    map: {
+      id: createMapId(),
+      title: typeof doc.title === "string" && doc.title.trim() ? doc.title : nodes.find(n => n.parentId === null)!.label,
+      nodes,
+      edges,
+      view: validateView(doc.view),
+      settings: isObject(doc.settings) ? normalizeGenerationSettings(doc.settings) : undefined,
+      usage: Array.isArray(doc.usage) ? normalizeUsageRecords(doc.usage) : undefined,
+      createdAt: now,
+      updatedAt: now
+    },
+    sourceVersion,
+    rejected,
+    warnings
+  };
+};
+
+/**
+ * Triggers a browser download of the given text content
+ */
+export const downloadFile = (filename: string, content: string | Blob, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const toFileName = (title: string, extension: string) =>
+  `${title.trim().replace(/[^\w\- ]+/g, "").replace(/\s+/g, "-").toLowerCase() || "thought-map"}.${extension}`;
+
+export const exportMapFile = (map: SavedMap) => {
+  downloadFile(toFileName(map.title, "thought.json"), serializeMap(map), "application/json");
+};
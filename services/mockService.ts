@@ -0,0 +1,261 @@
+import { BranchMode, GroundingSource, TokenUsage } from "../types";
+import { GenerateRequest, GroundingSupport, LLMProvider } from "./llmProvider";
+import { getBranchModeInfo } from "./branchModeService";
+
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_DELAY_MS = 30;
+
+/**
+ * Hand-written answers for a few concepts, so demos of the surprise topics read naturally offline
+ */
+const FIXTURES: Record<string, { description: string; topics: { topic: string; description: string }[] }> = {
+  "neuroplasticity": {
+    description: "Neuroplasticity is the brain's ability to reorganise its synaptic connections in response to learning, experience and injury.",
+    topics: [
+      { topic: "Synaptic Pruning", description: "During adolescence the brain eliminates weaker synapses, strengthening the circuits that are used most." },
+      { topic: "Hebbian Learning", description: "Donald Hebb proposed in 1949 that neurons which fire together strengthen their connection." },
+      { topic: "Stroke Rehabilitation", description: "Constraint-induced movement therapy exploits plasticity to recover motor function after a stroke." },
+      { topic: "Critical Periods", description: "Some abilities, such as binocular vision, depend on input arriving during a limited developmental window." }
+    ]
+  },
+  "quantum entanglement": {
+    description: "Quantum entanglement links particles so that measuring one instantly constrains the outcome of measuring the other, however far apart they are.",
+    topics: [
+      { topic: "Bell's Theorem", description: "John Bell showed in 1964 that no local hidden-variable theory can reproduce every prediction of quantum mechanics." },
+      { topic: "Quantum Teleportation", description: "Entanglement lets a quantum state be transferred between distant particles using only classical communication." },
+      { topic: "Quantum Key Distribution", description: "Protocols such as E91 use entangled photons so that any eavesdropping disturbs the shared key." },
+      { topic: "Decoherence", description: "Interaction with the environment rapidly destroys entanglement, which is the main obstacle to building quantum computers." }
+    ]
+  }
+};
+
+const GENERIC_FACETS = [
+  { topic: "History of {c}", description: "The ideas behind {c} developed over generations of debate and discovery." },
+  { topic: "{c} in Practice", description: "Practitioners apply {c} in fields ranging from engineering to everyday decision making." },
+  { topic: "Critiques of {c}", description: "Sceptics question several of the core assumptions that {c} relies on." },
+  { topic: "Future of {c}", description: "Ongoing research suggests {c} will look quite different within a decade." },
+  { topic: "Key Figures in {c}", description: "A handful of thinkers shaped how {c} is understood today." },
+  { topic: "{c} and Ethics", description: "{c} raises ethical questions about responsibility, fairness and consequences." },
+  { topic: "Measuring {c}", description: "Quantifying {c} requires careful choices about what counts as evidence." },
+  { topic: "{c} Across Cultures", description: "Different societies have interpreted {c} in strikingly different ways." }
+];
+
+/**
+ * Children for the guided branching modes, with the facet each one carries
+ */
+const MODE_FACETS: Record<Exclude<BranchMode, "related">, { topic: string; facet?: string; description: string }[]> = {
+  "causes-effects": [
+    { topic: "Origins of {c}", facet: "Cause", description: "Earlier developments created the conditions in which {c} could emerge." },
+    { topic: "Economic Pressures Behind {c}", facet: "Cause", description: "Shifting incentives pushed people and institutions towards {c}." },
+    { topic: "Social Impact of {c}", facet: "Effect", description: "{c} changed how communities organise and communicate." },
+    { topic: "Long-Term Consequences of {c}", facet: "Effect", description: "The effects of {c} are still unfolding decades later." }
+  ],
+  "pros-cons": [
+    { topic: "Efficiency Gains from {c}", facet: "Pro", description: "Supporters point to the time and resources {c} saves." },
+    { topic: "Hidden Costs of {c}", facet: "Con", description: "Critics note that the costs of {c} often fall on those least able to bear them." },
+    { topic: "Wider Access Through {c}", facet: "Pro", description: "{c} opens opportunities to people previously excluded." },
+    { topic: "Risks of Overreliance on {c}", facet: "Con", description: "Depending too heavily on {c} creates fragile systems." }
+  ],
+  "timeline": [
+    { topic: "Early Ideas of {c}", facet: "1800s", description: "The first descriptions of {c} appeared in scattered nineteenth-century writing." },
+    { topic: "{c} Formalised", facet: "1949", description: "A landmark publication gave {c} its modern framework." },
+    { topic: "{c} Goes Mainstream", facet: "1990s", description: "New tools brought {c} into everyday practice." },
+    { topic: "{c} Today", facet: "2020s", description: "Current work on {c} builds on large-scale data and collaboration." }
+  ],
+  "components": [
+    { topic: "Core Mechanism of {c}", description: "At the heart of {c} is a single process that everything else depends on." },
+    { topic: "Inputs to {c}", description: "{c} draws on a small set of resources supplied from outside." },
+    { topic: "Feedback Loops in {c}", description: "Feedback keeps {c} stable and lets it adapt." },
+    { topic: "Interfaces of {c}", description: "The boundaries of {c} determine how it connects to neighbouring systems." }
+  ],
+  "counter-arguments": [
+    { topic: "Weak Evidence for {c}", description: "Sceptics argue that the studies behind {c} are small and hard to replicate." },
+    { topic: "Alternative Explanations to {c}", description: "Rival accounts explain the same observations without invoking {c}." },
+    { topic: "{c} Overgeneralised", description: "Findings about {c} in one setting are often applied where they do not hold." },
+    { topic: "Ethical Objections to {c}", description: "Some object to {c} on grounds of fairness and consent." }
+  ],
+  "key-people": [
+    { topic: "The Pioneer of {c}", facet: "Founder", description: "An early researcher first described {c} in detail." },
+    { topic: "The Popular Voice of {c}", facet: "Populariser", description: "A widely read author brought {c} to a general audience." },
+    { topic: "The Leading Critic of {c}", facet: "Critic", description: "A prominent sceptic challenged the central claims of {c}." },
+    { topic: "The Modern Innovator in {c}", facet: "Researcher", description: "A current researcher is extending {c} into new territory." }
+  ],
+  "applications": [
+    { topic: "{c} in Medicine", description: "Clinicians use insights from {c} to design better treatments." },
+    { topic: "{c} in Education", description: "Teachers apply {c} to shape how lessons are structured." },
+    { topic: "{c} in Industry", description: "Companies build products and processes around {c}." },
+    { topic: "{c} in Policy", description: "Governments draw on {c} when designing regulation." }
+  ],
+  "open-questions": [
+    { topic: "What Limits {c}?", description: "Nobody yet knows where the boundaries of {c} lie." },
+    { topic: "Can {c} Be Measured Directly?", description: "Current methods only infer {c} indirectly." },
+    { topic: "Why Does {c} Vary Between Individuals?", description: "Large differences in {c} between people remain unexplained." },
+    { topic: "How Did {c} Evolve?", description: "The evolutionary origins of {c} are still debated." }
+  ]
+};
+
+/**
+ * Small deterministic string hash so the same concept always yields the same answer
+ */
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+const mockSources = (concept: string): GroundingSource[] => [
+  { title: `${concept} — Encyclopedia`, uri: `https://example.org/encyclopedia/${slug(concept)}` },
+  { title: `An introduction to ${concept}`, uri: `https://example.com/articles/${slug(concept)}` }
+];
+
+/**
+ * The generic facets filled in for `concept`, starting at a concept-specific offset
+ */
+const genericTopics = (concept: string) => {
+  const start = hash(concept) % GENERIC_FACETS.length;
+  return GENERIC_FACETS.map((_, i) => GENERIC_FACETS[(start + i) % GENERIC_FACETS.length]).map(f => ({
+    topic: f.topic.replace("{c}", concept),
+    description: f.description.replace(/\{c\}/g, concept)
+  }));
+};
+
+const respond = (request: GenerateRequest): { text: string; supports: GroundingSupport[] } => {
+  const concept = request.hints?.concept || "this concept";
+  const fixture = FIXTURES[concept.toLowerCase()];
+
+  if (request.operation === "topic-info") {
+    const text = fixture?.description || `${concept} is a rich area of study connecting many neighbouring ideas.`;
+    return { text, supports: [{ text, sourceIndices: [0, 1] }] };
+  }
+
+  if (request.operation === "connections") {
+    const candidates = request.hints?.candidates || [];
+    const picks = candidates.map((_, i) => i).filter(i => hash(`${concept}|${candidates[i]}`) % 3 === 0).slice(0, 2);
+    return { text: picks.length > 0 ? picks.map(i => `## LINK: ${i + 1} | shares ideas with`).join("\n") : "NONE", supports: [] };
+  }
+
+  if (request.operation === "deep-dive") {
+    const facets = [...(fixture?.topics || []), ...genericTopics(concept)].slice(0, 3);
+    const subtopics = request.hints?.subtopics || [];
+    const sections = [
+      { heading: "Overview", body: fixture?.description || `${concept} is a rich area of study connecting many neighbouring ideas.` },
+      ...facets.map(f => ({ heading: f.topic, body: `${f.description} Researchers continue to refine how this shapes our understanding of ${concept}.` })),
+      ...(subtopics.length > 0 ? [{ heading: "How the Branch Fits Together", body: `The branch explored here spans ${subtopics.length} related ideas, from ${subtopics[0].replace(/^\s*-\s*/, "").split(":")[0]} onwards, each shedding light on a different side of ${concept}.` }] : []),
+      { heading: "Open Questions", body: `Much about ${concept} remains debated, and new evidence keeps reshaping the consensus.` }
+    ];
+    return {
+      text: sections.map(s => `## SECTION: ${s.heading}\n${s.body}`).join("\n\n"),
+      // Cite each section's first sentence, alternating sources
+      supports: sections.map((s, i) => ({ text: s.body.split(/(?<=\.)\s/)[0], sourceIndices: [i % 2] }))
+    };
+  }
+
+  if (request.operation === "relevance") {
+    // Roughly one candidate in five scores as a weak branch
+    return {
+      text: (request.hints?.candidates || []).map((c, i) => `## SCORE: ${i + 1} | ${hash(c) % 5 === 0 ? 2 : 4}`).join("\n"),
+      supports: []
+    };
+  }
+
+  if (request.operation === "synthesis") {
+    const items = request.hints?.candidates || [];
+    const label = (i: number) => items[i]?.split(":")[0] || concept;
+    const last = items.length - 1;
+    return {
+      text: [
+        `## SUMMARY: Together these ideas show that ${concept} is best understood through its connections rather than in isolation.`,
+        `## THEME: ${label(0)} and ${label(last)} both point to the same underlying mechanism. [refs: 1, ${last + 1}]`,
+        `## THEME: Several ideas return to how ${concept} changes over time. [refs: ${items.map((_, i) => i + 1).filter(i => i % 2 === 0).join(", ") || 1}]`,
+        ...(items.length > 2 ? [`## CONTRADICTION: ${label(1)} suggests limits that ${label(2)} does not acknowledge. [refs: 2, 3]`] : []),
+        `## QUESTION: How far does ${label(last)} generalise beyond the cases explored here? [refs: ${last + 1}]`,
+        `## QUESTION: What evidence would settle the open debates around ${concept}?`,
+        `## NEXT: Critiques of ${concept} | The branch so far has few dissenting views.`
+      ].join("\n"),
+      supports: []
+    };
+  }
+
+  const excluded = new Set((request.hints?.excludeTopics || []).map(t => t.toLowerCase()));
+  const count = request.hints?.count ?? 3;
+  const mode = request.hints?.mode || "related";
+  const facetLabel = getBranchModeInfo(mode).facetLabel;
+  const candidates: { topic: string; facet?: string; description: string }[] = mode === "related"
+    ? [...(fixture?.topics || []), ...genericTopics(concept)]
+    : MODE_FACETS[mode].map(t => ({ ...t, topic: t.topic.replace("{c}", concept), description: t.description.replace(/\{c\}/g, concept) }));
+  const topics = candidates
+    .filter(t => !excluded.has(t.topic.toLowerCase()))
+    .slice(0, count);
+  return {
+    text: topics.map(t => [`## TOPIC: ${t.topic}`, ...(facetLabel && t.facet ? [`## ${facetLabel}: ${t.facet}`] : []), `## DESC: ${t.description}`].join("\n")).join("\n\n"),
+    // Alternate the two mock sources so per-topic attribution is visible offline
+    supports: topics.map((t, i) => ({ text: t.description, sourceIndices: [i % 2] }))
+  };
+};
+
+/**
+ * Character-trigram counts hashed into a small vector: similar spellings land close together
+ */
+const mockEmbedding = (text: string) => {
+  const vector = new Array(64).fill(0);
+  const padded = `  ${text.toLowerCase()} `;
+  for (let i = 0; i < padded.length - 2; i++) vector[hash(padded.slice(i, i + 3)) % vector.length] += 1;
+  return vector;
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException("The operation was aborted.", "AbortError"));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(new DOMException("The operation was aborted.", "AbortError"));
+  }, { once: true });
+});
+
+/**
+ * Rough token counts (four characters a token) so usage tracking can be tried offline
+ */
+const mockUsage = (request: GenerateRequest, text: string): TokenUsage => ({
+  promptTokens: Math.ceil(request.prompt.length / 4),
+  outputTokens: Math.ceil(text.length / 4),
+  thinkingTokens: request.thinkingBudget ? Math.min(request.thinkingBudget, text.length) : 0,
+  groundingCalls: request.useSearch ? 1 : 0
+});
+
+/**
+ * Offline provider with canned, deterministic answers for UI development and tests
+ */
+export const createMockProvider = (): LLMProvider => ({
+  id: "mock",
+  label: "Offline mock",
+
+  generate: async (request) => {
+    await delay(STREAM_DELAY_MS * 10, request.signal);
+    const { text, supports } = respond(request);
+    const usage = mockUsage(request, text);
+    return request.useSearch
+      ? { text, sources: mockSources(request.hints?.concept || "concept"), supports, usage }
+      : { text, sources: [], usage };
+  },
+
+  generateStream: async function* (request) {
+    const { text, supports } = respond(request);
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      await delay(STREAM_DELAY_MS, request.signal);
+      const isLast = i + STREAM_CHUNK_SIZE >= text.length;
+      yield {
+        text: text.slice(i, i + STREAM_CHUNK_SIZE),
+        sources: isLast && request.useSearch ? mockSources(request.hints?.concept || "concept") : undefined,
+        supports: isLast && request.useSearch ? supports : undefined,
+        usage: isLast ? mockUsage(request, text) : undefined
+      };
+    }
+  },
+
+  embed: async (texts, signal) => {
+    await delay(STREAM_DELAY_MS * 5, signal);
+    return texts.map(mockEmbedding);
+  }
+});
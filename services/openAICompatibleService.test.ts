@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { defaultProviderSettings, StreamChunk } from "./llmProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleService";
+
+const REQUEST = { operation: "related-topics" as const, tier: "fast" as const, prompt: "Memory" };
+
+/**
+ * Answers every request with a server-sent event stream made of `parts`, split where the server split them
+ */
+const serveEvents = (...parts: string[]) => {
+  vi.stubGlobal("fetch", vi.fn(async () => new Response(new ReadableStream({
+    start: controller => {
+      parts.forEach(part => controller.enqueue(new TextEncoder().encode(part)));
+      controller.close();
+    }
+  }))));
+};
+
+const event = (data: unknown) => `data: ${JSON.stringify(data)}\n\n`;
+const delta = (content: string) => event({ choices: [{ delta: { content } }] });
+
+const readAll = async () => {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of createOpenAICompatibleProvider(defaultProviderSettings("openai-compatible")).generateStream(REQUEST)) chunks.push(chunk);
+  return chunks;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("OpenAI-compatible streaming", () => {
+  it("joins deltas split across reads and reports usage", async () => {
+    const usage = event({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 5 } });
+    serveEvents(delta("## TOPIC: Sle"), delta("ep").slice(0, 10), delta("ep").slice(10), usage, "data: [DONE]\n\n");
+    const chunks = await readAll();
+    expect(chunks.map(c => c.text).join("")).toBe("## TOPIC: Sleep");
+    expect(chunks.find(c => c.usage)?.usage).toEqual({ promptTokens: 12, outputTokens: 5, thinkingTokens: 0, groundingCalls: 0 });
+  });
+
+  it("skips keep-alives, comments and malformed lines", async () => {
+    serveEvents(": keep-alive\n\n", delta("Memory"), "data: {not json\n\n", "data:\n\n", delta(" consolidation"));
+    const chunks = await readAll();
+    expect(chunks.map(c => c.text).join("")).toBe("Memory consolidation");
+  });
+
+  it("reads a last event that has no trailing newline", async () => {
+    serveEvents(delta("Memory"), `data: ${JSON.stringify({ choices: [{ delta: { content: " traces" } }] })}`);
+    const chunks = await readAll();
+    expect(chunks.map(c => c.text).join("")).toBe("Memory traces");
+  });
+
+  it("throws the server's error event", async () => {
+    serveEvents(delta("Mem"), event({ error: { message: "model overloaded", code: 503 } }));
+    await expect(readAll()).rejects.toMatchObject({ message: "Model server error: model overloaded", status: 503 });
+  });
+
+  it("collects cited links once the answer is complete", async () => {
+    serveEvents(delta("See [Sleep and memory](https://example.org/sl"), delta("eep) and https://example.com/a."));
+    const chunks = await readAll();
+    expect(chunks.filter(c => c.sources)).toEqual([{
+      text: "",
+      sources: [{ title: "Sleep and memory", uri: "https://example.org/sleep" }, { title: "example.com", uri: "https://example.com/a" }]
+    }]);
+  });
+});
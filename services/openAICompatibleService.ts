@@ -0,0 +1,168 @@
+import { GroundingSource, TokenUsage } from "../types";
+import { GenerateRequest, LLMProvider, ProviderSettings } from "./llmProvider";
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+/** Some servers report failures inside a 200 response or as a stream event */
+interface ServerError {
+  message?: string;
+  type?: string;
+  code?: number | string | null;
+}
+
+interface CompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: CompletionUsage | null;
+  error?: ServerError;
+}
+
+interface CompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: CompletionUsage | null;
+  error?: ServerError;
+}
+
+interface EmbeddingResponse {
+  data?: { index?: number; embedding?: number[] }[];
+}
+
+const MARKDOWN_LINK = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+const BARE_URL = /(?<!\()https?:\/\/[^\s)\]>"']+/g;
+
+/**
+ * Local models have no search grounding, so treat any links they cite as the sources
+ */
+const extractSources = (text: string): GroundingSource[] => {
+  const sources: GroundingSource[] = [];
+  const add = (title: string, uri: string) => {
+    const cleaned = uri.replace(/[.,;:]+$/, "");
+    if (!sources.some(s => s.uri === cleaned)) sources.push({ title, uri: cleaned });
+  };
+  for (const match of text.matchAll(MARKDOWN_LINK)) add(match[1], match[2]);
+  for (const match of text.matchAll(BARE_URL)) {
+    try {
+      add(new URL(match[0]).hostname, match[0]);
+    } catch {
+      // Not a parseable URL after all
+    }
+  }
+  return sources;
+};
+
+/**
+ * The `usage` object of a completion; servers that omit it report nothing
+ */
+const toUsage = (usage: CompletionUsage | null | undefined): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    outputTokens: Math.max(0, (usage.completion_tokens || 0) - thinkingTokens),
+    thinkingTokens,
+    groundingCalls: 0
+  };
+};
+
+/**
+ * The server's own error, with a numeric code as `status` so the scheduler can retry rate limits
+ */
+const toServerError = ({ message, type, code }: ServerError) =>
+  Object.assign(new Error(`Model server error: ${message || type || "unknown error"}`), typeof code === "number" ? { status: code } : {});
+
+/**
+ * One server-sent event line; keep-alives, comments and lines that are not valid JSON give null
+ */
+const parseEvent = (line: string): CompletionChunk | null => {
+  if (!line.startsWith("data:")) return null;
+  const payload = line.slice(5).trim();
+  if (!payload || payload === "[DONE]") return null;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return null;
+  }
+};
+
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): LLMProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, "");
+
+  const postJson = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+    const response = await fetch(`${baseUrl}${path}`, { method: "POST", headers, signal, body: JSON.stringify(body) });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      // `status` lets the request scheduler retry rate limits and server errors
+      throw Object.assign(new Error(`Model server responded with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`), { status: response.status });
+    }
+    return response;
+  };
+
+  const post = (request: GenerateRequest, stream: boolean) =>
+    postJson("/chat/completions", {
+      model: request.model || settings.models[request.tier],
+      messages: [{ role: "user", content: request.prompt }],
+      temperature: request.temperature,
+      stream,
+      // Asks for token counts in a final chunk; servers without it ignore the option
+      stream_options: stream ? { include_usage: true } : undefined
+    }, request.signal);
+
+  return {
+    id: "openai-compatible",
+    label: "OpenAI-compatible server",
+
+    generate: async (request) => {
+      const response = await post(request, false);
+      const data: CompletionResponse = await response.json();
+      if (data.error) throw toServerError(data.error);
+      const text = data.choices?.[0]?.message?.content || "";
+      return { text, sources: extractSources(text), usage: toUsage(data.usage) };
+    },
+
+    generateStream: async function* (request) {
+      const response = await post(request, true);
+      if (!response.body) throw new Error("The model server did not return a stream.");
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      let fullText = "";
+
+      // Server-sent events: one `data: {...}` JSON payload per line, terminated by `data: [DONE]`
+      while (true) {
+        const { value, done } = await reader.read();
+        if (!done) buffer += value;
+        const lines = buffer.split("\n");
+        buffer = done ? "" : lines.pop() || "";
+        for (const line of lines) {
+          const data = parseEvent(line.trim());
+          if (!data) continue;
+          if (data.error) throw toServerError(data.error);
+          const usage = toUsage(data.usage);
+          if (usage) yield { text: "", usage };
+          const delta = data.choices?.[0]?.delta?.content || "";
+          if (!delta) continue;
+          fullText += delta;
+          yield { text: delta };
+        }
+        if (done) break;
+      }
+
+      // Links are collected once the answer is complete, like grounding on the final chunk
+      const sources = extractSources(fullText);
+      if (sources.length > 0) yield { text: "", sources };
+    },
+
+    embed: async (texts, signal) => {
+      const response = await postJson("/embeddings", { model: settings.models.embedding, input: texts }, signal);
+      const data: EmbeddingResponse = await response.json();
+      // Servers may return the rows out of order; `index` says where each belongs
+      return [...(data.data || [])]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(row => row.embedding || []);
+    }
+  };
+};
@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { SavedMap, ThoughtNode } from "../types";
+import { parseMarkdownOutline, parseOpml, toMarkdownOutline, toOpml } from "./outlineService";
+
+const node = (id: string, parentId: string | null, label: string, description: string, extra: Partial<ThoughtNode> = {}): ThoughtNode => ({
+  id, label, description, parentId, level: parentId ? 1 : 0, position: { x: 0, y: 0 }, isExpanded: false, isLoading: false, path: [label], ...extra
+});
+
+const MAP: SavedMap = {
+  id: "map-1",
+  title: "Sleep — and Memory",
+  nodes: [
+    node("root", null, "Sleep — and Memory", "- Not a list item, and #1 of [^2] things", {
+      sources: [{ title: "Sleep [review]", uri: "https://example.org/sleep" }]
+    }),
+    node("a", "root", "REM – Dreaming", "Vivid — often emotional — dreams", { tags: ["rem", "dreams"], status: "important", color: "#ef4444" }),
+    node("c", "a", "Lucid dreams", "1. Not a numbered item", { sources: [{ title: "Lucidity", uri: "https://example.org/lucid" }], level: 2 }),
+    node("b", "root", "Slow*wave* sleep", "**Deep** sleep; see C:\\notes_2", { notes: "First line\n\nSecond **line**" })
+  ],
+  edges: [],
+  view: { zoom: 1, scrollX: 0, scrollY: 0, activeLevel: 0 },
+  createdAt: 1000,
+  updatedAt: 2000
+};
+
+/** What an outline keeps of each node, in tree order */
+const outline = (map: SavedMap) => map.nodes.map(n => ({
+  label: n.label,
+  description: n.description,
+  depth: n.level,
+  sources: n.sources,
+  notes: n.notes,
+  tags: n.tags,
+  color: n.color,
+  status: n.status
+}));
+
+describe("outline round trips", () => {
+  it("reads back labels and descriptions that contain separators and Markdown", () => {
+    const imported = parseMarkdownOutline(toMarkdownOutline(MAP));
+    expect(imported.title).toBe("Sleep — and Memory");
+    expect(outline(imported)).toEqual(outline(MAP));
+  });
+
+  it("reads back an OPML export", () => {
+    const imported = parseOpml(toOpml(MAP));
+    expect(imported.title).toBe("Sleep — and Memory");
+    expect(outline(imported)).toEqual(outline(MAP));
+  });
+});
@@ -0,0 +1,396 @@
+import { Edge, GroundingSource, NodeAnnotations, NodeStatus, SavedMap, ThoughtNode } from "../types";
+import { createMapId } from "./storageService";
+import { getStatusInfo, isNodeColor, isNodeStatus, NODE_STATUSES, parseTags } from "./annotationService";
+import { toCitedSpans } from "./groundingService";
+
+const CANVAS_CENTER = 5000;
+const LEVEL_SPACING_Y = -140;
+const LEAF_SPACING_X = 180;
+
+interface OutlineItem {
+  label: string;
+  description: string;
+  sources: GroundingSource[];
+  annotations: NodeAnnotations;
+  children: OutlineItem[];
+}
+
+const FREEMIND_ICONS: Record<NodeStatus, string> = {
+  "to-read": "bookmark",
+  reviewed: "button_ok",
+  important: "messagebox_warning",
+  dismissed: "button_cancel"
+};
+
+/**
+ * Groups nodes by parent, preserving the order in which they were created
+ */
+const childrenByParent = (nodes: ThoughtNode[]) => {
+  const map = new Map<string | null, ThoughtNode[]>();
+  nodes.forEach(n => {
+    const siblings = map.get(n.parentId) || [];
+    siblings.push(n);
+    map.set(n.parentId, siblings);
+  });
+  return map;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+
+const escapeMarkdown = (text: string) => text.replace(/([\\*_[\]])/g, "\\$1");
+
+/**
+ * Keeps a description line from reading as a heading, list item or quote
+ */
+const escapeBlockStart = (text: string) => text.replace(/^([#>+-])/, "\\$1").replace(/^(\d+)([.)]\s)/, "$1\\$2");
+
+/**
+ * A heading has no bold to fence its label off, so dashes are written as entities the
+ * importer would otherwise read as the label/description separator
+ */
+const encodeDashes = (text: string) => text.replace(/—/g, "&mdash;").replace(/–/g, "&ndash;");
+
+/**
+ * "Status: Important | Tags: a, b | Color: #ef4444", written as the first quoted line under a node
+ */
+const annotationMeta = (node: ThoughtNode) => [
+  node.status ? `Status: ${getStatusInfo(node.status).label}` : "",
+  node.tags?.length ? `Tags: ${node.tags.join(", ")}` : "",
+  node.color ? `Color: ${node.color}` : ""
+].filter(Boolean).join(" | ");
+
+const parseAnnotationMeta = (line: string): NodeAnnotations | null => {
+  const annotations: NodeAnnotations = {};
+  const parts = line.split(" | ").map(part => part.match(/^(Status|Tags|Color):\s*(.*)$/));
+  if (parts.some(p => !p)) return null;
+  parts.forEach(p => {
+    const [, key, value] = p!;
+    if (key === "Status") annotations.status = NODE_STATUSES.find(s => s.label.toLowerCase() === value.trim().toLowerCase())?.id;
+    if (key === "Tags") annotations.tags = parseTags(value);
+    if (key === "Color" && isNodeColor(value.trim())) annotations.color = value.trim();
+  });
+  return annotations;
+};
+
+/**
+ * Defined annotation fields only, so imported nodes carry no blank values
+ */
+const definedAnnotations = ({ notes, tags, color, status }: NodeAnnotations): NodeAnnotations => ({
+  ...(notes?.trim() ? { notes: notes.trim() } : {}),
+  ...(tags?.length ? { tags } : {}),
+  ...(color ? { color } : {}),
+  ...(status ? { status } : {})
+});
+
+export const toMarkdownOutline = (map: SavedMap): string => {
+  const children = childrenByParent(map.nodes);
+  const footnotes: GroundingSource[] = [];
+  const footnoteIndex = new Map<string, number>();
+
+  const refsFor = (node: ThoughtNode) => (node.sources || []).map(source => {
+    if (!footnoteIndex.has(source.uri)) {
+      footnotes.push(source);
+      footnoteIndex.set(source.uri, footnotes.length);
+    }
+    return `[^${footnoteIndex.get(source.uri)}]`;
+  }).join("");
+
+  const lines: string[] = [];
+  const walk = (node: ThoughtNode, depth: number) => {
+    const refs = refsFor(node);
+    const quoted: string[] = [];
+    const meta = annotationMeta(node);
+    if (meta) quoted.push(meta);
+    if (node.notes) quoted.push(...node.notes.split("\n"));
+    if (depth === 0) {
+      lines.push(`# ${encodeDashes(escapeMarkdown(node.label))}`, "");
+      if (node.description) lines.push(`${escapeBlockStart(escapeMarkdown(node.description))}${refs}`, "");
+      if (quoted.length > 0) lines.push(...quoted.map(q => `> ${q}`.trimEnd()), "");
+    } else {
+      const indent = "  ".repeat(depth - 1);
+      const desc = node.description ? ` — ${escapeMarkdown(node.description)}` : "";
+      lines.push(`${indent}- **${escapeMarkdown(node.label)}**${desc}${refs}`);
+      lines.push(...quoted.map(q => `${indent}  > ${q}`.trimEnd()));
+    }
+    (children.get(node.id) || []).forEach(child => walk(child, depth + 1));
+  };
+  (children.get(null) || []).forEach(root => walk(root, 0));
+
+  if (footnotes.length > 0) {
+    lines.push("");
+    footnotes.forEach((source, i) => lines.push(`[^${i + 1}]: [${escapeMarkdown(source.title)}](${source.uri})`));
+  }
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * A node's deep dive as a standalone article, with each cited span followed by its footnotes
+ */
+export const toDeepDiveMarkdown = (node: ThoughtNode): string => {
+  const deepDive = node.deepDive;
+  if (!deepDive) return "";
+  const lines: string[] = [`# ${escapeMarkdown(node.label)}`, ""];
+  if (node.path.length > 1) lines.push(`*${node.path.map(escapeMarkdown).join(" → ")}*`, "");
+  deepDive.sections.forEach(section => {
+    let body = "";
+    let cursor = 0;
+    toCitedSpans(section.citations || [], section.body.length).forEach(span => {
+      const refs = span.sourceIndices.filter(i => deepDive.sources[i]).sort((a, b) => a - b).map(i => `[^${i + 1}]`).join("");
+      body += section.body.slice(cursor, span.end) + refs;
+      cursor = span.end;
+    });
+    body += section.body.slice(cursor);
+    lines.push(`## ${escapeMarkdown(section.heading)}`, "", body, "");
+  });
+  if (deepDive.sources.length > 0) {
+    deepDive.sources.forEach((source, i) => lines.push(`[^${i + 1}]: [${escapeMarkdown(source.title)}](${source.uri})`));
+    lines.push("");
+  }
+  if (deepDive.generatedAt) lines.push(`*Generated ${new Date(deepDive.generatedAt).toLocaleString()}${deepDive.includesSubtree ? ", covering the whole branch" : ""}.*`);
+  return lines.join("\n").trimEnd() + "\n";
+};
+
+export const toOpml = (map: SavedMap): string => {
+  const children = childrenByParent(map.nodes);
+  const walk = (node: ThoughtNode, depth: number): string => {
+    const indent = "  ".repeat(depth + 2);
+    const attrs = [`text="${escapeXml(node.label)}"`];
+    if (node.description) attrs.push(`_note="${escapeXml(node.description)}"`);
+    if (node.sources?.length) attrs.push(`_sources="${escapeXml(JSON.stringify(node.sources))}"`);
+    if (node.notes) attrs.push(`_notes="${escapeXml(node.notes).replace(/\n/g, "&#10;")}"`);
+    if (node.tags?.length) attrs.push(`_tags="${escapeXml(node.tags.join(", "))}"`);
+    if (node.color) attrs.push(`_color="${node.color}"`);
+    if (node.status) attrs.push(`_status="${node.status}"`);
+    const kids = children.get(node.id) || [];
+    if (kids.length === 0) return `${indent}<outline ${attrs.join(" ")}/>`;
+    return `${indent}<outline ${attrs.join(" ")}>\n${kids.map(k => walk(k, depth + 1)).join("\n")}\n${indent}</outline>`;
+  };
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<opml version="2.0">`,
+    `  <head>`,
+    `    <title>${escapeXml(map.title)}</title>`,
+    `    <dateModified>${new Date(map.updatedAt).toUTCString()}</dateModified>`,
+    `  </head>`,
+    `  <body>`,
+    ...(children.get(null) || []).map(root => walk(root, 0)),
+    `  </body>`,
+    `</opml>`,
+    ``
+  ].join("\n");
+};
+
+export const toFreeMind = (map: SavedMap): string => {
+  const children = childrenByParent(map.nodes);
+  const walk = (node: ThoughtNode, depth: number, index: number): string => {
+    const indent = "  ".repeat(depth + 1);
+    const attrs = [`ID="${escapeXml(node.id)}"`, `TEXT="${escapeXml(node.label)}"`];
+    if (depth === 1) attrs.push(`POSITION="${index % 2 === 0 ? "right" : "left"}"`);
+    if (node.sources?.length) attrs.push(`LINK="${escapeXml(node.sources[0].uri)}"`);
+    if (node.color) attrs.push(`COLOR="${node.color}"`);
+    const body: string[] = [];
+    if (node.status) body.push(`${indent}  <icon BUILTIN="${FREEMIND_ICONS[node.status]}"/>`);
+    const paragraphs = [node.description, ...(node.notes?.split(/\n\s*\n/) || [])].filter(Boolean);
+    if (paragraphs.length > 0) {
+      body.push(`${indent}  <richcontent TYPE="NOTE"><html><head/><body>${paragraphs.map(p => `<p>${escapeXml(p)}</p>`).join("")}</body></html></richcontent>`);
+    }
+    if (node.tags?.length) body.push(`${indent}  <attribute NAME="tags" VALUE="${escapeXml(node.tags.join(", "))}"/>`);
+    (children.get(node.id) || []).forEach((child, i) => body.push(walk(child, depth + 1, i)));
+    if (body.length === 0) return `${indent}<node ${attrs.join(" ")}/>`;
+    return `${indent}<node ${attrs.join(" ")}>\n${body.join("\n")}\n${indent}</node>`;
+  };
+  return [
+    `<map version="1.0.1">`,
+    ...(children.get(null) || []).map((root, i) => walk(root, 0, i)),
+    `</map>`,
+    ``
+  ].join("\n");
+};
+
+/**
+ * Turns a parsed outline into a map, laying each level out one row above its parent
+ */
+const outlineToMap = (roots: OutlineItem[], fallbackTitle: string): SavedMap => {
+  if (roots.length === 0) throw new Error("The outline does not contain any items.");
+  const root: OutlineItem = roots.length === 1
+    ? roots[0]
+    : { label: fallbackTitle, description: "", sources: [], annotations: {}, children: roots };
+
+  const stamp = Date.now();
+  const nodes: ThoughtNode[] = [];
+  const edges: Edge[] = [];
+  let leafCursor = 0;
+
+  const countLeaves = (item: OutlineItem): number =>
+    item.children.length === 0 ? 1 : item.children.reduce((sum, c) => sum + countLeaves(c), 0);
+  const totalLeaves = countLeaves(root);
+
+  const walk = (item: OutlineItem, parent: ThoughtNode | null): ThoughtNode => {
+    const level = parent ? parent.level + 1 : 0;
+    const id = parent ? `node-import-${stamp}-${nodes.length}` : `root-${stamp}`;
+    const node: ThoughtNode = {
+      id,
+      label: item.label,
+      description: item.description,
+      parentId: parent?.id ?? null,
+      level,
+      position: { x: 0, y: CANVAS_CENTER + level * LEVEL_SPACING_Y },
+      isExpanded: item.children.length > 0,
+      isLoading: false,
+      sources: item.sources.length > 0 ? item.sources : undefined,
+      path: parent ? [...parent.path, item.label] : [item.label],
+      ...definedAnnotations(item.annotations)
+    };
+    nodes.push(node);
+    if (parent) edges.push({ id: `edge-${parent.id}-${id}`, from: parent.id, to: id });
+
+    if (item.children.length === 0) {
+      node.position.x = CANVAS_CENTER + (leafCursor - (totalLeaves - 1) / 2) * LEAF_SPACING_X;
+      leafCursor++;
+    } else {
+      const kids = item.children.map(child => walk(child, node));
+      node.position.x = (kids[0].position.x + kids[kids.length - 1].position.x) / 2;
+    }
+    return node;
+  };
+  walk(root, null);
+
+  // Keep the root at the canvas centre like a freshly started journey
+  const shiftX = CANVAS_CENTER - nodes[0].position.x;
+  nodes.forEach(n => { n.position.x += shiftX; });
+
+  return {
+    id: createMapId(),
+    title: root.label,
+    nodes,
+    edges,
+    view: { zoom: 1, scrollX: 0, scrollY: 0, activeLevel: 0 },
+    createdAt: stamp,
+    updatedAt: stamp
+  };
+};
+
+const parseSourcesAttr = (value: string | null): GroundingSource[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter(s => s && typeof s.uri === "string").map(s => ({ title: String(s.title || "Source"), uri: s.uri })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const parseOpml = (text: string, fallbackTitle = "Imported Outline"): SavedMap => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.querySelector("parsererror")) throw new Error("The file is not valid OPML.");
+  const body = doc.querySelector("opml > body");
+  if (!body) throw new Error("The OPML file has no <body>.");
+
+  const readOutline = (el: Element): OutlineItem | null => {
+    const label = (el.getAttribute("text") || el.getAttribute("title") || "").trim();
+    const children = Array.from(el.children)
+      .filter(c => c.tagName === "outline")
+      .map(readOutline)
+      .filter((c): c is OutlineItem => c !== null);
+    if (!label) return children.length === 1 ? children[0] : null;
+    return {
+      label,
+      description: (el.getAttribute("_note") || "").trim(),
+      sources: parseSourcesAttr(el.getAttribute("_sources")),
+      annotations: {
+        notes: el.getAttribute("_notes") || undefined,
+        tags: parseTags(el.getAttribute("_tags") || ""),
+        color: isNodeColor(el.getAttribute("_color")) ? el.getAttribute("_color")! : undefined,
+        status: isNodeStatus(el.getAttribute("_status")) ? el.getAttribute("_status") as NodeStatus : undefined
+      },
+      children
+    };
+  };
+
+  const roots = Array.from(body.children)
+    .filter(c => c.tagName === "outline")
+    .map(readOutline)
+    .filter((c): c is OutlineItem => c !== null);
+  const title = doc.querySelector("opml > head > title")?.textContent?.trim() || fallbackTitle;
+  return outlineToMap(roots, title);
+};
+
+const FOOTNOTE_DEF = /^\[\^(\w+)\]:\s*(?:\[(.*?)\]\((\S+?)\)|(\S+))\s*$/;
+const FOOTNOTE_REF = /\[\^(\w+)\]/g;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+/**
+ * Splits "**Label** — description" (or "Label — description") into its parts
+ */
+const splitItemText = (text: string): { label: string; description: string } => {
+  const bold = text.match(/^\*\*(.+?)\*\*\s*(?:[—–:-]\s*)?(.*)$/);
+  if (bold) return { label: bold[1], description: bold[2] };
+  const sep = text.match(/^(.+?)\s+[—–]\s+(.*)$/);
+  if (sep) return { label: sep[1], description: sep[2] };
+  return { label: text, description: "" };
+};
+
+// Any escaped ASCII punctuation, as in CommonMark, plus the dashes encodeDashes writes
+const unescapeMarkdown = (text: string) =>
+  text.replace(/\\([!-/:-@[-`{-~])/g, "$1").replace(/&mdash;/g, "—").replace(/&ndash;/g, "–");
+
+export const parseMarkdownOutline = (text: string, fallbackTitle = "Imported Outline"): SavedMap => {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+
+  const footnoteSources = new Map<string, GroundingSource>();
+  lines.forEach(line => {
+    const def = line.match(FOOTNOTE_DEF);
+    if (def) footnoteSources.set(def[1], { title: unescapeMarkdown(def[2] || def[4]), uri: def[3] || def[4] });
+  });
+
+  // Headings rank by their depth; bullets always rank below every heading and nest by indentation
+  const roots: OutlineItem[] = [];
+  const stack: { rank: number; item: OutlineItem; refs: string[]; notes: string[] }[] = [];
+  const allItems: { item: OutlineItem; refs: string[]; notes: string[] }[] = [];
+
+  const addItem = (rank: number, rawText: string) => {
+    const refs = Array.from(rawText.matchAll(FOOTNOTE_REF), m => m[1]);
+    const { label, description } = splitItemText(rawText.replace(FOOTNOTE_REF, "").trim());
+    const item: OutlineItem = { label: unescapeMarkdown(label).trim(), description: unescapeMarkdown(description).trim(), sources: [], annotations: {}, children: [] };
+    if (!item.label) return;
+    while (stack.length > 0 && stack[stack.length - 1].rank >= rank) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].item.children.push(item);
+    else roots.push(item);
+    const entry = { rank, item, refs, notes: [] as string[] };
+    stack.push(entry);
+    allItems.push(entry);
+  };
+
+  lines.forEach(line => {
+    if (!line.trim() || FOOTNOTE_DEF.test(line)) return;
+    const heading = line.match(HEADING);
+    if (heading) return addItem(heading[1].length, heading[2]);
+    const bullet = line.match(BULLET);
+    if (bullet) return addItem(100 + bullet[1].replace(/\t/g, "  ").length, bullet[2]);
+
+    // Plain paragraphs describe the most recent item; quoted lines are its annotations
+    const current = stack[stack.length - 1];
+    if (!current) return;
+    const quote = line.match(QUOTE);
+    if (quote) {
+      const meta = current.notes.length === 0 ? parseAnnotationMeta(quote[1]) : null;
+      if (meta) current.item.annotations = meta;
+      else current.notes.push(quote[1]);
+      return;
+    }
+    const refs = Array.from(line.matchAll(FOOTNOTE_REF), m => m[1]);
+    current.refs.push(...refs);
+    const para = unescapeMarkdown(line.replace(FOOTNOTE_REF, "").trim());
+    current.item.description = current.item.description ? `${current.item.description} ${para}` : para;
+  });
+
+  allItems.forEach(({ item, refs, notes }) => {
+    item.sources = refs.map(r => footnoteSources.get(r)).filter((s): s is GroundingSource => !!s);
+    if (notes.length > 0) item.annotations = { ...item.annotations, notes: notes.join("\n") };
+  });
+
+  return outlineToMap(roots, fallbackTitle);
+};
@@ -0,0 +1,364 @@
+import { Edge, ThoughtNode } from "../types";
+
+const REPULSION_STRENGTH = 18000;
+/** Same-generation nodes push apart harder so siblings fan out */
+const SAME_LEVEL_REPULSION = 1.4;
+const ATTRACTION_STRENGTH = 0.04;
+const CROSS_LINK_STRENGTH = 0.01;
+const HIERARCHY_STRENGTH = 0.15;
+const DAMPING = 0.75;
+const MAX_VELOCITY = 8;
+const MIN_DIST_SQ = 1200;
+const GLOBAL_CENTERING_STRENGTH = 0.005;
+
+/** Barnes–Hut opening angle: a cell is treated as one body when size / distance is below this */
+const THETA = 0.8;
+/** Cells smaller than this stop splitting and hold all their bodies in a list */
+const MIN_CELL_SIZE = 1;
+/** Movements smaller than this are dropped so a settling map stops producing new positions */
+const POSITION_EPSILON = 0.01;
+/** Mean squared speed below which a frame counts as calm */
+const SLEEP_ENERGY = 0.0005;
+/** Calm frames in a row before the engine sleeps */
+const SLEEP_FRAMES = 20;
+
+export interface PhysicsOptions {
+  /** Vertical offset of children from their parent; negative grows upwards */
+  spacingY: number;
+  /** Point every node is weakly pulled towards */
+  center: { x: number; y: number };
+}
+
+interface Body {
+  id: string;
+  position: { x: number; y: number };
+  vx: number;
+  vy: number;
+  level: number;
+  parentId: string | null;
+  parent: number;
+  isHidden: boolean;
+  isAnchored: boolean;
+}
+
+/**
+ * Force simulation over a graph, kept outside React state.
+ *
+ * Bodies live in id-keyed maps and index arrays rebuilt only when the graph's shape changes.
+ * Repulsion runs through a Barnes–Hut quadtree, so a frame costs O(n log n) rather than O(n²),
+ * and the engine sleeps once the kinetic energy stays below a threshold. It has no DOM
+ * dependencies, so it can run unchanged in a Web Worker.
+ */
+export interface PhysicsEngine {
+  /**
+   * Brings the bodies in line with the latest graph. Nodes whose position was replaced outside
+   * the engine (drags, undo, relayouts, loading a map) are moved there and come to rest.
+   */
+  sync: (nodes: ThoughtNode[], edges: Edge[], anchors: Set<string>) => void;
+  /** Advances one frame; returns whether any body moved */
+  step: () => boolean;
+  /** Copies the simulated positions into the nodes that still show an engine-owned position */
+  writePositions: (nodes: ThoughtNode[]) => ThoughtNode[];
+  /** Places a body directly, e.g. under the pointer, and stops it */
+  moveBody: (id: string, position: { x: number; y: number }) => void;
+  configure: (options: Partial<PhysicsOptions>) => void;
+  isAsleep: () => boolean;
+  wake: () => void;
+  reset: () => void;
+}
+
+export const createPhysicsEngine = (initial: PhysicsOptions): PhysicsEngine => {
+  let options = { ...initial };
+  let bodies = new Map<string, Body>();
+  let order: Body[] = [];
+  let springs: { from: number; to: number; isCross: boolean }[] = [];
+  let lastNodes: ThoughtNode[] | null = null;
+  let lastEdges: Edge[] | null = null;
+  let lastAnchors: Set<string> | null = null;
+  let calmFrames = 0;
+  let asleep = false;
+  // Every position object the engine has handed out; anything else in a node came from outside
+  let owned = new WeakSet<object>();
+
+  // Quadtree storage, reused between frames
+  const cellX: number[] = [];
+  const cellY: number[] = [];
+  const cellSize: number[] = [];
+  const cellSumX: number[] = [];
+  const cellSumY: number[] = [];
+  const cellCount: number[] = [];
+  const cellChild: number[] = [];
+  const cellBody: number[] = [];
+  let nextInCell: number[] = [];
+  let cellTotal = 0;
+
+  const wake = () => {
+    asleep = false;
+    calmFrames = 0;
+  };
+
+  const reindex = (edges: Edge[]) => {
+    order = Array.from(bodies.values());
+    const indexOf = new Map<string, number>();
+    order.forEach((b, i) => indexOf.set(b.id, i));
+    order.forEach(b => { b.parent = b.parentId !== null ? indexOf.get(b.parentId) ?? -1 : -1; });
+    springs = [];
+    edges.forEach(e => {
+      const from = indexOf.get(e.from);
+      const to = indexOf.get(e.to);
+      if (from !== undefined && to !== undefined) springs.push({ from, to, isCross: e.kind === "cross" });
+    });
+    nextInCell = new Array(order.length).fill(-1);
+  };
+
+  const sync: PhysicsEngine["sync"] = (nodes, edges, anchors) => {
+    if (nodes === lastNodes && edges === lastEdges && anchors === lastAnchors) return;
+    let shapeChanged = edges !== lastEdges || bodies.size !== nodes.length;
+    const seen = new Set<string>();
+    nodes.forEach(n => {
+      seen.add(n.id);
+      const isAnchored = n.level === 0 || anchors.has(n.id);
+      const isHidden = !!n.isHidden;
+      const body = bodies.get(n.id);
+      if (!body) {
+        owned.add(n.position);
+        bodies.set(n.id, { id: n.id, position: n.position, vx: 0, vy: 0, level: n.level, parentId: n.parentId, parent: -1, isHidden, isAnchored });
+        shapeChanged = true;
+        return;
+      }
+      if (body.parentId !== n.parentId) {
+        body.parentId = n.parentId;
+        shapeChanged = true;
+      }
+      if (body.level !== n.level || body.isHidden !== isHidden || body.isAnchored !== isAnchored) {
+        body.level = n.level;
+        body.isHidden = isHidden;
+        body.isAnchored = isAnchored;
+        wake();
+      }
+      if (n.position !== body.position && !owned.has(n.position)) {
+        owned.add(n.position);
+        body.position = n.position;
+        body.vx = 0;
+        body.vy = 0;
+        wake();
+      }
+    });
+    if (bodies.size !== seen.size) {
+      bodies.forEach((_, id) => { if (!seen.has(id)) bodies.delete(id); });
+    }
+    if (shapeChanged) {
+      reindex(edges);
+      wake();
+    }
+    lastNodes = nodes;
+    lastEdges = edges;
+    lastAnchors = anchors;
+  };
+
+  const allocCell = (x: number, y: number, size: number) => {
+    const c = cellTotal++;
+    cellX[c] = x; cellY[c] = y; cellSize[c] = size;
+    cellSumX[c] = 0; cellSumY[c] = 0; cellCount[c] = 0;
+    cellChild[c * 4] = -1; cellBody[c] = -1;
+    return c;
+  };
+
+  const childFor = (c: number, b: number) => {
+    const half = cellSize[c] / 2;
+    const p = order[b].position;
+    return cellChild[c * 4 + (p.x >= cellX[c] + half ? 1 : 0) + (p.y >= cellY[c] + half ? 2 : 0)];
+  };
+
+  const insert = (start: number, b: number) => {
+    const p = order[b].position;
+    let c = start;
+    while (true) {
+      cellCount[c]++;
+      cellSumX[c] += p.x;
+      cellSumY[c] += p.y;
+      if (cellChild[c * 4] !== -1) {
+        c = childFor(c, b);
+        continue;
+      }
+      if (cellBody[c] === -1 || cellSize[c] < MIN_CELL_SIZE) {
+        nextInCell[b] = cellBody[c];
+        cellBody[c] = b;
+        return;
+      }
+      // Split the leaf and push its bodies one level down
+      const half = cellSize[c] / 2;
+      for (let q = 0; q < 4; q++) {
+        cellChild[c * 4 + q] = allocCell(cellX[c] + (q & 1 ? half : 0), cellY[c] + (q & 2 ? half : 0), half);
+      }
+      let e = cellBody[c];
+      cellBody[c] = -1;
+      while (e !== -1) {
+        const following = nextInCell[e];
+        insert(childFor(c, e), e);
+        e = following;
+      }
+      c = childFor(c, b);
+    }
+  };
+
+  const buildTree = () => {
+    cellTotal = 0;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    order.forEach(b => {
+      if (b.isHidden) return;
+      minX = Math.min(minX, b.position.x); maxX = Math.max(maxX, b.position.x);
+      minY = Math.min(minY, b.position.y); maxY = Math.max(maxY, b.position.y);
+    });
+    if (minX === Infinity) return;
+    const root = allocCell(minX, minY, Math.max(maxX - minX, maxY - minY) + 1);
+    order.forEach((b, i) => { if (!b.isHidden) insert(root, i); });
+  };
+
+  const stack: number[] = [];
+
+  const repulsion = (b: number, force: { x: number; y: number }) => {
+    const body = order[b];
+    const { x, y } = body.position;
+    stack.length = 0;
+    stack.push(0);
+    while (stack.length > 0) {
+      const c = stack.pop()!;
+      if (cellCount[c] === 0) continue;
+      if (cellChild[c * 4] === -1) {
+        for (let e = cellBody[c]; e !== -1; e = nextInCell[e]) {
+          if (e === b) continue;
+          const other = order[e];
+          const dx = x - other.position.x;
+          const dy = y - other.position.y;
+          const distSq = Math.max(dx * dx + dy * dy, MIN_DIST_SQ);
+          const dist = Math.sqrt(distSq);
+          const f = (REPULSION_STRENGTH * (other.level === body.level ? SAME_LEVEL_REPULSION : 1)) / distSq;
+          force.x += (dx / dist) * f;
+          force.y += (dy / dist) * f;
+        }
+        continue;
+      }
+      const size = cellSize[c];
+      const inside = x >= cellX[c] && x < cellX[c] + size && y >= cellY[c] && y < cellY[c] + size;
+      const dx = x - cellSumX[c] / cellCount[c];
+      const dy = y - cellSumY[c] / cellCount[c];
+      const d2 = dx * dx + dy * dy;
+      if (!inside && size * size < THETA * THETA * d2) {
+        const distSq = Math.max(d2, MIN_DIST_SQ);
+        const dist = Math.sqrt(distSq);
+        const f = (REPULSION_STRENGTH * cellCount[c]) / distSq;
+        force.x += (dx / dist) * f;
+        force.y += (dy / dist) * f;
+      } else {
+        for (let q = 0; q < 4; q++) stack.push(cellChild[c * 4 + q]);
+      }
+    }
+  };
+
+  const step = () => {
+    if (asleep || order.length === 0) return false;
+    buildTree();
+
+    const force = { x: 0, y: 0 };
+    order.forEach((body, i) => {
+      if (body.isHidden || cellTotal === 0) return;
+      force.x = 0; force.y = 0;
+      repulsion(i, force);
+      body.vx += force.x;
+      body.vy += force.y;
+    });
+
+    springs.forEach(({ from, to, isCross }) => {
+      const a = order[from];
+      const b = order[to];
+      if (a.isHidden || b.isHidden) return;
+      const dx = b.position.x - a.position.x;
+      const dy = b.position.y - a.position.y;
+      const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+      // Cross-links pull gently and from further away so they do not fold branches into each other
+      const idealDist = Math.abs(options.spacingY) * (isCross ? 2 : 1);
+      const f = (dist - idealDist) * (isCross ? CROSS_LINK_STRENGTH : ATTRACTION_STRENGTH);
+      const fx = (dx / dist) * f;
+      const fy = (dy / dist) * f;
+      b.vx -= fx; b.vy -= fy;
+      a.vx += fx; a.vy += fy;
+    });
+
+    let energy = 0;
+    let movable = 0;
+    let moved = false;
+    order.forEach(body => {
+      if (body.parent !== -1) {
+        body.vy += (order[body.parent].position.y + options.spacingY - body.position.y) * HIERARCHY_STRENGTH;
+      }
+      body.vx += (options.center.x - body.position.x) * GLOBAL_CENTERING_STRENGTH;
+      body.vy += (options.center.y - body.position.y) * GLOBAL_CENTERING_STRENGTH;
+      if (body.isAnchored) {
+        body.vx = 0; body.vy = 0;
+        return;
+      }
+      let { vx, vy } = body;
+      const speed = Math.sqrt(vx * vx + vy * vy);
+      if (speed > MAX_VELOCITY) { vx = (vx / speed) * MAX_VELOCITY; vy = (vy / speed) * MAX_VELOCITY; }
+      if (Math.abs(vx) + Math.abs(vy) >= POSITION_EPSILON) {
+        body.position = { x: body.position.x + vx, y: body.position.y + vy };
+        owned.add(body.position);
+        moved = true;
+      }
+      body.vx = vx * DAMPING; body.vy = vy * DAMPING;
+      energy += vx * vx + vy * vy;
+      movable++;
+    });
+
+    calmFrames = movable === 0 || energy / movable < SLEEP_ENERGY ? calmFrames + 1 : 0;
+    if (calmFrames >= SLEEP_FRAMES) asleep = true;
+    return moved;
+  };
+
+  const writePositions: PhysicsEngine["writePositions"] = nodes => {
+    let changed = false;
+    const next = nodes.map(n => {
+      const body = bodies.get(n.id);
+      if (!body || n.position === body.position) return n;
+      // A position the engine did not produce is an outside change that sync has yet to see
+      if (!owned.has(n.position)) return n;
+      changed = true;
+      return { ...n, position: body.position };
+    });
+    return changed ? next : nodes;
+  };
+
+  const moveBody: PhysicsEngine["moveBody"] = (id, position) => {
+    const body = bodies.get(id);
+    if (!body) return;
+    body.position = position;
+    owned.add(position);
+    body.vx = 0;
+    body.vy = 0;
+    wake();
+  };
+
+  return {
+    sync,
+    step,
+    writePositions,
+    moveBody,
+    configure: changes => {
+      options = { ...options, ...changes };
+      wake();
+    },
+    isAsleep: () => asleep,
+    wake,
+    reset: () => {
+      bodies = new Map();
+      order = [];
+      springs = [];
+      lastNodes = null;
+      lastEdges = null;
+      lastAnchors = null;
+      owned = new WeakSet();
+      wake();
+    }
+  };
+};
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRequestScheduler, isRetryableError } from "./requestScheduler";
+
+const UNLIMITED = { maxConcurrent: 4, requestsPerMinute: 0 };
+
+const httpError = (status: number) => Object.assign(new Error(`Model server responded with ${status}`), { status });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("isRetryableError", () => {
+  it("retries rate limits and server errors by status", () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError({ code: 500 })).toBe(true);
+    expect(isRetryableError(new Error('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}}'))).toBe(true);
+  });
+
+  it("does not retry client errors, aborts or numbers in the message", () => {
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(new DOMException("The operation was aborted.", "AbortError"))).toBe(false);
+    expect(isRetryableError(new Error("The prompt exceeds 500 tokens"))).toBe(false);
+    expect(isRetryableError("503")).toBe(false);
+    expect(isRetryableError(null)).toBe(false);
+  });
+});
+
+describe("run", () => {
+  it("retries a rate-limited request with backoff until it succeeds", async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(httpError(429))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce("answer");
+    const result = createRequestScheduler(UNLIMITED).run(task);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe("answer");
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after MAX_RETRIES retries", async () => {
+    const task = vi.fn().mockRejectedValue(httpError(503));
+    const result = createRequestScheduler(UNLIMITED).run(task);
+    const settled = expect(result).rejects.toMatchObject({ status: 503 });
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(5);
+  });
+
+  it("does not retry other errors", async () => {
+    const task = vi.fn().mockRejectedValue(new Error("The prompt exceeds 500 tokens"));
+    await expect(createRequestScheduler(UNLIMITED).run(task)).rejects.toThrow("exceeds 500 tokens");
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops retrying once aborted during the backoff", async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(httpError(429));
+    const result = createRequestScheduler(UNLIMITED).run(task, controller.signal);
+    const settled = expect(result).rejects.toMatchObject({ name: "AbortError" });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops an aborted request from the queue without running it", async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 1, requestsPerMinute: 0 });
+    let finishFirst = () => {};
+    const first = scheduler.run(() => new Promise<void>(resolve => { finishFirst = resolve; }));
+    const controller = new AbortController();
+    const queued = vi.fn().mockResolvedValue("late");
+    const second = scheduler.run(queued, controller.signal);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getStats()).toMatchObject({ queued: 1, inFlight: 1 });
+
+    controller.abort();
+    await expect(second).rejects.toMatchObject({ name: "AbortError" });
+    expect(scheduler.getStats().queued).toBe(0);
+    finishFirst();
+    await first;
+    expect(queued).not.toHaveBeenCalled();
+  });
+
+  it("holds starts beyond requestsPerMinute until the window moves on", async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 4, requestsPerMinute: 2 });
+    const task = vi.fn().mockResolvedValue("ok");
+    const results = [scheduler.run(task), scheduler.run(task), scheduler.run(task)];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStats().queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(59000);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(3);
+    await Promise.all(results);
+  });
+
+  it("removes its abort listeners once the request has started", async () => {
+    const controller = new AbortController();
+    const removed = vi.spyOn(controller.signal, "removeEventListener");
+    const scheduler = createRequestScheduler(UNLIMITED);
+    const task = vi.fn().mockRejectedValueOnce(httpError(429)).mockResolvedValue("ok");
+    const result = scheduler.run(task, controller.signal);
+    await vi.runAllTimersAsync();
+    await result;
+    // Two queue waits and one backoff
+    expect(removed).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("stream", () => {
+  const collect = async <T>(stream: AsyncGenerator<T>) => {
+    const chunks: T[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+  };
+
+  it("retries a stream that fails before its first chunk", async () => {
+    let attempts = 0;
+    const open = async function* () {
+      attempts++;
+      if (attempts === 1) throw httpError(429);
+      yield "a";
+      yield "b";
+    };
+    const result = collect(createRequestScheduler(UNLIMITED).stream(open));
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toEqual(["a", "b"]);
+    expect(attempts).toBe(2);
+  });
+
+  it("does not retry a stream after its first chunk", async () => {
+    let attempts = 0;
+    const seen: string[] = [];
+    const open = async function* () {
+      attempts++;
+      yield "a";
+      throw httpError(503);
+    };
+    const result = (async () => {
+      for await (const chunk of createRequestScheduler(UNLIMITED).stream(open)) seen.push(chunk);
+    })();
+    const settled = expect(result).rejects.toMatchObject({ status: 503 });
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(seen).toEqual(["a"]);
+    expect(attempts).toBe(1);
+  });
+});
@@ -0,0 +1,190 @@
+export interface SchedulerLimits {
+  /** Requests running at once; a stream holds its slot until it ends */
+  maxConcurrent: number;
+  /** Requests started per rolling minute; 0 means no limit */
+  requestsPerMinute: number;
+}
+
+export interface SchedulerStats {
+  queued: number;
+  inFlight: number;
+  /** Requests waiting out a backoff after a rate-limit or server error */
+  retrying: number;
+}
+
+const RATE_WINDOW_MS = 60000;
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+/**
+ * Rate limits (429) and server errors (5xx) are worth retrying; anything else, including an
+ * abort, is passed straight back. Only the error's status counts, or Gemini's status names where
+ * an error carries them in its message alone, never numbers that happen to be in the text.
+ */
+export const isRetryableError = (error: unknown) => {
+  if (typeof error !== "object" || error === null) return false;
+  const { name, status, code, message } = error as Record<string, unknown>;
+  if (name === "AbortError") return false;
+  const httpStatus = Number(status ?? code);
+  if (httpStatus === 429 || (httpStatus >= 500 && httpStatus < 600)) return true;
+  return typeof message === "string" && /\b(RESOURCE_EXHAUSTED|UNAVAILABLE)\b/.test(message);
+};
+
+/**
+ * Exponential backoff with jitter, so parallel retries do not hit the server in step
+ */
+const backoffDelay = (attempt: number) =>
+  Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  // Signals can outlive many requests (an auto-explore job's), so drop the listener once done
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+/**
+ * Queues model requests behind a concurrency limit and a per-minute rate limit, retrying
+ * rate-limit and server errors with exponential backoff. Requests start in the order they
+ * were made; an aborted request leaves the queue at once.
+ */
+export interface RequestScheduler {
+  run: <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  /** Streams are only retried when they fail before their first chunk */
+  stream: <T>(open: () => AsyncGenerator<T>, signal?: AbortSignal) => AsyncGenerator<T>;
+  configure: (limits: SchedulerLimits) => void;
+  getStats: () => SchedulerStats;
+  /** Calls `listener` whenever the counts change; returns the unsubscribe function */
+  subscribe: (listener: (stats: SchedulerStats) => void) => () => void;
+}
+
+export const createRequestScheduler = (initial: SchedulerLimits): RequestScheduler => {
+  let limits = initial;
+  const waiting: { start: () => void }[] = [];
+  const startedAt: number[] = [];
+  const listeners = new Set<(stats: SchedulerStats) => void>();
+  let inFlight = 0;
+  let retrying = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const getStats = (): SchedulerStats => ({ queued: waiting.length, inFlight, retrying });
+  const notify = () => {
+    const stats = getStats();
+    listeners.forEach(listener => listener(stats));
+  };
+
+  const drain = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    while (waiting.length > 0 && inFlight < Math.max(1, limits.maxConcurrent)) {
+      const now = Date.now();
+      while (startedAt.length > 0 && startedAt[0] <= now - RATE_WINDOW_MS) startedAt.shift();
+      if (limits.requestsPerMinute > 0 && startedAt.length >= limits.requestsPerMinute) {
+        timer = setTimeout(drain, startedAt[0] + RATE_WINDOW_MS - now);
+        break;
+      }
+      startedAt.push(now);
+      inFlight++;
+      waiting.shift()!.start();
+    }
+    notify();
+  };
+
+  /**
+   * Resolves once the request may start; the caller must `release` afterwards
+   */
+  const acquire = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      const index = waiting.indexOf(entry);
+      if (index === -1) return;
+      waiting.splice(index, 1);
+      reject(abortError());
+      notify();
+    };
+    const entry = {
+      start: () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }
+    };
+    waiting.push(entry);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    drain();
+  });
+
+  const release = () => {
+    inFlight--;
+    drain();
+  };
+
+  const backoff = async (attempt: number, signal?: AbortSignal) => {
+    retrying++;
+    notify();
+    try {
+      await wait(backoffDelay(attempt), signal);
+    } finally {
+      retrying--;
+      notify();
+    }
+  };
+
+  return {
+    run: async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+      for (let attempt = 0; ; attempt++) {
+        await acquire(signal);
+        try {
+          return await task();
+        } catch (error) {
+          if (attempt >= MAX_RETRIES || signal?.aborted || !isRetryableError(error)) throw error;
+          console.warn(`Model request failed, retrying (${attempt + 1}/${MAX_RETRIES}):`, error);
+        } finally {
+          release();
+        }
+        await backoff(attempt, signal);
+      }
+    },
+
+    stream: async function* <T>(open: () => AsyncGenerator<T>, signal?: AbortSignal): AsyncGenerator<T> {
+      for (let attempt = 0; ; attempt++) {
+        await acquire(signal);
+        let hasStarted = false;
+        try {
+          for await (const chunk of open()) {
+            hasStarted = true;
+            yield chunk;
+          }
+          return;
+        } catch (error) {
+          if (hasStarted || attempt >= MAX_RETRIES || signal?.aborted || !isRetryableError(error)) throw error;
+          console.warn(`Model stream failed, retrying (${attempt + 1}/${MAX_RETRIES}):`, error);
+        } finally {
+          release();
+        }
+        await backoff(attempt, signal);
+      }
+    },
+
+    configure: (next) => {
+      limits = next;
+      drain();
+    },
+
+    getStats,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
@@ -0,0 +1,190 @@
+import { NodeStatus, ThoughtNode } from "../types";
+import { levenshtein } from "./topicParser";
+import { collectTags } from "./annotationService";
+
+export type SearchField = "label" | "description" | "source" | "notes" | "tag";
+
+/** Which nodes to include by where they stand on the canvas */
+export type SearchStateFilter = "any" | "shown" | "folded" | "hidden";
+
+export interface SearchFilters {
+  level: number | null;
+  /** Only this node and its descendants */
+  subtreeId: string | null;
+  state: SearchStateFilter;
+  /** Only nodes citing a source on this host */
+  domain: string | null;
+  tag: string | null;
+  status: NodeStatus | null;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = { level: null, subtreeId: null, state: "any", domain: null, tag: null, status: null };
+
+export interface SearchIndex {
+  nodes: ThoughtNode[];
+  /** Normalised word -> node id -> fields the word occurs in */
+  postings: Map<string, Map<string, Set<SearchField>>>;
+  /** Source hosts cited anywhere in the map, sorted */
+  domains: string[];
+  /** Tags used anywhere in the map, sorted */
+  tags: string[];
+  nodeDomains: Map<string, Set<string>>;
+  /** Node ids under a collapsed ancestor */
+  folded: Set<string>;
+}
+
+export interface SearchHit {
+  node: ThoughtNode;
+  score: number;
+  /** Indexed words the query matched, for highlighting */
+  words: Set<string>;
+  fields: Set<SearchField>;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { label: 3, tag: 2, source: 1.5, description: 1, notes: 1 };
+const WORD = /[\p{L}\p{N}]+/gu;
+
+const normalizeWord = (word: string) =>
+  word.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+
+/**
+ * Words of a text with their offsets in the original string, so matches can be highlighted in place
+ */
+const tokenize = (text: string) =>
+  Array.from(text.matchAll(WORD), m => ({ word: normalizeWord(m[0]), start: m.index!, end: m.index! + m[0].length }));
+
+export const getSourceDomain = (uri: string): string | null => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Inverted index over labels, descriptions, source titles/URIs and the user's notes and tags. Build it when text or
+ * structure changes, not on every physics frame.
+ */
+export const buildSearchIndex = (nodes: ThoughtNode[]): SearchIndex => {
+  const postings = new Map<string, Map<string, Set<SearchField>>>();
+  const nodeDomains = new Map<string, Set<string>>();
+  const add = (text: string, nodeId: string, field: SearchField) => {
+    tokenize(text).forEach(({ word }) => {
+      const byNode = postings.get(word) || new Map<string, Set<SearchField>>();
+      byNode.set(nodeId, (byNode.get(nodeId) || new Set<SearchField>()).add(field));
+      postings.set(word, byNode);
+    });
+  };
+
+  nodes.forEach(n => {
+    add(n.label, n.id, "label");
+    add(n.description, n.id, "description");
+    if (n.notes) add(n.notes, n.id, "notes");
+    n.tags?.forEach(tag => add(tag, n.id, "tag"));
+    const domains = new Set<string>();
+    n.sources?.forEach(s => {
+      add(`${s.title} ${s.uri}`, n.id, "source");
+      const domain = getSourceDomain(s.uri);
+      if (domain) domains.add(domain);
+    });
+    nodeDomains.set(n.id, domains);
+  });
+
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const folded = new Set<string>();
+  const isFolded = (parentId: string | null): boolean => {
+    const parent = parentId ? byId.get(parentId) : undefined;
+    return !!parent && (!!parent.isCollapsed || folded.has(parent.id) || isFolded(parent.parentId));
+  };
+  nodes.forEach(n => { if (isFolded(n.parentId)) folded.add(n.id); });
+
+  const domains = Array.from(new Set(Array.from(nodeDomains.values(), d => Array.from(d)).flat())).sort();
+  return { nodes, postings, domains, tags: collectTags(nodes), nodeDomains, folded };
+};
+
+/**
+ * How well an indexed word matches a query term: exact, prefix, infix, then a typo or two
+ * depending on length; 0 when it does not match
+ */
+const matchQuality = (word: string, term: string) => {
+  if (word === term) return 1;
+  if (word.startsWith(term)) return 0.8;
+  if (term.length >= 3 && word.includes(term)) return 0.6;
+  const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  if (maxEdits === 0 || Math.abs(word.length - term.length) > maxEdits) return 0;
+  return levenshtein(word, term) <= maxEdits ? 0.5 : 0;
+};
+
+const isDescendant = (node: ThoughtNode, ancestorId: string, byId: Map<string, ThoughtNode>) => {
+  for (let current: ThoughtNode | undefined = node; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+    if (current.id === ancestorId) return true;
+  }
+  return false;
+};
+
+export const hasActiveFilters = (filters: SearchFilters) =>
+  filters.level !== null || filters.subtreeId !== null || filters.state !== "any" || filters.domain !== null ||
+  filters.tag !== null || filters.status !== null;
+
+/**
+ * Nodes matching every word of the query and all filters, best first. With an empty query the
+ * filters alone select nodes, in map order.
+ */
+export const searchNodes = (index: SearchIndex, query: string, filters: SearchFilters): SearchHit[] => {
+  const terms = tokenize(query).map(t => t.word);
+  if (terms.length === 0 && !hasActiveFilters(filters)) return [];
+
+  const byId = new Map(index.nodes.map(n => [n.id, n]));
+  const passes = (node: ThoughtNode) => {
+    if (filters.level !== null && node.level !== filters.level) return false;
+    if (filters.subtreeId !== null && !isDescendant(node, filters.subtreeId, byId)) return false;
+    if (filters.domain !== null && !index.nodeDomains.get(node.id)?.has(filters.domain)) return false;
+    if (filters.tag !== null && !node.tags?.some(t => t.toLowerCase() === filters.tag!.toLowerCase())) return false;
+    if (filters.status !== null && node.status !== filters.status) return false;
+    if (filters.state === "folded") return index.folded.has(node.id);
+    if (filters.state === "hidden") return !!node.isHidden;
+    if (filters.state === "shown") return !node.isHidden && !index.folded.has(node.id);
+    return true;
+  };
+
+  if (terms.length === 0) {
+    return index.nodes.filter(passes).map(node => ({ node, score: 0, words: new Set<string>(), fields: new Set<SearchField>() }));
+  }
+
+  // Per term, the best score each node reaches and the words that got it there
+  const perTerm = terms.map(term => {
+    const scores = new Map<string, { score: number; words: string[]; fields: SearchField[] }>();
+    index.postings.forEach((byNode, word) => {
+      const quality = matchQuality(word, term);
+      if (quality === 0) return;
+      byNode.forEach((fields, nodeId) => {
+        const score = quality * Math.max(...Array.from(fields, f => FIELD_WEIGHTS[f]));
+        const entry = scores.get(nodeId) || { score: 0, words: [], fields: [] };
+        entry.score = Math.max(entry.score, score);
+        entry.words.push(word);
+        entry.fields.push(...fields);
+        scores.set(nodeId, entry);
+      });
+    });
+    return scores;
+  });
+
+  const hits: SearchHit[] = [];
+  index.nodes.forEach(node => {
+    const entries = perTerm.map(scores => scores.get(node.id));
+    if (entries.some(e => !e) || !passes(node)) return;
+    hits.push({
+      node,
+      score: entries.reduce((acc, e) => acc + e!.score, 0),
+      words: new Set(entries.flatMap(e => e!.words)),
+      fields: new Set(entries.flatMap(e => e!.fields))
+    });
+  });
+  return hits.sort((a, b) => b.score - a.score || a.node.level - b.node.level);
+};
+
+/**
+ * Character ranges (end exclusive) of the words in `text` that a hit matched
+ */
+export const highlightRanges = (text: string, words: Set<string>): [number, number][] =>
+  tokenize(text).filter(t => words.has(t.word)).map(t => [t.start, t.end]);
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { SavedMap, ThoughtNode } from "../types";
+import { DEFAULT_GENERATION_SETTINGS } from "./generationSettingsService";
+import { stampEdit } from "./storageService";
+
+const node = (id: string, parentId: string | null, x = 0): ThoughtNode => ({
+  id, label: id, description: "", parentId, level: parentId ? 1 : 0, position: { x, y: 0 }, isExpanded: !parentId, isLoading: false, path: [id]
+});
+
+const MAP: SavedMap = {
+  id: "map-1",
+  title: "Memory",
+  nodes: [node("root", null), node("a", "root", 100)],
+  edges: [{ id: "edge-root-a", from: "root", to: "a" }],
+  view: { zoom: 1, scrollX: 0, scrollY: 0, activeLevel: 0 },
+  createdAt: 1000,
+  updatedAt: 2000
+};
+
+describe("stampEdit", () => {
+  const opened = stampEdit(MAP, null, MAP.updatedAt).stamp;
+
+  it("keeps the last edit time when only the view and positions changed", () => {
+    const moved = { ...MAP, nodes: MAP.nodes.map(n => ({ ...n, position: { x: n.position.x + 7, y: 3 } })), view: { ...MAP.view, zoom: 2 } };
+    expect(stampEdit(moved, opened, 9000).map.updatedAt).toBe(2000);
+  });
+
+  it("ignores transient loading and pop-in flags", () => {
+    const loading = { ...MAP, nodes: MAP.nodes.map(n => ({ ...n, isLoading: true, isNew: true })) };
+    expect(stampEdit(loading, opened, 9000).map.updatedAt).toBe(2000);
+  });
+
+  it("bumps the time when the graph changes and keeps it on the next unchanged save", () => {
+    const branched = { ...MAP, nodes: [...MAP.nodes, node("b", "root")], edges: [...MAP.edges, { id: "edge-root-b", from: "root", to: "b" }] };
+    const edited = stampEdit(branched, opened, 9000);
+    expect(edited.map.updatedAt).toBe(9000);
+    expect(stampEdit({ ...branched, view: { ...MAP.view, zoom: 3 } }, edited.stamp, 12000).map.updatedAt).toBe(9000);
+  });
+
+  it("bumps the time for edited nodes and renames", () => {
+    const edited = { ...MAP, nodes: MAP.nodes.map(n => (n.id === "a" ? { ...n, description: "Recall after sleep" } : n)) };
+    expect(stampEdit(edited, opened, 9000).map.updatedAt).toBe(9000);
+    expect(stampEdit({ ...MAP, title: "Memory & sleep" }, opened, 9000).map.updatedAt).toBe(9000);
+  });
+
+  it("bumps the time when the map's generation settings change", () => {
+    expect(stampEdit({ ...MAP, settings: DEFAULT_GENERATION_SETTINGS }, opened, 9000).map.updatedAt).toBe(9000);
+  });
+
+  it("stamps another map as new", () => {
+    expect(stampEdit({ ...MAP, id: "map-2" }, opened, 9000).map.updatedAt).toBe(9000);
+  });
+});
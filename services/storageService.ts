@@ -0,0 +1,187 @@
+import { GroundingSource, SavedMap, SavedMapSummary, ThoughtNode } from "../types";
+import { GroundingSupport } from "./llmProvider";
+
+const DB_NAME = "thought-explorer";
+const DB_VERSION = 2;
+const MAPS_STORE = "maps";
+const RESPONSES_STORE = "responses";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the IndexedDB database holding saved maps and cached model responses.
+ * The connection closes itself when another tab upgrades the database, and the next call reopens it;
+ * an upgrade held up by an older tab fails instead of waiting for that tab to close.
+ */
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    let isBlocked = false;
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MAPS_STORE)) {
+        const store = db.createObjectStore(MAPS_STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      }
+      if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+        const store = db.createObjectStore(RESPONSES_STORE, { keyPath: "key" });
+        store.createIndex("createdAt", "createdAt");
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // The caller was already told the upgrade is blocked and will open the database again
+      if (isBlocked) {
+        db.close();
+        return;
+      }
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onblocked = () => {
+      isBlocked = true;
+      dbPromise = null;
+      reject(new Error("Saved maps are unavailable while Thought Explorer is open in another tab with an older version. Close the other tabs and try again."));
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = MAPS_STORE
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = operation(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Strips transient UI flags so a reopened map never shows stale spinners or pop-in animations
+ */
+const sanitizeNodes = (nodes: ThoughtNode[]): ThoughtNode[] =>
+  nodes.map(n => ({ ...n, isLoading: false, isNew: false }));
+
+/**
+ * When a map was last edited, and what it looked like then
+ */
+export interface EditStamp {
+  mapId: string;
+  key: string;
+  updatedAt: number;
+}
+
+/**
+ * The parts of a map that count as an edit: its graph and settings, but not where the nodes
+ * sit, how the map is viewed or what it has cost
+ */
+const editKey = ({ title, nodes, edges, settings }: SavedMap) =>
+  JSON.stringify([title, sanitizeNodes(nodes).map(({ position, ...node }) => node), edges, settings ?? null]);
+
+/**
+ * Sets `updatedAt` for a save: the current time when the map changed since `last`, otherwise the
+ * time of that earlier edit, so opening, panning or letting the physics settle a map does not
+ * make it look recently edited
+ */
+export const stampEdit = (map: SavedMap, last: EditStamp | null, now = Date.now()): { map: SavedMap; stamp: EditStamp } => {
+  const key = editKey(map);
+  const updatedAt = last && last.mapId === map.id && last.key === key ? last.updatedAt : now;
+  return { map: { ...map, updatedAt }, stamp: { mapId: map.id, key, updatedAt } };
+};
+
+export const createMapId = () => `map-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveMap = async (map: SavedMap): Promise<void> => {
+  await runRequest("readwrite", store => store.put({ ...map, nodes: sanitizeNodes(map.nodes) }));
+};
+
+export const loadMap = async (id: string): Promise<SavedMap | null> => {
+  const map = await runRequest<SavedMap | undefined>("readonly", store => store.get(id));
+  return map ? { ...map, nodes: sanitizeNodes(map.nodes) } : null;
+};
+
+export const listMaps = async (): Promise<SavedMapSummary[]> => {
+  const maps = await runRequest<SavedMap[]>("readonly", store => store.getAll());
+  return maps
+    .map(map => ({
+      id: map.id,
+      title: map.title,
+      rootLabel: map.nodes.find(n => n.parentId === null)?.label || map.title,
+      nodeCount: map.nodes.length,
+      updatedAt: map.updatedAt
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteMap = async (id: string): Promise<void> => {
+  await runRequest("readwrite", store => store.delete(id));
+};
+
+export const renameMap = async (id: string, title: string): Promise<void> => {
+  const map = await loadMap(id);
+  if (!map) throw new Error("Map not found.");
+  await saveMap({ ...map, title, updatedAt: Date.now() });
+};
+
+export const duplicateMap = async (id: string): Promise<SavedMap> => {
+  const map = await loadMap(id);
+  if (!map) throw new Error("Map not found.");
+  const now = Date.now();
+  const copy: SavedMap = { ...map, id: createMapId(), title: `${map.title} (copy)`, createdAt: now, updatedAt: now };
+  await saveMap(copy);
+  return copy;
+};
+
+/**
+ * A model answer stored under a hash of everything that shaped it
+ */
+export interface CachedResponse {
+  key: string;
+  text: string;
+  sources: GroundingSource[];
+  supports?: GroundingSupport[];
+  createdAt: number;
+}
+
+export const loadCachedResponse = (key: string) =>
+  runRequest<CachedResponse | undefined>("readonly", store => store.get(key), RESPONSES_STORE);
+
+export const saveCachedResponse = async (entry: CachedResponse): Promise<void> => {
+  await runRequest("readwrite", store => store.put(entry), RESPONSES_STORE);
+};
+
+export const countCachedResponses = () => runRequest<number>("readonly", store => store.count(), RESPONSES_STORE);
+
+export const clearCachedResponses = async (): Promise<void> => {
+  await runRequest("readwrite", store => store.clear(), RESPONSES_STORE);
+};
+
+/**
+ * Drops responses cached before `cutoff`
+ */
+export const pruneCachedResponses = async (cutoff: number): Promise<void> => {
+  await runRequest("readwrite", store => {
+    const cursorRequest = store.index("createdAt").openCursor(IDBKeyRange.upperBound(cutoff, true));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+    return cursorRequest;
+  }, RESPONSES_STORE);
+};
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { GenerateRequest, LLMProvider } from "./llmProvider";
+
+// The offline provider is swapped for one that replays scripted answers, split into stream chunks
+const script = vi.hoisted(() => {
+  process.env.LLM_PROVIDER = "mock";
+  return { streamed: [] as string[][], repaired: [] as string[], requests: [] as GenerateRequest[], yielded: 0, cache: new Map<string, unknown>() };
+});
+
+vi.mock("./mockService", () => ({
+  createMockProvider: (): LLMProvider => ({
+    id: "mock",
+    label: "Scripted",
+    generate: async request => {
+      script.requests.push(request);
+      return { text: script.repaired.shift() ?? "", sources: [] };
+    },
+    generateStream: async function* (request) {
+      script.requests.push(request);
+      for (const text of script.streamed.shift() ?? []) {
+        script.yielded++;
+        yield { text };
+      }
+    }
+  })
+}));
+
+vi.mock("./storageService", () => ({
+  loadCachedResponse: async (key: string) => script.cache.get(key) ?? null,
+  saveCachedResponse: async (entry: { key: string }) => { script.cache.set(entry.key, entry); },
+  pruneCachedResponses: async () => {}
+}));
+
+const { streamRelatedTopics } = await import("./thoughtService");
+
+/**
+ * Runs a branch and records, per emitted topic, how much of the answer had streamed in by then
+ */
+const branch = async (chunks: string[], excludeTopics: string[] = [], count = 3, skipCache = false) => {
+  script.streamed.push(chunks);
+  const seen: { topic: string; description: string; afterChunk: number }[] = [];
+  const result = await streamRelatedTopics("Neuroscience", count, [], excludeTopics, false, {
+    onTopic: (topic, index) => {
+      expect(index).toBe(seen.length);
+      seen.push({ ...topic, afterChunk: script.yielded });
+    },
+    skipCache
+  });
+  return { result, seen };
+};
+
+beforeEach(() => {
+  script.streamed = [];
+  script.repaired = [];
+  script.requests = [];
+  script.yielded = 0;
+  script.cache.clear();
+});
+
+describe("streamRelatedTopics", () => {
+  it("emits each topic once the next one starts or its description line ends", async () => {
+    const { result, seen } = await branch([
+      "## TOPIC: Synaptic Pruning\n## DESC: The brain removes",
+      " unused connections.\n",
+      "## TOPIC: Neurogenesis\n## DESC: New neurons form in adults.",
+      "\n## TOPIC: Glia\n## DESC: Support cells of the nervous system."
+    ]);
+    expect(seen.map(s => [s.topic, s.afterChunk])).toEqual([["Synaptic Pruning", 2], ["Neurogenesis", 4], ["Glia", 4]]);
+    expect(seen[0].description).toBe("The brain removes unused connections.");
+    expect(result.topics.map(t => t.topic)).toEqual(["Synaptic Pruning", "Neurogenesis", "Glia"]);
+    expect(script.requests).toHaveLength(1);
+  });
+
+  it("parses a drifting answer split mid-line", async () => {
+    const { result } = await branch([
+      "Here are three topics:\n\n1. **Synap",
+      "tic Pruning** — The brain removes unused connections.\n2. **Neuro",
+      "genesis**: New neurons form in adults.\n3. Glia - Support cells.\n\nWant more?"
+    ]);
+    expect(result.topics).toEqual([
+      { topic: "Synaptic Pruning", description: "The brain removes unused connections." },
+      { topic: "Neurogenesis", description: "New neurons form in adults." },
+      { topic: "Glia", description: "Support cells." }
+    ]);
+  });
+
+  it("drops excluded topics and near repeats, and stops at the requested count", async () => {
+    const { result } = await branch([
+      "## TOPIC: The Synaptic Pruning\n## DESC: Already on the map.\n",
+      "## TOPIC: Neurogenesis\n## DESC: New neurons form in adults.\n",
+      "## TOPIC: Neuro-genesis\n## DESC: The same topic again.\n",
+      "## TOPIC: Glia\n## DESC: Support cells.\n## TOPIC: Myelin\n## DESC: Insulates axons.\n"
+    ], ["Synaptic Pruning"], 2);
+    expect(result.topics.map(t => t.topic)).toEqual(["Neurogenesis", "Glia"]);
+  });
+
+  it("repairs an unreadable answer with the fast model", async () => {
+    script.repaired.push("## TOPIC: Synaptic Pruning\n## DESC: The brain removes unused connections.\n## TOPIC: Glia\n## DESC: Support cells.");
+    const { result, seen } = await branch(["I'm sorry, but I can only describe neuroscience in general terms."]);
+    expect(seen.map(s => s.topic)).toEqual(["Synaptic Pruning", "Glia"]);
+    expect(result.topics).toHaveLength(2);
+    expect(script.requests.map(r => r.tier)).toEqual(["reasoning", "fast"]);
+    expect(script.requests[1].prompt).toContain("I'm sorry, but I can only describe neuroscience");
+  });
+
+  it("drops excluded topics from the repaired answer", async () => {
+    script.repaired.push("## TOPIC: Synaptic Pruning\n## DESC: Already on the map.\n## TOPIC: Glia\n## DESC: Support cells.");
+    const { result } = await branch([""], ["Synaptic Pruning"]);
+    expect(result.topics.map(t => t.topic)).toEqual(["Glia"]);
+  });
+
+  it("throws when the repaired answer is unreadable too", async () => {
+    script.repaired.push("Still nothing useful.");
+    await expect(branch(["No topics here."])).rejects.toThrow("Failed to parse search results into topics.");
+  });
+
+  it("replays a cached branch whatever the excluded topics, unless told to skip the cache", async () => {
+    const answer = ["## TOPIC: Synaptic Pruning\n## DESC: The brain removes unused connections.\n## TOPIC: Glia\n## DESC: Support cells.\n"];
+    const first = await branch(answer);
+    // Let the fire-and-forget cache write land
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const replayed = await branch(answer, ["Memory"]);
+    expect(script.requests).toHaveLength(1);
+    expect(replayed.result.topics).toEqual(first.result.topics);
+    // The replay left its scripted answer unread
+    script.streamed = [];
+
+    await branch(["## TOPIC: Myelin\n## DESC: Insulates axons.\n"], ["Synaptic Pruning", "Glia"], 3, true);
+    expect(script.requests).toHaveLength(2);
+  });
+
+  it("caches the repaired answer instead of the unreadable one", async () => {
+    const repairedAnswer = "## TOPIC: Synaptic Pruning\n## DESC: The brain removes unused connections.\n## TOPIC: Glia\n## DESC: Support cells.";
+    script.repaired.push(repairedAnswer);
+    const first = await branch(["I'm sorry, but I can only describe neuroscience in general terms."]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect([...script.cache.values()]).toEqual([expect.objectContaining({ text: repairedAnswer })]);
+
+    const replayed = await branch([]);
+    expect(script.requests).toHaveLength(2);
+    expect(replayed.result.topics.map(t => t.topic)).toEqual(first.result.topics.map(t => t.topic));
+  });
+});
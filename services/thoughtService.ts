@@ -0,0 +1,572 @@
+import { BranchingResponse, BranchMode, Citation, DeepDive, GenerationSettings, GroundingSource, TokenUsage, UsageRecord } from "../types";
+import { GenerateRequest, GenerateResult, GroundingSupport, LLMProvider, loadProviderSettings, ProviderSettings, saveProviderSettings, StreamChunk } from "./llmProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openAICompatibleService";
+import { createMockProvider } from "./mockService";
+import { dedupeTopics, parseSections, parseSynthesis, SynthesisAnswer } from "./topicParser";
+import { attributeGrounding, mapCitations } from "./groundingService";
+import { branchFormatLines, getBranchModeInfo, parseModeTopics } from "./branchModeService";
+import { loadGenerationDefaults } from "./generationSettingsService";
+import { createRequestScheduler } from "./requestScheduler";
+import { loadCachedResponse, pruneCachedResponses, saveCachedResponse } from "./storageService";
+
+const createProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.providerId) {
+    case "openai-compatible": return createOpenAICompatibleProvider(settings);
+    case "mock": return createMockProvider();
+    default: return createGeminiProvider(settings);
+  }
+};
+
+let providerSettings = loadProviderSettings();
+let activeProvider = createProvider(providerSettings);
+const scheduler = createRequestScheduler(providerSettings);
+
+export const getProviderSettings = () => providerSettings;
+
+export const getActiveProvider = () => activeProvider;
+
+export const configureProvider = (settings: ProviderSettings) => {
+  providerSettings = settings;
+  activeProvider = createProvider(settings);
+  scheduler.configure(settings);
+  saveProviderSettings(settings);
+};
+
+export const getRequestStats = scheduler.getStats;
+
+/** Follows queued, running and retrying model requests; returns the unsubscribe function */
+export const subscribeToRequests = scheduler.subscribe;
+
+let generationSettings = loadGenerationDefaults();
+
+export const getGenerationSettings = () => generationSettings;
+
+/**
+ * Settings of the open map; every request below is built with them
+ */
+export const configureGeneration = (settings: GenerationSettings) => {
+  generationSettings = settings;
+};
+
+/**
+ * Applies the map's model, temperature, search and language choices to a request
+ */
+const withSettings = (request: GenerateRequest): GenerateRequest => {
+  const { models, temperature, useSearch, language } = generationSettings;
+  return {
+    ...request,
+    model: models[request.operation] || undefined,
+    temperature: temperature ?? undefined,
+    useSearch: request.useSearch && useSearch,
+    prompt: language
+      ? `${request.prompt}\n        Write your answer in ${language}. Keep any "## LABEL:" markers exactly as shown, in English.`
+      : request.prompt
+  };
+};
+
+/**
+ * Receives the token usage of each model response a call made; cached answers report nothing
+ */
+export type UsageListener = (usage: UsageRecord) => void;
+
+/**
+ * Reports one response, priced later by its resolved model. Providers that give no token
+ * counts still report the call.
+ */
+const reportUsage = (request: GenerateRequest, usage: TokenUsage | undefined, onUsage?: UsageListener) => {
+  onUsage?.({
+    operation: request.operation,
+    model: request.model || providerSettings.models[request.tier],
+    calls: 1,
+    promptTokens: usage?.promptTokens || 0,
+    outputTokens: usage?.outputTokens || 0,
+    thinkingTokens: usage?.thinkingTokens || 0,
+    groundingCalls: usage?.groundingCalls || 0
+  });
+};
+
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+pruneCachedResponses(Date.now() - CACHE_TTL_MS).catch(() => {});
+
+/**
+ * What a cacheable request asks about, e.g. the concept and path of a branch. Excluded topics are
+ * left out: they grow with every branch on the map, which would make every request a miss.
+ */
+type CacheScope = (string | number | string[])[];
+
+interface CacheOptions {
+  scope: CacheScope;
+  /** Answers failing this are not stored, so a replay never has to be repaired; by default any non-empty answer */
+  isUsable?: (text: string) => boolean;
+}
+
+/**
+ * Content address of a final request: the provider, resolved model, operation, scope and the
+ * settings that shape the answer. Null where hashing is unavailable (insecure contexts), which
+ * turns the cache off.
+ */
+const cacheKey = async (request: GenerateRequest, scope: CacheScope): Promise<string | null> => {
+  try {
+    const model = request.model || providerSettings.models[request.tier];
+    const identity = JSON.stringify([activeProvider.id, model, request.operation, scope, !!request.useSearch, request.thinkingBudget ?? null, request.temperature ?? null, generationSettings.language || null]);
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(identity));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+  } catch {
+    return null;
+  }
+};
+
+const readCache = async (key: string | null): Promise<GenerateResult | null> => {
+  if (!key) return null;
+  try {
+    const entry = await loadCachedResponse(key);
+    return entry && entry.createdAt > Date.now() - CACHE_TTL_MS ? entry : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (key: string | null, { text, sources, supports }: GenerateResult, isUsable?: (text: string) => boolean) => {
+  // An empty or unreadable answer is a failure the caller repairs, not one worth replaying
+  if (!key || !text.trim() || (isUsable && !isUsable(text))) return;
+  saveCachedResponse({ key, text, sources, supports, createdAt: Date.now() })
+    .catch(e => console.warn("Could not cache the response:", e));
+};
+
+/**
+ * Stores `result` as the answer to `request`, e.g. a repaired answer in place of an unreadable one
+ */
+const cacheAnswer = async (request: GenerateRequest, scope: CacheScope, result: GenerateResult) =>
+  writeCache(await cacheKey(withSettings(request), scope), result);
+
+/**
+ * Every call goes through the scheduler; answers with `cache` options are replayed from IndexedDB
+ * when the same thing was asked before
+ */
+const generate = async (request: GenerateRequest, cache: CacheOptions | null = null, onUsage?: UsageListener): Promise<GenerateResult> => {
+  const final = withSettings(request);
+  const key = cache ? await cacheKey(final, cache.scope) : null;
+  const cached = await readCache(key);
+  if (cached) return cached;
+  const result = await scheduler.run(() => activeProvider.generate(final), final.signal);
+  reportUsage(final, result.usage, onUsage);
+  writeCache(key, result, cache?.isUsable);
+  return result;
+};
+
+/**
+ * Streaming counterpart of `generate`; a cached answer arrives as a single chunk. Usage is
+ * reported once the stream ends, so an abandoned stream reports nothing.
+ */
+async function* generateStream(request: GenerateRequest, cache: CacheOptions | null = null, onUsage?: UsageListener): AsyncGenerator<StreamChunk> {
+  const final = withSettings(request);
+  const key = cache ? await cacheKey(final, cache.scope) : null;
+  const cached = await readCache(key);
+  if (cached) {
+    yield cached;
+    return;
+  }
+  const result: GenerateResult = { text: "", sources: [] };
+  for await (const chunk of scheduler.stream(() => activeProvider.generateStream(final), final.signal)) {
+    result.text += chunk.text;
+    if (chunk.sources) result.sources = chunk.sources;
+    if (chunk.supports) result.supports = chunk.supports;
+    if (chunk.usage) result.usage = chunk.usage;
+    yield chunk;
+  }
+  reportUsage(final, result.usage, onUsage);
+  writeCache(key, result, cache?.isUsable);
+}
+
+/**
+ * How a prompt asks for research: by searching when grounding is on
+ */
+const research = (withSearch: string, without: string) => (generationSettings.useSearch ? withSearch : without);
+
+export const ensureProviderReady = async () => {
+  await activeProvider.ensureReady?.();
+};
+
+export const canEmbed = () => !!activeProvider.embed;
+
+export const embedTexts = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+  if (!activeProvider.embed) throw new Error(`${activeProvider.label} does not offer embeddings.`);
+  const { embed } = activeProvider;
+  return scheduler.run(() => embed(texts, signal), signal);
+};
+
+export const getTopicInfo = async (
+  concept: string,
+  onUsage?: UsageListener
+): Promise<{ description: string, sources: GroundingSource[], citations: Citation[] }> => {
+  const { text, sources, supports = [] } = await generate({
+    operation: "topic-info",
+    tier: "fast",
+    useSearch: true,
+    prompt: `${research("Search for and provide", "Provide")} a one-sentence factual insight for the concept: "${concept}". Return only the description text.`,
+    hints: { concept }
+  }, { scope: [concept] }, onUsage);
+
+  const description = text.trim() || "A fascinating area for exploration.";
+  return {
+    description,
+    sources,
+    citations: mapCitations(description, supports)
+  };
+};
+
+interface BranchRequest {
+  concept: string;
+  count: number;
+  contextPath: string[];
+  excludeTopics: string[];
+  useThinking: boolean;
+  mode: BranchMode;
+}
+
+const buildBranchRequest = ({ concept, count, contextPath, excludeTopics, useThinking, mode }: BranchRequest, signal?: AbortSignal): GenerateRequest => {
+  const contextDescription = contextPath.length > 0
+    ? `The user's current exploration path is: ${contextPath.join(' -> ')} -> ${concept}.`
+    : `The user is starting an exploration on: ${concept}.`;
+
+  const exclusionPrompt = excludeTopics.length > 0
+    ? `Do not suggest any of the following topics: ${excludeTopics.join(', ')}.`
+    : "";
+
+  return {
+    operation: "related-topics",
+    tier: "reasoning",
+    useSearch: true,
+    thinkingBudget: useThinking ? generationSettings.thinkingBudget || undefined : undefined,
+    signal,
+    prompt: `
+        ${contextDescription}
+        ${exclusionPrompt}
+
+        TASK:
+        1. ${research("Use Google Search to find", "Find")} exactly ${count} ${getBranchModeInfo(mode).task.replace("{c}", concept)}.
+        2. For each topic, provide a one-sentence factual insight.
+
+        FORMAT YOUR RESPONSE EXACTLY LIKE THIS FOR EACH TOPIC:
+        ${branchFormatLines(mode).join('\n        ')}
+
+        Ensure suggestions are unique and specific.
+      `,
+    hints: { concept, count, excludeTopics, mode }
+  };
+};
+
+/**
+ * Repair round: have the fast model restate an unreadable answer in the strict format, dropping repeats
+ */
+const repairTopics = async (branch: BranchRequest, text: string, signal?: AbortSignal, onUsage?: UsageListener) => {
+  const { concept, count, excludeTopics, mode } = branch;
+  const repair = await generate({
+    operation: "related-topics",
+    tier: "fast",
+    signal,
+    prompt: `
+        The following answer was supposed to list ${count} topics branching from "${concept}", but it could not be read.
+        ${excludeTopics.length > 0 ? `Do not include any of the following topics: ${excludeTopics.join(', ')}.` : ""}
+        If it contains fewer than ${count} usable topics, add new distinct ones.
+
+        ANSWER:
+        ${text || "(empty)"}
+
+        REWRITE IT EXACTLY LIKE THIS FOR EACH TOPIC, WITH NO OTHER TEXT:
+        ${branchFormatLines(mode).join('\n        ')}
+      `,
+    hints: { concept, count, excludeTopics, mode }
+  }, null, onUsage);
+
+  const topics = dedupeTopics(parseModeTopics(repair.text, mode), excludeTopics, count);
+  if (topics.length === 0) {
+    // Rethrow to let the UI handle the error state instead of generic fallbacks
+    throw new Error("Failed to parse search results into topics.");
+  }
+  return { topics: attributeGrounding(repair.text, topics, repair.sources, repair.supports || []), answer: repair };
+};
+
+export interface BranchStreamHandlers {
+  signal?: AbortSignal;
+  /** Called once per topic, as soon as its TOPIC/DESC pair is complete */
+  onTopic: (topic: BranchingResponse, index: number) => void;
+  /** Called with a topic's own sources and citations once grounding metadata arrives */
+  onGrounding?: (index: number, grounding: { sources?: GroundingSource[]; citations?: Citation[] }) => void;
+  onUsage?: UsageListener;
+  /** Asks the model afresh instead of replaying a cached answer, e.g. when branching a node again */
+  skipCache?: boolean;
+}
+
+/**
+ * Asks for `count` topics branching from `concept` and streams them in. A topic counts as
+ * complete once the next topic starts, or once its description line has been terminated.
+ * An answer with no readable topics goes through one repair round before this throws.
+ */
+export const streamRelatedTopics = async (
+  concept: string,
+  count: number,
+  contextPath: string[],
+  excludeTopics: string[],
+  useThinking: boolean,
+  { signal, onTopic, onGrounding, onUsage, skipCache }: BranchStreamHandlers,
+  mode: BranchMode = "related"
+): Promise<{ topics: BranchingResponse[], sources: GroundingSource[] }> => {
+  const branch = { concept, count, contextPath, excludeTopics, useThinking, mode };
+  const emitted: BranchingResponse[] = [];
+  let sources: GroundingSource[] = [];
+  let supports: GroundingSupport[] = [];
+  let text = "";
+
+  const emitGrounding = () => {
+    if (sources.length === 0) return;
+    attributeGrounding(text, emitted, sources, supports).forEach((topic, i) => {
+      emitted[i] = topic;
+      onGrounding?.(i, { sources: topic.sources, citations: topic.citations });
+    });
+  };
+
+  const emitReady = (isFinal: boolean) => {
+    const parsed = parseModeTopics(text, mode);
+    const last = parsed[parsed.length - 1];
+    const lastIsComplete = isFinal || (!!last?.description && /\n\s*$/.test(text));
+    const complete = lastIsComplete ? parsed : parsed.slice(0, -1);
+    const fresh = dedupeTopics(complete, excludeTopics, count)
+      .filter(t => !emitted.some(e => e.topic === t.topic))
+      .slice(0, count - emitted.length);
+    fresh.forEach(topic => {
+      emitted.push(topic);
+      onTopic(topic, emitted.length - 1);
+    });
+  };
+
+  const request = buildBranchRequest(branch, signal);
+  const cacheScope = [concept, contextPath, mode, count];
+  const cache = skipCache ? null : { scope: cacheScope, isUsable: (answer: string) => parseModeTopics(answer, mode).length > 0 };
+  for await (const chunk of generateStream(request, cache, onUsage)) {
+    text += chunk.text;
+    if (chunk.sources) sources = chunk.sources;
+    if (chunk.supports) supports = chunk.supports;
+    if (emitted.length < count) emitReady(false);
+  }
+  emitReady(true);
+  emitGrounding();
+
+  if (emitted.length === 0) {
+    const repaired = await repairTopics(branch, text, signal, onUsage);
+    repaired.topics.forEach((topic, i) => {
+      emitted.push(topic);
+      onTopic(topic, i);
+      onGrounding?.(i, { sources: topic.sources, citations: topic.citations });
+    });
+    sources = [...sources, ...repaired.answer.sources];
+    // Replays of this branch get the readable answer instead of paying for the repair again
+    if (cache) cacheAnswer(request, cacheScope, repaired.answer);
+  }
+
+  return { topics: emitted, sources };
+};
+
+const MAX_DEEP_DIVE_SUBTOPICS = 40;
+
+export interface DeepDiveHandlers {
+  signal?: AbortSignal;
+  /** Called with the whole answer so far after every chunk */
+  onText?: (text: string) => void;
+  onUsage?: UsageListener;
+}
+
+/**
+ * Streams a multi-section, searched write-up of `concept`. `subtopics` are outline lines of
+ * the branch below it ("- Label: insight", indented by depth); pass none to cover the node alone.
+ */
+export const streamDeepDive = async (
+  concept: string,
+  contextPath: string[],
+  subtopics: string[],
+  { signal, onText, onUsage }: DeepDiveHandlers = {}
+): Promise<DeepDive> => {
+  const offered = subtopics.slice(0, MAX_DEEP_DIVE_SUBTOPICS);
+  const scope = offered.length > 0
+    ? `Cover "${concept}" together with the branch the user has explored beneath it:
+        ${offered.join('\n        ')}
+        Weave these subtopics into the sections rather than giving each its own.`
+    : `Focus on "${concept}" itself.`;
+
+  const request: GenerateRequest = {
+    operation: "deep-dive",
+    tier: "reasoning",
+    useSearch: true,
+    signal,
+    prompt: `
+        The user reached "${concept}" via the exploration path: ${contextPath.join(' -> ')}.
+        ${scope}
+
+        TASK:
+        ${research("Use Google Search to write", "Write")} a factual research briefing in 4 to 6 sections: an overview,
+        then the key mechanisms, history, evidence, debates and open questions as they apply.
+        Each section has one to three paragraphs of plain prose with concrete names, dates and figures.
+
+        FORMAT YOUR RESPONSE EXACTLY LIKE THIS, WITH NO PREAMBLE:
+        ## SECTION: [Heading]
+        [Paragraphs]
+      `,
+    hints: { concept, subtopics: offered }
+  };
+
+  let text = "";
+  let sources: GroundingSource[] = [];
+  let supports: GroundingSupport[] = [];
+  for await (const chunk of generateStream(request, null, onUsage)) {
+    text += chunk.text;
+    if (chunk.sources) sources = chunk.sources;
+    if (chunk.supports) supports = chunk.supports;
+    onText?.(text);
+  }
+
+  const sections = parseSections(text);
+  if (sections.length === 0) throw new Error("The model returned an empty deep dive.");
+  return {
+    sections: sections.map(section => {
+      const citations = mapCitations(section.body, supports);
+      return citations.length > 0 ? { ...section, citations } : section;
+    }),
+    sources,
+    includesSubtree: offered.length > 0,
+    generatedAt: Date.now()
+  };
+};
+
+export const MAX_SYNTHESIS_ITEMS = 60;
+
+/**
+ * Asks for the "so what" of a set of nodes: themes, contradictions and open questions citing
+ * the numbered `items` ("Label: insight"), a one-line summary and a recommended next branch.
+ * `scope` says whether the items are a branch under `concept` or the path that led to it.
+ */
+export const synthesizeNodes = async (
+  concept: string,
+  scope: "branch" | "path",
+  items: string[],
+  signal?: AbortSignal,
+  onUsage?: UsageListener
+): Promise<SynthesisAnswer> => {
+  const offered = items.slice(0, MAX_SYNTHESIS_ITEMS);
+  const framing = scope === "branch"
+    ? `The user explored "${concept}" and branched out into the ideas below.`
+    : `The user followed this exploration path, from the starting idea down to "${concept}".`;
+
+  const { text } = await generate({
+    operation: "synthesis",
+    tier: "reasoning",
+    signal,
+    prompt: `
+        ${framing}
+        ${offered.map((item, i) => `${i + 1}. ${item}`).join('\n        ')}
+
+        TASK:
+        Synthesise what these ideas add up to. Cite the numbered ideas each point draws on.
+
+        FORMAT YOUR RESPONSE EXACTLY LIKE THIS, WITH NO OTHER TEXT:
+        ## SUMMARY: [The "so what" in one sentence]
+        ## THEME: [A key theme running through several ideas] [refs: 1, 4]
+        ## CONTRADICTION: [A tension or disagreement between ideas] [refs: 2, 3]
+        ## QUESTION: [An open question the ideas leave unanswered] [refs: 5]
+        ## NEXT: [Recommended topic to branch into next] | [Why, in one sentence]
+
+        Give 2 to 4 themes, up to 3 contradictions (none if there are none) and 2 to 4 questions.
+      `,
+    hints: { concept, candidates: offered }
+  }, null, onUsage);
+
+  const answer = parseSynthesis(text, offered.length);
+  if (!answer.summary && answer.themes.length === 0) throw new Error("Failed to parse the synthesis.");
+  return answer;
+};
+
+const RELEVANCE_LINE = /^(?:#{1,6}\s*)?\**SCORE\**\s*[:：]?\s*\[?(\d+)\]?\s*[|—–:-]\s*\[?([1-5])\b/i;
+
+/**
+ * Has the fast model rate how promising each candidate ("Label: insight") is for a survey of
+ * `focus`, from 1 (off-topic or trivial) to 5 (central). Candidates it skipped score null.
+ */
+export const judgeRelevance = async (
+  focus: string,
+  contextPath: string[],
+  candidates: string[],
+  signal?: AbortSignal,
+  onUsage?: UsageListener
+): Promise<(number | null)[]> => {
+  const { text } = await generate({
+    operation: "relevance",
+    tier: "fast",
+    signal,
+    prompt: `
+        The user is surveying "${focus}" (explored via ${contextPath.join(' -> ')}). These subtopics were just added beneath it:
+        ${candidates.map((c, i) => `${i + 1}. ${c}`).join('\n        ')}
+
+        Rate how relevant and worth exploring further each subtopic is for this survey,
+        from 1 (off-topic or trivial) to 5 (central to the topic).
+
+        FORMAT EACH AS, WITH NO OTHER TEXT:
+        ## SCORE: [number] | [1-5]
+      `,
+    hints: { concept: focus, candidates }
+  }, null, onUsage);
+
+  const scores: (number | null)[] = candidates.map(() => null);
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.trim().match(RELEVANCE_LINE);
+    if (!match) return;
+    const index = Number(match[1]) - 1;
+    if (index >= 0 && index < candidates.length && scores[index] === null) scores[index] = Number(match[2]);
+  });
+  return scores;
+};
+
+const MAX_CONNECTION_CANDIDATES = 60;
+const CONNECTION_LINE = /^(?:#{1,6}\s*)?\**LINK\**\s*[:：]?\s*\[?(\d+)\]?\s*(?:[|—–:-]\s*(.*))?$/i;
+
+/**
+ * Asks the model which of the map's other topics relate to `concept`. Returns indices into
+ * `candidates` with a short relationship label, strongest first.
+ */
+export const findConnections = async (
+  concept: string,
+  contextPath: string[],
+  candidates: string[],
+  signal?: AbortSignal,
+  onUsage?: UsageListener
+): Promise<{ index: number; label: string }[]> => {
+  const offered = candidates.slice(0, MAX_CONNECTION_CANDIDATES);
+  if (offered.length === 0) return [];
+  const { text } = await generate({
+    operation: "connections",
+    tier: "fast",
+    signal,
+    prompt: `
+        The concept "${concept}" (explored via ${contextPath.join(' -> ')}) is part of a mind map that also contains these topics:
+        ${offered.map((c, i) => `${i + 1}. ${c}`).join('\n        ')}
+
+        Which of these topics have a meaningful relationship to "${concept}"? Pick at most 3, strongest first.
+
+        FORMAT EACH AS, WITH NO OTHER TEXT:
+        ## LINK: [number] | [relationship in 1-4 words, e.g. "inspired by"]
+
+        If none are related, answer NONE.
+      `,
+    hints: { concept, candidates: offered }
+  }, null, onUsage);
+
+  const links: { index: number; label: string }[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.trim().match(CONNECTION_LINE);
+    if (!match) return;
+    const index = Number(match[1]) - 1;
+    if (index < 0 || index >= offered.length || links.some(l => l.index === index)) return;
+    links.push({ index, label: (match[2] || "").replace(/\*\*|["“”]/g, "").trim() });
+  });
+  return links.slice(0, 3);
+};
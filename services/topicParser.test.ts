@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { dedupeTopics, isNearDuplicate, normalizeTopicKey, parseTopics } from "./topicParser";
+
+// Answers as models actually return them, drifting from the requested `## TOPIC:` / `## DESC:` format
+const FIXTURES = {
+  strict: `## TOPIC: Synaptic Pruning
+## DESC: The brain removes unused connections during adolescence.
+## TOPIC: Long-Term Potentiation
+## DESC: Repeated firing strengthens a synapse for hours or longer.`,
+
+  boldLabels: `**TOPIC:** Synaptic Pruning
+**DESC:** The brain removes unused connections during adolescence.
+
+**TOPIC: Long-Term Potentiation**
+**DESC: Repeated firing strengthens a synapse for hours or longer.**`,
+
+  numberedList: `Here are some related topics:
+
+1. **Synaptic Pruning** — The brain removes unused connections during adolescence.
+2. **Long-Term Potentiation**: Repeated firing strengthens a synapse for hours or longer.
+3) Neurogenesis - New neurons keep forming in the hippocampus of adults.`,
+
+  numberedLabels: `1. TOPIC: Synaptic Pruning
+   DESC: The brain removes unused connections during adolescence.
+2. TOPIC: Long-Term Potentiation
+   DESC: Repeated firing strengthens a synapse for hours or longer.`,
+
+  missingDesc: `## TOPIC: Synaptic Pruning
+## TOPIC: Long-Term Potentiation
+## DESC: Repeated firing strengthens a synapse for hours or longer.
+## TOPIC: Neurogenesis`,
+
+  unlabelledDesc: `## TOPIC: Synaptic Pruning
+The brain removes unused connections during adolescence.`,
+
+  sameLine: `## TOPIC: Synaptic Pruning ## DESC: The brain removes unused connections during adolescence.`,
+
+  trailingCommentary: `Sure! Here is what I found.
+
+## TOPIC: Synaptic Pruning
+## DESC: The brain removes unused connections during adolescence [1].
+## TOPIC: [Long-Term Potentiation]
+## DESC: Repeated firing strengthens a synapse for hours or longer.
+
+Let me know if you would like me to expand on any of these topics or suggest more!`
+};
+
+const TOPICS = ["Synaptic Pruning", "Long-Term Potentiation"];
+
+describe("parseTopics", () => {
+  it("reads the requested format", () => {
+    expect(parseTopics(FIXTURES.strict)).toEqual([
+      { topic: "Synaptic Pruning", description: "The brain removes unused connections during adolescence." },
+      { topic: "Long-Term Potentiation", description: "Repeated firing strengthens a synapse for hours or longer." }
+    ]);
+  });
+
+  it("strips bold markers around labels and values", () => {
+    expect(parseTopics(FIXTURES.boldLabels)).toEqual(parseTopics(FIXTURES.strict));
+  });
+
+  it("reads numbered lists without labels", () => {
+    expect(parseTopics(FIXTURES.numberedList)).toEqual([
+      { topic: "Synaptic Pruning", description: "The brain removes unused connections during adolescence." },
+      { topic: "Long-Term Potentiation", description: "Repeated firing strengthens a synapse for hours or longer." },
+      { topic: "Neurogenesis", description: "New neurons keep forming in the hippocampus of adults." }
+    ]);
+  });
+
+  it("reads labels inside a numbered list", () => {
+    expect(parseTopics(FIXTURES.numberedLabels)).toEqual(parseTopics(FIXTURES.strict));
+  });
+
+  it("keeps topics whose DESC line is missing", () => {
+    expect(parseTopics(FIXTURES.missingDesc)).toEqual([
+      { topic: "Synaptic Pruning", description: "" },
+      { topic: "Long-Term Potentiation", description: "Repeated firing strengthens a synapse for hours or longer." },
+      { topic: "Neurogenesis", description: "" }
+    ]);
+  });
+
+  it("takes an unlabelled sentence after a topic as its description", () => {
+    expect(parseTopics(FIXTURES.unlabelledDesc)).toEqual([
+      { topic: "Synaptic Pruning", description: "The brain removes unused connections during adolescence." }
+    ]);
+  });
+
+  it("splits TOPIC and DESC sharing a line", () => {
+    expect(parseTopics(FIXTURES.sameLine)).toEqual([
+      { topic: "Synaptic Pruning", description: "The brain removes unused connections during adolescence." }
+    ]);
+  });
+
+  it("ignores commentary around the answer and citation markers", () => {
+    expect(parseTopics(FIXTURES.trailingCommentary)).toEqual(parseTopics(FIXTURES.strict));
+  });
+
+  it("finds nothing in prose", () => {
+    expect(parseTopics("I could not find anything related to that concept.")).toEqual([]);
+  });
+});
+
+describe("normalizeTopicKey", () => {
+  it("ignores case, accents, articles and punctuation", () => {
+    expect(normalizeTopicKey("The Neuro-Plasticity")).toBe(normalizeTopicKey("neuroplasticity"));
+    expect(normalizeTopicKey("Café Culture")).toBe(normalizeTopicKey("cafe culture"));
+  });
+
+  it("strips only a leading article", () => {
+    expect(normalizeTopicKey("An Apple a Day")).toBe("appleaday");
+    expect(normalizeTopicKey("Hepatitis A")).not.toBe(normalizeTopicKey("Hepatitis"));
+    expect(normalizeTopicKey("A")).toBe("a");
+    expect(isNearDuplicate("Hepatitis A", "Hepatitis")).toBe(false);
+    expect(isNearDuplicate("Hepatitis A", "Hepatitis B")).toBe(false);
+    expect(isNearDuplicate("Type 1 Diabetes", "Type 2 Diabetes")).toBe(false);
+    expect(isNearDuplicate("The Hepatitis A", "hepatitis-a")).toBe(true);
+  });
+
+  it("keeps letters of non-Latin scripts", () => {
+    expect(normalizeTopicKey("Нейро-пластичность")).toBe(normalizeTopicKey("нейропластичность"));
+    expect(normalizeTopicKey("Нейропластичность")).toHaveLength("Нейропластичность".length);
+    expect(normalizeTopicKey("神経可塑性。")).toBe("神経可塑性");
+    expect(normalizeTopicKey("اللدونة العصبية")).toBe("اللدونةالعصبية");
+  });
+
+  it("tells apart topics written in other scripts", () => {
+    expect(isNearDuplicate("神経可塑性", "神経新生")).toBe(false);
+    expect(isNearDuplicate("Нейропластичность", "Нейрогенез")).toBe(false);
+    expect(dedupeTopics([{ topic: "神経可塑性", description: "" }, { topic: "記憶", description: "" }], ["神経可塑性"], 5))
+      .toEqual([{ topic: "記憶", description: "" }]);
+  });
+});
+
+describe("dedupeTopics", () => {
+  const topic = (name: string) => ({ topic: name, description: "" });
+
+  it("drops excluded topics, including near matches", () => {
+    const kept = dedupeTopics([topic("The Synaptic Pruning"), topic("Synaptic Prunning"), topic("Neurogenesis")], TOPICS, 5);
+    expect(kept.map(t => t.topic)).toEqual(["Neurogenesis"]);
+  });
+
+  it("drops near matches of earlier suggestions and keeps the first", () => {
+    const kept = dedupeTopics([topic("Neuroplasticity"), topic("Neuro-plasticity"), topic("Neural Plasticity")], [], 5);
+    expect(kept.map(t => t.topic)).toEqual(["Neuroplasticity"]);
+  });
+
+  it("keeps distinct topics that share words", () => {
+    expect(isNearDuplicate("Synaptic Pruning", "Synaptic Plasticity")).toBe(false);
+    expect(dedupeTopics([topic("Synaptic Pruning"), topic("Synaptic Plasticity")], [], 5)).toHaveLength(2);
+  });
+
+  it("trims to the requested count after dropping repeats", () => {
+    const kept = dedupeTopics([topic("Synaptic Pruning"), topic("Memory"), topic("Sleep"), topic("Dreams")], TOPICS, 2);
+    expect(kept.map(t => t.topic)).toEqual(["Memory", "Sleep"]);
+  });
+});
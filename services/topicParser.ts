@@ -0,0 +1,234 @@
+import { BranchingResponse, DeepDiveSection } from "../types";
+
+const TOPIC_LABEL = /^(?:topic|title|name|concept)\s*\d*\s*[:：]\s*(.*)$/i;
+const DESC_LABEL = /^(?:desc|description|insight|summary|fact)\s*\d*\s*[:：]\s*(.*)$/i;
+const SECTION_HEADING = /^\s*(?:#{1,6}\s*(?:\**SECTION\**\s*\d*\s*[:：]\s*)?|\**SECTION\**\s*\d*\s*[:：]\s*)(.+)$/i;
+const SYNTHESIS_LABEL = /^(summary|themes?|contradictions?|tensions?|(?:open\s+)?questions?|next(?:\s+branch)?|recommended(?:\s+branch)?)\s*\d*\s*[:：]\s*(.*)$/i;
+const SYNTHESIS_REFS = /\s*\[(?:refs?\s*:?\s*)?(\d+(?:\s*,\s*\d+)*)\]/gi;
+const LIST_MARKER = /^(?:#{1,6}\s*|[-*+•]\s+|\(?\d+[.)]\s+)/;
+const DASH_SEPARATOR = /\s+[—–-]\s+/;
+const MAX_TOPIC_WORDS = 10;
+const NEAR_MATCH_THRESHOLD = 0.85;
+
+/**
+ * Removes markdown emphasis, links and citation markers from a line
+ */
+const stripMarkdown = (text: string) =>
+  text
+    .replace(/\[([^\]]+)\]\((?:[^)]+)\)/g, "$1")
+    .replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, "")
+    .replace(/\*\*|__/g, "")
+    .replace(/(^|\s)[*_]+|[*_]+(?=\s|$)/g, "$1")
+    .trim();
+
+const cleanTopic = (text: string) =>
+  stripMarkdown(text)
+    .replace(/^\[(.*)\]$/, "$1")
+    .replace(/^["'“‘](.*)["'”’]$/, "$1")
+    .replace(/[.:;,]+$/, "")
+    .trim();
+
+const cleanDescription = (text: string) =>
+  stripMarkdown(text).replace(/^\[(.*)\]$/, "$1").trim();
+
+/**
+ * Strips list bullets, heading hashes and emphasis so label detection sees the bare text
+ */
+const normalizeLine = (line: string) => {
+  let text = line.trim();
+  let isListItem = false;
+  while (LIST_MARKER.test(text)) {
+    text = text.replace(LIST_MARKER, "");
+    isListItem = true;
+  }
+  return { text: stripMarkdown(text), raw: text, isListItem };
+};
+
+/**
+ * Parses branching responses, tolerating the usual drift from the requested
+ * `## TOPIC:` / `## DESC:` format: bold or plain labels, numbered or bulleted lists,
+ * missing DESC lines, labels on one line, and commentary around the answer.
+ */
+export const parseTopics = (text: string): BranchingResponse[] => {
+  // Put labels that share a line with other text onto their own lines
+  const prepared = text.replace(/(\S)[ \t]+((?:#{1,6}\s*)?\**(?:TOPIC|DESC|DESCRIPTION)\**\s*:)/g, "$1\n$2");
+  const lines = prepared.split(/\r?\n/).map(normalizeLine).filter(l => l.text.length > 0);
+  const hasExplicitLabels = lines.some(l => TOPIC_LABEL.test(l.text));
+
+  const topics: BranchingResponse[] = [];
+  let current: BranchingResponse | null = null;
+
+  lines.forEach(line => {
+    const topicMatch = line.text.match(TOPIC_LABEL);
+    if (topicMatch) {
+      const [topic, ...rest] = topicMatch[1].split(DASH_SEPARATOR);
+      current = { topic: cleanTopic(topic), description: cleanDescription(rest.join(" - ")) };
+      topics.push(current);
+      return;
+    }
+
+    const descMatch = line.text.match(DESC_LABEL);
+    if (descMatch) {
+      if (current && !current.description) current.description = cleanDescription(descMatch[1]);
+      return;
+    }
+
+    if (!hasExplicitLabels && line.isListItem) {
+      const parts = line.raw.match(/^\*\*(.+?)\*\*\s*[—–:-]?\s*(.*)$/) || line.text.match(/^(.+?)(?:\s+[—–-]\s+|:\s+)(.*)$/);
+      const topic = cleanTopic(parts ? parts[1] : line.text);
+      if (topic.split(/\s+/).length <= MAX_TOPIC_WORDS) {
+        current = { topic, description: parts ? cleanDescription(parts[2]) : "" };
+        topics.push(current);
+        return;
+      }
+    }
+
+    // An unlabeled sentence straight after a topic is its description
+    if (current && !current.description) current.description = cleanDescription(line.text);
+  });
+
+  return topics.filter(t => t.topic.length > 0);
+};
+
+/**
+ * Splits a deep dive into sections at `## SECTION:` lines (or any Markdown heading). Text before
+ * the first heading becomes an "Overview"; citation markers and emphasis are stripped from the
+ * body so grounding segments can be located in it. Safe to call on a partial stream.
+ */
+export const parseSections = (text: string): DeepDiveSection[] => {
+  const sections: { heading: string; lines: string[] }[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const heading = line.match(SECTION_HEADING);
+    if (heading) {
+      sections.push({ heading: cleanTopic(heading[1]), lines: [] });
+      return;
+    }
+    if (sections.length === 0) {
+      if (!line.trim()) return;
+      sections.push({ heading: "Overview", lines: [] });
+    }
+    sections[sections.length - 1].lines.push(stripMarkdown(line));
+  });
+  return sections
+    .map(s => ({ heading: s.heading, body: s.lines.join("\n").replace(/\n{3,}/g, "\n\n").trim() }))
+    .filter(s => s.heading.length > 0 || s.body.length > 0);
+};
+
+export interface SynthesisAnswerPoint {
+  text: string;
+  /** Zero-based indices into the items the synthesis was given */
+  refs: number[];
+}
+
+export interface SynthesisAnswer {
+  summary: string;
+  themes: SynthesisAnswerPoint[];
+  contradictions: SynthesisAnswerPoint[];
+  openQuestions: SynthesisAnswerPoint[];
+  nextBranch?: { topic: string; reason: string };
+}
+
+/**
+ * Parses a synthesis answer: `## THEME:`, `## CONTRADICTION:`, `## QUESTION:` lines citing the
+ * numbered items as `[refs: 1, 4]`, plus one `## SUMMARY:` and one `## NEXT: topic | reason`.
+ * Unlabelled lines continue the point above them; references outside `itemCount` are dropped.
+ */
+export const parseSynthesis = (text: string, itemCount: number): SynthesisAnswer => {
+  const answer: SynthesisAnswer = { summary: "", themes: [], contradictions: [], openQuestions: [] };
+  let current: SynthesisAnswerPoint | null = null;
+
+  text.split(/\r?\n/).map(normalizeLine).forEach(line => {
+    const raw = line.raw.replace(/\*\*|__/g, "");
+    const refs = Array.from(raw.matchAll(SYNTHESIS_REFS))
+      .flatMap(m => m[1].split(",").map(n => Number(n.trim()) - 1))
+      .filter((ref, i, all) => ref >= 0 && ref < itemCount && all.indexOf(ref) === i);
+    const content = stripMarkdown(raw.replace(SYNTHESIS_REFS, ""));
+    const label = content.match(SYNTHESIS_LABEL);
+    if (!label) {
+      if (current && content) {
+        current.text = `${current.text} ${content}`.trim();
+        current.refs.push(...refs.filter(r => !current!.refs.includes(r)));
+      }
+      return;
+    }
+
+    const kind = label[1].toLowerCase();
+    const body = label[2].trim();
+    current = null;
+    if (kind === "summary") {
+      answer.summary = cleanDescription(body);
+    } else if (kind.startsWith("next") || kind.startsWith("recommended")) {
+      const [topic, ...reason] = body.split(/\s*\|\s*|\s+[—–-]\s+/);
+      if (cleanTopic(topic)) answer.nextBranch = { topic: cleanTopic(topic), reason: cleanDescription(reason.join(" ")) };
+    } else {
+      current = { text: cleanDescription(body), refs };
+      if (kind.startsWith("theme")) answer.themes.push(current);
+      else if (kind.includes("question")) answer.openQuestions.push(current);
+      else answer.contradictions.push(current);
+    }
+  });
+
+  const filled = (points: SynthesisAnswerPoint[]) => points.filter(p => p.text.length > 0);
+  return { ...answer, themes: filled(answer.themes), contradictions: filled(answer.contradictions), openQuestions: filled(answer.openQuestions) };
+};
+
+const foldTopic = (topic: string) =>
+  topic
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/^\s*(the|a|an)\s+/, "");
+
+/**
+ * Lowercases and strips accents, punctuation, a leading article and spacing so "The Neuro-Plasticity" ~
+ * "neuroplasticity". Articles elsewhere are kept: "Hepatitis A" is not "Hepatitis". Letters and digits
+ * of every script are kept, so "Нейропластичность" has a key too.
+ */
+export const normalizeTopicKey = (topic: string) => foldTopic(topic).replace(/[^\p{L}\p{N}]+/gu, "");
+
+/**
+ * Words of one or two characters, such as the "A" in "Hepatitis A" or the "2" in "Type 2 Diabetes"
+ */
+const shortWords = (topic: string) =>
+  foldTopic(topic).split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0 && word.length <= 2).sort().join(" ");
+
+export const levenshtein = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = temp;
+    }
+  }
+  return row[b.length];
+};
+
+/**
+ * 1 for identical topics, 0 for nothing in common, based on edit distance of the normalised keys
+ */
+export const topicSimilarity = (a: string, b: string) => {
+  const ka = normalizeTopicKey(a);
+  const kb = normalizeTopicKey(b);
+  if (!ka || !kb) return 0;
+  if (ka === kb) return 1;
+  // One edit apart, but a different letter or number names a different thing
+  if (shortWords(a) !== shortWords(b)) return 0;
+  return 1 - levenshtein(ka, kb) / Math.max(ka.length, kb.length);
+};
+
+export const isNearDuplicate = (a: string, b: string) => topicSimilarity(a, b) >= NEAR_MATCH_THRESHOLD;
+
+/**
+ * Drops topics that repeat an excluded topic or an earlier suggestion, then trims to `count`
+ */
+export const dedupeTopics = (topics: BranchingResponse[], excludeTopics: string[], count: number): BranchingResponse[] => {
+  const kept: BranchingResponse[] = [];
+  topics.forEach(candidate => {
+    const seen = [...excludeTopics, ...kept.map(k => k.topic)];
+    if (!seen.some(existing => isNearDuplicate(existing, candidate.topic))) kept.push(candidate);
+  });
+  return kept.slice(0, count);
+};
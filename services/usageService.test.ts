@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_USAGE_SETTINGS, spendingCapReason } from "./usageService";
+
+describe("spendingCapReason", () => {
+  const settings = { ...DEFAULT_USAGE_SETTINGS, spendingCap: 1 };
+
+  it("blocks once the map reaches the cap", () => {
+    expect(spendingCapReason(settings, 1, 1)).toBe("Spending cap of $1.00 reached for this map");
+  });
+
+  it("blocks a fresh map once the session reaches the cap", () => {
+    expect(spendingCapReason(settings, 0, 1.2)).toBe("Spending cap of $1.00 reached for this session");
+  });
+
+  it("allows spending below the cap, and anything without one", () => {
+    expect(spendingCapReason(settings, 0.4, 0.9)).toBeNull();
+    expect(spendingCapReason(DEFAULT_USAGE_SETTINGS, 50, 50)).toBeNull();
+  });
+});
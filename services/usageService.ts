@@ -0,0 +1,152 @@
+import { LLMOperation, TokenUsage, UsageRecord } from "../types";
+import { GENERATION_OPERATIONS } from "./generationSettingsService";
+
+const SETTINGS_KEY = "thought-explorer:usage";
+
+/**
+ * What a model costs, in US dollars. A model is priced by the longest `model` prefix it starts with.
+ */
+export interface ModelPrice {
+  model: string;
+  /** Per million prompt tokens */
+  input: number;
+  /** Per million output tokens, thinking included */
+  output: number;
+  /** Per thousand grounding searches */
+  grounding: number;
+}
+
+export interface UsageSettings {
+  prices: ModelPrice[];
+  /** Branching stops once the open map's or this session's estimated cost reaches this many dollars; 0 means no cap */
+  spendingCap: number;
+}
+
+// Google's list prices for prompts up to 200k tokens; local and mock models are free
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: "gemini-3-pro", input: 2, output: 12, grounding: 14 },
+  { model: "gemini-3-flash", input: 0.5, output: 3, grounding: 14 },
+  { model: "gemini-2.5-pro", input: 1.25, output: 10, grounding: 35 },
+  { model: "gemini-2.5-flash", input: 0.3, output: 2.5, grounding: 35 },
+  { model: "gemini-2.5-flash-lite", input: 0.1, output: 0.4, grounding: 35 }
+];
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: DEFAULT_PRICES, spendingCap: 0 };
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, outputTokens: 0, thinkingTokens: 0, groundingCalls: 0 };
+
+const USAGE_FIELDS: (keyof TokenUsage)[] = ["promptTokens", "outputTokens", "thinkingTokens", "groundingCalls"];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toCount = (value: unknown) => (typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0);
+
+const isOperation = (value: unknown): value is LLMOperation => GENERATION_OPERATIONS.some(op => op.id === value);
+
+/**
+ * Adds `record` to the entry with the same operation and model, keeping one entry per pair
+ */
+export const addUsage = (records: UsageRecord[], record: UsageRecord): UsageRecord[] => {
+  const index = records.findIndex(r => r.operation === record.operation && r.model === record.model);
+  if (index === -1) return [...records, record];
+  const sum = { ...records[index], calls: records[index].calls + record.calls };
+  USAGE_FIELDS.forEach(field => { sum[field] += record[field]; });
+  return records.map((r, i) => (i === index ? sum : r));
+};
+
+export const mergeUsage = (records: UsageRecord[], more: UsageRecord[]) => more.reduce(addUsage, records);
+
+export const totalUsage = (records: UsageRecord[]): TokenUsage & { calls: number } =>
+  records.reduce((total, r) => {
+    const sum = { ...total, calls: total.calls + r.calls };
+    USAGE_FIELDS.forEach(field => { sum[field] += r[field]; });
+    return sum;
+  }, { ...EMPTY_USAGE, calls: 0 });
+
+export const findPrice = (prices: ModelPrice[], model: string): ModelPrice | null =>
+  prices
+    .filter(p => p.model && model.toLowerCase().startsWith(p.model.toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)[0] || null;
+
+/**
+ * Estimated cost in dollars; models without a price count as free
+ */
+export const estimateCost = (records: UsageRecord[], prices: ModelPrice[]) =>
+  records.reduce((cost, r) => {
+    const price = findPrice(prices, r.model);
+    if (!price) return cost;
+    return cost
+      + (r.promptTokens * price.input + (r.outputTokens + r.thinkingTokens) * price.output) / 1e6
+      + (r.groundingCalls * price.grounding) / 1e3;
+  }, 0);
+
+export const unpricedModels = (records: UsageRecord[], prices: ModelPrice[]) =>
+  [...new Set(records.filter(r => !findPrice(prices, r.model)).map(r => r.model))];
+
+/**
+ * Totals per operation, in the order the generation settings list them
+ */
+export const usageByOperation = (records: UsageRecord[]) =>
+  GENERATION_OPERATIONS
+    .map(op => ({ ...op, records: records.filter(r => r.operation === op.id) }))
+    .filter(op => op.records.length > 0);
+
+/**
+ * Why branching is blocked by the spending cap, if it is. The session counts too, so starting
+ * another map does not start another budget.
+ */
+export const spendingCapReason = (settings: UsageSettings, mapCost: number, sessionCost: number) => {
+  if (settings.spendingCap <= 0) return null;
+  const cap = formatCost(settings.spendingCap);
+  if (mapCost >= settings.spendingCap) return `Spending cap of ${cap} reached for this map`;
+  if (sessionCost >= settings.spendingCap) return `Spending cap of ${cap} reached for this session`;
+  return null;
+};
+
+export const formatCost = (dollars: number) =>
+  `$${dollars === 0 ? "0" : dollars < 1 ? dollars.toFixed(4) : dollars.toFixed(2)}`;
+
+export const formatTokens = (count: number) =>
+  count >= 1e6 ? `${(count / 1e6).toFixed(1)}M` : count >= 1e3 ? `${(count / 1e3).toFixed(1)}k` : String(count);
+
+/**
+ * Usage from storage or a map file; malformed entries are dropped and duplicates merged
+ */
+export const normalizeUsageRecords = (raw: unknown): UsageRecord[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(r => isObject(r) && isOperation(r.operation) && typeof r.model === "string")
+    .map((r): UsageRecord => ({
+      operation: r.operation,
+      model: r.model,
+      calls: Math.round(toCount(r.calls)),
+      promptTokens: toCount(r.promptTokens),
+      outputTokens: toCount(r.outputTokens),
+      thinkingTokens: toCount(r.thinkingTokens),
+      groundingCalls: toCount(r.groundingCalls)
+    }))
+    .reduce(addUsage, []);
+};
+
+export const normalizeUsageSettings = (raw: unknown): UsageSettings => {
+  if (!isObject(raw)) return DEFAULT_USAGE_SETTINGS;
+  const prices = Array.isArray(raw.prices)
+    ? raw.prices
+      .filter(p => isObject(p) && typeof p.model === "string" && p.model.trim())
+      .map((p): ModelPrice => ({ model: p.model.trim(), input: toCount(p.input), output: toCount(p.output), grounding: toCount(p.grounding) }))
+    : DEFAULT_PRICES;
+  return { prices, spendingCap: toCount(raw.spendingCap) };
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    return normalizeUsageSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null"));
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -4,12 +4,75 @@ export interface GroundingSource {
   uri: string;
 }
 
+/**
+ * A span of a node's description (character offsets, end exclusive) backed by `sources[sourceIndex]`
+ */
 export interface Citation {
   startIndex: number;
   endIndex: number;
   sourceIndex: number;
 }
 
+/**
+ * Reading status a user can set on a node
+ */
+export type NodeStatus = "to-read" | "reviewed" | "important" | "dismissed";
+
+export interface DeepDiveSection {
+  heading: string;
+  /** Paragraphs separated by blank lines; citations index into the deep dive's `sources` */
+  body: string;
+  citations?: Citation[];
+}
+
+/**
+ * Long-form, sourced write-up of a node, kept on the node once generated
+ */
+export interface DeepDive {
+  sections: DeepDiveSection[];
+  sources: GroundingSource[];
+  /** Written about the node's whole branch rather than the node alone */
+  includesSubtree: boolean;
+  generatedAt: number;
+}
+
+/**
+ * What kind of children a branch asks for; missing means `related`
+ */
+export type BranchMode =
+  | "related"
+  | "causes-effects"
+  | "pros-cons"
+  | "timeline"
+  | "components"
+  | "counter-arguments"
+  | "key-people"
+  | "applications"
+  | "open-questions";
+
+/**
+ * One finding of a synthesis with the nodes it was drawn from
+ */
+export interface SynthesisPoint {
+  text: string;
+  nodeIds: string[];
+}
+
+/**
+ * Structured "so what" of a branch (the node and its descendants) or of the path leading to a node.
+ * A node carrying one is a summary node rather than a topic.
+ */
+export interface Synthesis {
+  scope: "branch" | "path";
+  themes: SynthesisPoint[];
+  contradictions: SynthesisPoint[];
+  openQuestions: SynthesisPoint[];
+  nextBranch?: { topic: string; reason: string };
+  /** Every node the synthesis was given, whether or not a point cites it */
+  sourceNodeIds: string[];
+  generatedAt: number;
+}
+
 export interface ThoughtNode {
   id: string;
   label: string;
@@ -22,18 +85,136 @@ export interface ThoughtNode {
   isCollapsed?: boolean;
   isHidden?: boolean;
   isNew?: boolean;
+  /** Written by hand in edit mode rather than generated */
+  isManual?: boolean;
+  /** Held in place by physics and skipped by deterministic relayouts */
+  isPinned?: boolean;
   sources?: GroundingSource[];
   citations?: Citation[];
   path: string[];
+  /** The user's own Markdown notes; never sent to or written by the model */
+  notes?: string;
+  tags?: string[];
+  /** Hex colour from the annotation palette */
+  color?: string;
+  status?: NodeStatus;
+  deepDive?: DeepDive;
+  synthesis?: Synthesis;
+  /** Mode of the branch that produced this node */
+  branchMode?: BranchMode;
+  /** The node's side within its mode, e.g. "Pro", "Effect", "1949" or a person's role */
+  branchFacet?: string;
+  /** Model usage of the requests this node triggered: its insight, branches, deep dive and so on */
+  usage?: UsageRecord[];
 }
 
+export type NodeAnnotations = Pick<ThoughtNode, "notes" | "tags" | "color" | "status">;
+
 export interface BranchingResponse {
   topic: string;
   description: string;
+  facet?: string;
+  sources?: GroundingSource[];
+  citations?: Citation[];
 }
 
+/**
+ * Tree edges mirror `parentId`; cross-links join any two nodes and carry no hierarchy
+ */
+export type EdgeKind = "tree" | "cross";
+
 export interface Edge {
   id: string;
   from: string;
   to: string;
+  /** Missing means `tree` */
+  kind?: EdgeKind;
+  /** Relationship label of a cross-link, e.g. "inspired by" */
+  label?: string;
+  /** Proposed by the model and not yet accepted by the user */
+  isSuggested?: boolean;
+  /** Mode of the branch a tree edge was created by */
+  branchMode?: BranchMode;
+}
+
+/**
+ * `force` is the live simulation; the others are computed in layoutService
+ */
+export type LayoutMode = "force" | "tree" | "radial" | "orgchart";
+
+export interface MapViewState {
+  zoom: number;
+  scrollX: number;
+  scrollY: number;
+  activeLevel: number;
+  /** Missing means `force` */
+  layout?: LayoutMode;
+}
+
+/**
+ * The kinds of model request the app makes; generation settings can pick a model per kind
+ */
+export type LLMOperation = "topic-info" | "related-topics" | "connections" | "deep-dive" | "synthesis" | "relevance";
+
+/**
+ * How a map asks the model for content. Saved with each map; new maps start from the user's defaults.
+ */
+export interface GenerationSettings {
+  /** Children requested per branch */
+  branchCount: number;
+  /** Model per operation; missing or empty uses the provider's model for the request's tier */
+  models: Partial<Record<LLMOperation, string>>;
+  /** Thinking tokens for deep-reasoning branches ("+"); 0 turns the extra reasoning off */
+  thinkingBudget: number;
+  /** Null leaves the model's default */
+  temperature: number | null;
+  /** Language the answers are written in; empty leaves it to the model */
+  language: string;
+  /** Search grounding for the operations that use it */
+  useSearch: boolean;
+  /** Deepest generation branching may create; 0 means no limit */
+  maxDepth: number;
+}
+
+/**
+ * Tokens and searches of one or more model responses
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  /** Reasoning tokens, billed as output */
+  thinkingTokens: number;
+  /** Web searches run for search grounding */
+  groundingCalls: number;
+}
+
+/**
+ * Usage summed per operation and model, so its cost can be priced again when the price table changes
+ */
+export interface UsageRecord extends TokenUsage {
+  operation: LLMOperation;
+  model: string;
+  calls: number;
+}
+
+export interface SavedMap {
+  id: string;
+  title: string;
+  nodes: ThoughtNode[];
+  edges: Edge[];
+  view: MapViewState;
+  /** Missing means the user's defaults when the map is opened */
+  settings?: GenerationSettings;
+  /** Every request made for the map, including those of nodes since deleted */
+  usage?: UsageRecord[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SavedMapSummary {
+  id: string;
+  title: string;
+  rootLabel: string;
+  nodeCount: number;
+  updatedAt: number;
 }